@@ -4,13 +4,19 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import NotFound from "@/pages/not-found";
 import VideoConference from "@/pages/VideoConference";
+import Lobby from "@/pages/Lobby";
+import AuthPage from "@/pages/AuthPage";
+import ProfilePage from "@/pages/ProfilePage";
 import DirectConnection from "@/pages/DirectConnection";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
+      <Route path="/lobby" component={Lobby} />
       <Route path="/conference" component={VideoConference} />
+      <Route path="/auth" component={AuthPage} />
+      <Route path="/profile" component={ProfilePage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -28,7 +34,7 @@ function Home() {
         </p>
         
         <div className="flex flex-col space-y-4">
-          <Link href="/conference">
+          <Link href="/lobby">
             <div className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg font-medium transition-colors block cursor-pointer">
               <div className="flex items-center justify-center">
                 <svg className="w-5 h-5 mr-2" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -38,6 +44,11 @@ function Home() {
               </div>
             </div>
           </Link>
+          <Link href="/auth">
+            <div className="bg-slate-700 hover:bg-slate-600 text-white px-6 py-3 rounded-lg font-medium transition-colors block cursor-pointer">
+              Увійти або зареєструватися
+            </div>
+          </Link>
         </div>
       </div>
     </div>
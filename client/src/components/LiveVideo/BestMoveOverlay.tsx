@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { BestMoveState, BEST_MOVE_MAX_PICKS } from '@shared/schema';
+
+interface BestMovePanelProps {
+  bestMove: BestMoveState;
+  canPick: boolean; // Локальний гравець - вбитий у першу ніч і ще не зробив хід
+  tableSlots: number[]; // Слоти, які можна назвати
+  onSubmit: (slots: number[]) => void;
+}
+
+/**
+ * Панель кращого ходу: вибір до трьох слотів для гравця, вбитого в першу ніч,
+ * і підсумок ходу для всіх інших
+ */
+export function BestMovePanel({ bestMove, canPick, tableSlots, onSubmit }: BestMovePanelProps) {
+  const [selected, setSelected] = useState<number[]>([]);
+
+  if (bestMove.victimSlot === null) {
+    return null;
+  }
+
+  const toggleSlot = (slot: number) => {
+    setSelected(prev => prev.includes(slot)
+      ? prev.filter(s => s !== slot)
+      : prev.length < BEST_MOVE_MAX_PICKS ? [...prev, slot] : prev);
+  };
+
+  if (canPick) {
+    return (
+      <div className="absolute top-20 left-1/2 -translate-x-1/2 z-30 flex items-center space-x-1 text-xs px-3 py-1 rounded-full shadow-md backdrop-blur-sm bg-slate-900/90 text-white">
+        <span className="mr-1">🎯 Кращий хід:</span>
+        {tableSlots.map(slot => (
+          <button
+            key={slot}
+            className={`w-6 h-6 rounded-full ${selected.includes(slot) ? 'bg-red-600 text-white' : 'bg-slate-700 hover:bg-slate-600 text-gray-200'}`}
+            onClick={() => toggleSlot(slot)}
+          >
+            {slot}
+          </button>
+        ))}
+        <button
+          className="ml-1 px-2 py-1 rounded-md bg-purple-600/80 hover:bg-purple-700/90 text-white disabled:opacity-50"
+          disabled={selected.length === 0}
+          onClick={() => onSubmit(selected)}
+        >
+          Зберегти
+        </button>
+      </div>
+    );
+  }
+
+  if (!bestMove.submitted) {
+    return null;
+  }
+
+  return (
+    <div className="absolute top-20 left-1/2 -translate-x-1/2 z-20 px-3 py-1 rounded-full shadow-md backdrop-blur-sm bg-slate-900/80 text-white text-xs">
+      🎯 Кращий хід {bestMove.victimSlot}: {bestMove.picks.join(', ')}
+      {bestMove.mafiaHits !== null && (
+        <span className="text-gray-400 ml-1">· вгадано мафії: {bestMove.mafiaHits}</span>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Позначка на плитці гравця, названого в кращому ході (бачать усі)
+ */
+export function BestMoveTileBadge() {
+  return (
+    <div
+      className="absolute bottom-10 left-2 z-20 px-2 py-0.5 rounded-md text-xs font-medium shadow-md bg-red-800/90 text-white"
+      title="Названий у кращому ході"
+    >
+      🎯 КХ
+    </div>
+  );
+}
@@ -8,6 +8,23 @@ import { Track, Participant, Room } from 'livekit-client';
 import React, { useEffect, useState, useRef, DragEvent, useMemo } from 'react';
 import { useSlots } from '../../hooks/use-slots';
 import { usePlayerStates } from '../../hooks/use-player-states';
+import { useGameSession } from '../../hooks/use-game-session';
+import { useNightActions } from '../../hooks/use-night-actions';
+import { useVoting } from '../../hooks/use-voting';
+import { useSpeechTimer } from '../../hooks/use-speech-timer';
+import { useBestMove } from '../../hooks/use-best-move';
+import { useScoring } from '../../hooks/use-scoring';
+import { isCurrentUserHost, isCurrentUserSpectator } from '../../lib/livekit';
+import { GamePhaseBanner } from './GamePhaseBanner';
+import { RolePeekCard, RoleRevealCard, ROLE_LABELS, ROLE_BADGE_CLASSES } from './RolePeekCard';
+import { NightActionOverlay, NightSummaryBadges } from './NightActionOverlay';
+import { VotingTileOverlay, VotingPanel } from './VotingOverlay';
+import { BestMovePanel, BestMoveTileBadge } from './BestMoveOverlay';
+import { ScoreSummaryTable } from './ScoreSummaryTable';
+import { SpeechTimerDisplay } from './SpeechTimerDisplay';
+import { PlayerStatusOverlay } from './PlayerStatusOverlay';
+import { PlayerRole, NightActionType, NightActionResult, NightSummary, VotingState, SpeechType, PlayerStatusRecord } from '@shared/schema';
+import { getAbility, NIGHT_ACTIONS_BY_ROLE } from '@shared/roles';
 
 /**
  * Компонент сітки відео 4x3 для відображення до 12 учасників
@@ -31,10 +48,59 @@ export function CustomVideoGrid() {
   const [draggedUser, setDraggedUser] = useState<{userId: string, slotNumber: number} | null>(null);
   
   // Подключаем хук usePlayerStates для работы с "убитыми" игроками
-  const playerStatesManager = usePlayerStates(slotsManager.sendMessage, userIdentity);
+  const playerStatesManager = usePlayerStates(slotsManager.sendRequest, slotsManager.playerStates);
   
-  // Проверяем, является ли текущий пользователь ведущим
-  const isHost = slotsManager.userSlot === 12;
+  // Подключаем хук useGameSession для отображения текущей фазы игры
+  const gameSession = useGameSession(slotsManager.sendMessage);
+  
+  // Ночные действия текущего игрока и сводка ночи для ведущего
+  const nightActions = useNightActions(slotsManager.sendMessage, gameSession.session.phase);
+  
+  // Действия, доступные локальному игроку этой ночью (только живым игрокам с активной ролью)
+  const availableNightActions: NightActionType[] =
+    gameSession.session.phase === 'night' && gameSession.myRole && playerStatesManager.isPlayerAlive(userIdentity)
+      ? NIGHT_ACTIONS_BY_ROLE[gameSession.myRole]
+      : [];
+  
+  // Проверяем, является ли текущий пользователь ведущим (по роли от сервера, а не по слоту)
+  const isHost = isCurrentUserHost();
+  
+  // Выставление кандидатур и голосование
+  const votingManager = useVoting(slotsManager.sendMessage);
+  const { voting } = votingManager;
+  const mySlot = slotsManager.userSlot;
+  
+  // Серверный таймер речей
+  const speechTimer = useSpeechTimer(slotsManager.sendMessage);
+  
+  const isLivingPlayer = !!mySlot && mySlot !== 12 && playerStatesManager.isPlayerAlive(userIdentity);
+  const isDaytime = gameSession.session.phase === 'day_discussion' || gameSession.session.phase === 'nominations';
+  // Игрок выставляет кандидатуру только во время своей речи
+  const isMySpeech = speechTimer.timer.status !== 'idle' && speechTimer.timer.speakerSlot === mySlot;
+  const canStillNominate = isDaytime && (isHost || (isLivingPlayer && isMySpeech && voting.nominatedBy[mySlot!] === undefined));
+  const canStillVote = (voting.stage === 'voting' || voting.stage === 'revote') && isLivingPlayer && voting.votes[mySlot!] === undefined;
+  const canLiftVote = voting.stage === 'lift_vote' && isLivingPlayer && voting.liftVotes[mySlot!] === undefined;
+  
+  // Лучший ход игрока, убитого в первую ночь
+  const bestMoveManager = useBestMove(slotsManager.sendMessage);
+  const { bestMove } = bestMoveManager;
+  const isGameRunning = gameSession.session.phase !== 'lobby' && gameSession.session.phase !== 'game_over';
+  const canPickBestMove = isGameRunning && !bestMove.submitted && !!mySlot && bestMove.victimSlot === mySlot;
+  
+  // Итоговая таблица баллов после окончания игры
+  const scoring = useScoring(slotsManager.sendMessage);
+  
+  // Тип речи, которую ведущий дает игроку в слоте: оправдание при равенстве, последнее слово для выбывшего
+  const getSpeechTypeForSlot = (slotNumber: number, playerId: string): SpeechType => {
+    if (voting.stage === 'tie_speeches' && voting.candidates.includes(slotNumber)) {
+      return 'defence';
+    }
+    const status = playerStatesManager.getPlayerStatus(playerId);
+    if (status === 'killed' || status === 'voted_out') {
+      return 'last_words';
+    }
+    return 'normal';
+  };
   
   // Используем useRef для отслеживания состояния слотов без вызова ре-рендеринга всего компонента
   const slotsRef = React.useRef({
@@ -59,9 +125,12 @@ export function CustomVideoGrid() {
     }
   }, [slotsManager.slots, slotsManager.userSlot]);
   
+  // Глядач бачить усю сітку, але не займає слотів
+  const isSpectator = isCurrentUserSpectator();
+  
   // Обработчик клика по пустому слоту
   const handleSlotClick = (slotNumber: number) => {
-    if (slotsManager.connected) {
+    if (slotsManager.connected && !isSpectator) {
       slotsManager.selectSlot(slotNumber);
     }
   };
@@ -119,12 +188,13 @@ export function CustomVideoGrid() {
   
   // Автоматически выбираем слот для локального участника при подключении
   useEffect(() => {
-    if (currentLocalParticipant && slotsManager.connected && !slotsManager.userSlot) {
+    if (currentLocalParticipant && slotsManager.connected && !slotsManager.userSlot && !isSpectator) {
       // Находим первый свободный слот
       for (let i = 0; i < 12; i++) {
         const slotNumber = i + 1;
         if (!slotsManager.slots[slotNumber]) {
-          slotsManager.selectSlot(slotNumber);
+          // Автоматичний вибір може випередити призначення слота сервером, тому відмову не показуємо
+          slotsManager.sendMessage({ type: 'select_slot', slotNumber });
           break;
         }
       }
@@ -179,6 +249,44 @@ export function CustomVideoGrid() {
 
   return (
     <div className="h-full w-full p-4 relative">
+      <GamePhaseBanner
+        session={gameSession.session}
+        isHost={isHost}
+        nextPhases={gameSession.nextPhases}
+        onChangePhase={gameSession.changePhase}
+        onRedealRoles={gameSession.redealRoles}
+      />
+      <VotingPanel
+        voting={voting}
+        isHost={isHost}
+        canLiftVote={canLiftVote}
+        onLiftVote={votingManager.castLiftVote}
+        onCloseVoting={votingManager.closeVoting}
+        onStartRevote={votingManager.startRevote}
+      />
+      <BestMovePanel
+        bestMove={bestMove}
+        canPick={canPickBestMove}
+        tableSlots={slotNumbers.filter(slot => slot !== 12 && slot !== bestMove.victimSlot && !!slotsWithLocalParticipant[slot])}
+        onSubmit={bestMoveManager.submitBestMove}
+      />
+      {scoring.sheet && gameSession.session.phase === 'game_over' && (
+        <ScoreSummaryTable
+          sheet={scoring.sheet}
+          isHost={isHost}
+          onSetExtraPoints={scoring.setExtraPoints}
+          onFinalize={scoring.finalizeScores}
+        />
+      )}
+      <SpeechTimerDisplay
+        timer={speechTimer.timer}
+        remainingMs={speechTimer.remainingMs}
+        isHost={isHost}
+        onStartNext={(speechType?: SpeechType) => speechTimer.startSpeech(undefined, speechType)}
+        onPause={speechTimer.pauseSpeech}
+        onResume={speechTimer.resumeSpeech}
+        onStop={speechTimer.stopSpeech}
+      />
       <div className="video-grid">
         {slotNumbers.map(slotNumber => {
           // Получаем ID пользователя, занимающего слот, из нашей оптимизированной копии слотов
@@ -201,9 +309,31 @@ export function CustomVideoGrid() {
               onDrop={slotNumber !== 12 ? (e: DragEvent<HTMLDivElement>) => handleDrop(e, slotNumber) : undefined}
               onDragEnd={handleDragEnd}
               isDraggable={isHost && slotNumber !== 12} // Запрещаем перетаскивать из слота 12
-              isKilled={playerStatesManager.isPlayerKilled(participant.identity)}
+              statusRecord={playerStatesManager.getStatusRecord(participant.identity)}
+              fouls={playerStatesManager.getFouls(participant.identity)}
+              isSilenced={playerStatesManager.isPlayerSilenced(participant.identity)}
               playerStatesManager={playerStatesManager}
               slotsManager={slotsManager} // Передаем slotsManager
+              myRole={participant.isLocal ? gameSession.myRole : null}
+              tableRole={isHost ? gameSession.getTableRole(participant.identity) : undefined}
+              revealedRole={gameSession.getRevealedRole(participant.identity)}
+              isBestMovePick={bestMoveManager.isPicked(slotNumber)}
+              nightActions={slotNumber === 12 ? [] : slotNumber === slotsManager.userSlot
+                ? availableNightActions.filter(action => gameSession.myRole && getAbility(gameSession.myRole, action)?.canTargetSelf)
+                : availableNightActions}
+              nightResults={nightActions.getResultsForSlot(slotNumber)}
+              nightSummary={isHost ? nightActions.summary : null}
+              onNightAction={(action: NightActionType) => nightActions.submitNightAction(action, [slotNumber])}
+              voting={slotNumber !== 12 ? voting : undefined}
+              voters={votingManager.getVotersForSlot(slotNumber)}
+              canNominate={canStillNominate && slotNumber !== 12 && !voting.nominees.includes(slotNumber) &&
+                playerStatesManager.isPlayerAlive(participant.identity)}
+              canVote={canStillVote && voting.candidates.includes(slotNumber)}
+              onNominate={() => votingManager.nominate(slotNumber)}
+              onVote={() => votingManager.castVote(slotNumber)}
+              isSpeaking={speechTimer.timer.status !== 'idle' && speechTimer.timer.speakerSlot === slotNumber}
+              speechType={getSpeechTypeForSlot(slotNumber, participant.identity)}
+              onGiveSpeech={(speechType: SpeechType) => speechTimer.startSpeech(slotNumber, speechType)}
             />
           ) : (
             <EmptySlot 
@@ -229,9 +359,28 @@ interface ParticipantSlotProps {
   slotNumber: number;
   isHost?: boolean;
   isDraggable?: boolean;
-  isKilled?: boolean;
+  statusRecord?: PlayerStatusRecord | null; // Запись о выбывании (null - игрок в игре)
+  fouls?: number;
+  isSilenced?: boolean; // Пропускает следующую речь после третьего фола
   playerStatesManager?: any;
   slotsManager?: any; // Добавляем slotsManager
+  myRole?: PlayerRole | null; // Собственная роль (только для локальной плитки)
+  tableRole?: PlayerRole; // Роль игрока из таблицы ведущего
+  revealedRole?: PlayerRole; // Роль, раскрытая по итогам игры
+  isBestMovePick?: boolean; // Игрок назван в лучшем ходе
+  nightActions?: NightActionType[]; // Ночные действия, которые можно совершить по этому слоту
+  nightResults?: NightActionResult[]; // Результаты собственных ночных действий по этому слоту
+  nightSummary?: NightSummary | null; // Сводка ночи (только для ведущего)
+  onNightAction?: (action: NightActionType) => void;
+  voting?: VotingState; // Состояние голосования (кандидатуры видны на всех плитках)
+  voters?: number[]; // Слоты, проголосовавшие за этого игрока
+  canNominate?: boolean;
+  canVote?: boolean;
+  onNominate?: () => void;
+  onVote?: () => void;
+  isSpeaking?: boolean; // Игрок сейчас выступает
+  speechType?: SpeechType; // Тип речи, которую ведущий даст этому игроку
+  onGiveSpeech?: (speechType: SpeechType) => void;
   onDragStart?: (e: DragEvent<HTMLDivElement>) => void;
   onDragOver?: (e: DragEvent<HTMLDivElement>) => void;
   onDrop?: (e: DragEvent<HTMLDivElement>) => void;
@@ -243,9 +392,28 @@ function ParticipantSlot({
   slotNumber,
   isHost = false,
   isDraggable = false,
-  isKilled = false,
+  statusRecord = null,
+  fouls = 0,
+  isSilenced = false,
   playerStatesManager,
   slotsManager, // Добавляем slotsManager
+  myRole,
+  tableRole,
+  revealedRole,
+  isBestMovePick = false,
+  nightActions = [],
+  nightResults = [],
+  nightSummary,
+  onNightAction,
+  voting,
+  voters = [],
+  canNominate = false,
+  canVote = false,
+  onNominate,
+  onVote,
+  isSpeaking = false,
+  speechType = 'normal',
+  onGiveSpeech,
   onDragStart,
   onDragOver,
   onDrop,
@@ -375,9 +543,12 @@ function ParticipantSlot({
     ? 'ring-2 ring-blue-500/50 hover:ring-blue-500 cursor-grab active:cursor-grabbing' 
     : '';
   
+  // Подсветка выступающего игрока
+  const speakingClass = isSpeaking ? 'ring-4 ring-amber-400 border-amber-400' : '';
+  
   return (
     <div 
-      className={`video-slot relative overflow-hidden rounded-xl shadow-md bg-slate-800 border border-slate-700 ${dragIndicatorClass}`}
+      className={`video-slot relative overflow-hidden rounded-xl shadow-md bg-slate-800 border border-slate-700 ${dragIndicatorClass} ${speakingClass}`}
       {...dragProps}
       {...dropProps}
     >
@@ -430,21 +601,72 @@ function ParticipantSlot({
         </div>
       )}
       
-      {/* Індикатор "вбито" з черепом - різне відображення для свого та чужого відео */}
-      {isKilled && participant.isLocal ? (
-        // Для локального учасника: невелика мітка в куті на червоному фоні з білим текстом
-        <div className="absolute top-2 left-2 bg-red-600 text-white px-2 py-1 font-bold text-lg rounded-md">
-          ВБИТО
+      {/* Індикатор вибування - окреме відображення для кожного статусу */}
+      {statusRecord && (
+        <PlayerStatusOverlay record={statusRecord} isLocal={participant.isLocal} />
+      )}
+      
+      {/* Розкриття ролей після завершення гри */}
+      {revealedRole && (
+        <RoleRevealCard role={revealedRole} />
+      )}
+      
+      {/* Гравець названий у кращому ході (бачать усі) */}
+      {isBestMovePick && (
+        <BestMoveTileBadge />
+      )}
+      
+      {/* Фоли гравця (бачать усі) */}
+      {fouls > 0 && (
+        <div
+          className={`absolute bottom-2 right-2 z-20 px-2 py-0.5 rounded-md text-xs font-medium shadow-md ${
+            isSilenced ? 'bg-amber-600/90 text-white' : 'bg-slate-900/80 text-amber-300'
+          }`}
+          title={isSilenced ? 'Пропускає наступну промову' : 'Фоли'}
+        >
+          {'⚠'.repeat(fouls)}{isSilenced && ' 🔇'}
         </div>
-      ) : isKilled && (
-        // Для інших учасників: велика діагональна надпис на чорному тлі
-        <div className="absolute inset-0 bg-black flex items-center justify-center">
-          <div className="transform -rotate-45 border-2 border-red-500 text-red-500 text-5xl font-extrabold px-4 py-2">
-            ВБИТО
-          </div>
+      )}
+      
+      {/* Картка "моя роль" на власній плитці - прихована за замовчуванням */}
+      {participant.isLocal && myRole && (
+        <RolePeekCard role={myRole} />
+      )}
+      
+      {/* Роль гравця з таблиці ведучого (бачить тільки ведучий) */}
+      {tableRole && (
+        <div className={`absolute top-10 right-2 z-20 px-2 py-0.5 rounded-md text-xs font-medium shadow-md ${ROLE_BADGE_CLASSES[tableRole]}`}>
+          {ROLE_LABELS[tableRole]}
         </div>
       )}
       
+      {/* Приватні нічні дії та їх результати (бачить лише той, хто діє) */}
+      {onNightAction && (
+        <NightActionOverlay
+          availableActions={nightActions}
+          results={nightResults}
+          onAction={onNightAction}
+        />
+      )}
+      
+      {/* Зведення ночі для ведучого */}
+      {nightSummary && (
+        <NightSummaryBadges summary={nightSummary} slotNumber={slotNumber} />
+      )}
+      
+      {/* Кандидатури, голоси та кнопки висування/голосування */}
+      {voting && onNominate && onVote && (
+        <VotingTileOverlay
+          voting={voting}
+          slotNumber={slotNumber}
+          voters={voters}
+          canNominate={canNominate}
+          canVote={canVote}
+          onNominate={onNominate}
+          onVote={onVote}
+        />
+      )}
+      
       {/* Кнопки керування станом гравця (тільки для ведучого) */}
       {isHost && slotNumber !== 12 && playerStatesManager && (
         <div className="absolute top-2 left-2 flex space-x-1">
@@ -462,33 +684,27 @@ function ParticipantSlot({
           >
             <span>❤️</span>
           </button>
+          <button
+            className="bg-amber-600/80 hover:bg-amber-700/90 text-white p-1 rounded-md shadow-md"
+            onClick={() => playerStatesManager.addFoul(participant.identity)}
+            title="Додати фол"
+          >
+            <span>⚠+</span>
+          </button>
+          {fouls > 0 && (
+            <button
+              className="bg-slate-600/80 hover:bg-slate-700/90 text-white p-1 rounded-md shadow-md"
+              onClick={() => playerStatesManager.removeFoul(participant.identity)}
+              title="Зняти фол"
+            >
+              <span>⚠−</span>
+            </button>
+          )}
           <button
             className="bg-blue-600/80 hover:bg-blue-700/90 text-white p-1 rounded-md shadow-md"
             onClick={() => {
-              // Получаем текущее имя без префикса и суффикса
-              let currentName = participant.identity;
-              
-              // Проверяем, не задано ли уже отображаемое имя через slotsManager
-              if (slotsManager.displayNames && slotsManager.displayNames[participant.identity]) {
-                currentName = slotsManager.displayNames[participant.identity];
-              } else {
-                // Убираем префикс Player- или Host-
-                if (currentName.startsWith('Player-')) {
-                  currentName = currentName.substring(7);
-                } else if (currentName.startsWith('Host-')) {
-                  currentName = currentName.substring(5);
-                }
-                
-                // Убираем суффикс с цифрами (ID) в конце имени
-                const lastDashIndex = currentName.lastIndexOf('-');
-                if (lastDashIndex > 0) {
-                  const afterDash = currentName.substring(lastDashIndex + 1);
-                  // Проверяем, что после тире идут только цифры
-                  if (/^\d+$/.test(afterDash)) {
-                    currentName = currentName.substring(0, lastDashIndex);
-                  }
-                }
-              }
+              // Получаем текущее отображаемое имя без префикса и суффикса
+              const currentName = slotsManager.getDisplayName(participant.identity);
               
               // Запитуємо нове ім'я
               const newName = prompt(`Введіть нове ім'я для ${currentName}:`, currentName);
@@ -506,6 +722,15 @@ function ParticipantSlot({
           >
             <span>✏️</span>
           </button>
+          {onGiveSpeech && (
+            <button
+              className="bg-amber-600/80 hover:bg-amber-700/90 text-white p-1 rounded-md shadow-md"
+              onClick={() => onGiveSpeech(speechType)}
+              title={speechType === 'defence' ? 'Дати слово для виправдання' : speechType === 'last_words' ? 'Дати останнє слово' : 'Дати слово'}
+            >
+              <span>🎤</span>
+            </button>
+          )}
         </div>
       )}
       
@@ -520,35 +745,8 @@ function ParticipantSlot({
       
       {/* Ім'я користувача поруч з номером слота (з підтримкою відображуваних імен) */}
       <div className={`absolute bottom-2 ${slotNumber === 12 ? 'right-2' : 'left-8'} bg-slate-900/80 py-0.5 px-2 rounded-md text-white font-medium backdrop-blur-sm`} style={{ fontSize: '1rem' }}>
-        {/* Перевіряємо наявність відображуваного імені в slotsManager або видобуваємо ім'я вручну */}
-        {(() => {
-          // Спочатку перевіряємо, чи є кастомне відображуване ім'я
-          if (slotsManager && slotsManager.displayNames && slotsManager.displayNames[participant.identity]) {
-            return slotsManager.displayNames[participant.identity];
-          }
-          
-          // Якщо ні, видобуваємо ім'я вручну з identity
-          let cleanName = participant.identity;
-          
-          // Видаляємо префікс Player- або Host-
-          if (cleanName.startsWith('Player-')) {
-            cleanName = cleanName.substring(7);
-          } else if (cleanName.startsWith('Host-')) {
-            cleanName = cleanName.substring(5);
-          }
-          
-          // Видаляємо суфікс з цифрами (ID) в кінці імені
-          const lastDashIndex = cleanName.lastIndexOf('-');
-          if (lastDashIndex > 0) {
-            const afterDash = cleanName.substring(lastDashIndex + 1);
-            // Перевіряємо, що після тире йдуть тільки цифри
-            if (/^\d+$/.test(afterDash)) {
-              cleanName = cleanName.substring(0, lastDashIndex);
-            }
-          }
-          
-          return cleanName;
-        })()}
+        {/* Відображуване ім'я зі slotsManager або ім'я, видобуте з identity */}
+        {slotsManager.getDisplayName(participant.identity)}
       </div>
     </div>
   );
@@ -0,0 +1,94 @@
+import React from 'react';
+import { GamePhase, GameSessionState, GameWinner } from '@shared/schema';
+import { getRuleset } from '@shared/rulesets';
+
+/**
+ * Назви фаз гри для відображення
+ */
+export const GAME_PHASE_LABELS: Record<GamePhase, string> = {
+  lobby: 'Лобі',
+  role_dealing: 'Роздача ролей',
+  acquaintance_night: 'Ніч знайомства',
+  day_discussion: 'Обговорення',
+  nominations: 'Висування',
+  voting: 'Голосування',
+  night: 'Ніч',
+  game_over: 'Гра завершена',
+};
+
+/**
+ * Підписи результату гри
+ */
+const WINNER_LABELS: Record<GameWinner, string> = {
+  mafia: 'Перемогла мафія',
+  civilians: 'Перемогли мирні',
+  maniac: 'Переміг маніяк',
+};
+
+interface GamePhaseBannerProps {
+  session: GameSessionState;
+  isHost: boolean;
+  nextPhases: GamePhase[];
+  onChangePhase: (phase: GamePhase) => void;
+  onRedealRoles?: () => void;
+}
+
+/**
+ * Плашка з поточною фазою гри над сіткою відео
+ * Ведучий бачить кнопки переходу до наступних фаз
+ */
+export function GamePhaseBanner({ session, isHost, nextPhases, onChangePhase, onRedealRoles }: GamePhaseBannerProps) {
+  const isNight = session.phase === 'night' || session.phase === 'acquaintance_night';
+
+  return (
+    <div className="absolute top-1 left-1/2 -translate-x-1/2 z-20 flex items-center space-x-2">
+      <div
+        className={`px-3 py-1 rounded-full text-sm font-medium shadow-md backdrop-blur-sm ${
+          isNight ? 'bg-indigo-950/90 text-indigo-200' : 'bg-slate-900/80 text-white'
+        }`}
+      >
+        {session.round > 0 && session.phase !== 'lobby' && (
+          <span className="text-gray-400 mr-1">День {session.round} ·</span>
+        )}
+        {GAME_PHASE_LABELS[session.phase]}
+        <span className="text-gray-400 ml-1" title={getRuleset(session.rulesetId).description}>
+          · {getRuleset(session.rulesetId).name}
+        </span>
+      </div>
+
+      {/* Результат гри після автоматичного завершення */}
+      {session.result && (
+        <div
+          className={`px-3 py-1 rounded-full text-sm font-bold shadow-md ${
+            session.result.winner === 'mafia' ? 'bg-black/90 text-amber-400' : 'bg-red-600/90 text-white'
+          }`}
+        >
+          🏆 {WINNER_LABELS[session.result.winner]}
+        </div>
+      )}
+
+      {/* Повторна роздача ролей (тільки для ведучого під час роздачі) */}
+      {isHost && session.phase === 'role_dealing' && onRedealRoles && (
+        <button
+          className="px-2 py-1 rounded-md text-xs bg-slate-700/90 hover:bg-slate-600 text-white shadow-md"
+          onClick={onRedealRoles}
+          title="Роздати ролі заново"
+        >
+          🔀 Перероздати
+        </button>
+      )}
+
+      {/* Кнопки переходу (тільки для ведучого) */}
+      {isHost && nextPhases.map(phase => (
+        <button
+          key={phase}
+          className="px-2 py-1 rounded-md text-xs bg-purple-600/80 hover:bg-purple-700/90 text-white shadow-md"
+          onClick={() => onChangePhase(phase)}
+          title={`Перейти до фази "${GAME_PHASE_LABELS[phase]}"`}
+        >
+          → {GAME_PHASE_LABELS[phase]}
+        </button>
+      ))}
+    </div>
+  );
+}
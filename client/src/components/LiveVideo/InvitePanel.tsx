@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { InvitePayload, InviteRole } from '@shared/schema';
+import { buildInviteUrl } from '../../lib/invite';
+
+// Місця гравців, які можна притримати за запрошенням (слот 12 - Ведуча)
+const PLAYER_SEATS = Array.from({ length: 11 }, (_, index) => index + 1);
+
+interface InvitePanelProps {
+  slots: Record<number, string>;
+  passwordProtected: boolean;
+  invite: { token: string; payload: InvitePayload } | null;
+  error: string | null;
+  onSetPassword: (password: string | null) => void;
+  onCreateInvite: (passwordRequired: boolean, role: InviteRole | null, seat: number | null) => void;
+  onRevokeInvite: (inviteId: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Панель запрошень для Ведучої: пароль столу та посилання з роллю і притриманим місцем
+ */
+export function InvitePanel({
+  slots,
+  passwordProtected,
+  invite,
+  error,
+  onSetPassword,
+  onCreateInvite,
+  onRevokeInvite,
+  onClose
+}: InvitePanelProps) {
+  const [password, setPassword] = useState('');
+  const [passwordRequired, setPasswordRequired] = useState(false);
+  const [role, setRole] = useState<InviteRole | ''>('');
+  const [seat, setSeat] = useState('');
+  const [copied, setCopied] = useState(false);
+  const freeSeats = PLAYER_SEATS.filter(slotNumber => !slots[slotNumber]);
+  const inviteUrl = invite ? buildInviteUrl(invite.token) : '';
+
+  const copyInvite = () => {
+    navigator.clipboard.writeText(inviteUrl)
+      .then(() => setCopied(true))
+      .catch(err => console.error('Не вдалося скопіювати запрошення:', err));
+  };
+
+  return (
+    <div className="fixed bottom-20 right-4 z-40 w-80 rounded-lg shadow-lg backdrop-blur-sm bg-slate-900/90 text-white text-xs p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="font-medium">Запрошення</span>
+        <button
+          className="px-2 py-1 rounded-md bg-slate-700/90 hover:bg-slate-600 text-white"
+          onClick={onClose}
+        >
+          Закрити
+        </button>
+      </div>
+
+      {/* Пароль столу */}
+      <div className="space-y-2">
+        <div className="text-gray-400">
+          {passwordProtected ? 'Стіл закрито паролем' : 'Стіл відкритий для всіх'}
+        </div>
+        <div className="flex space-x-2">
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="flex-1 px-2 py-1 bg-slate-700 text-white rounded-md border border-slate-600 focus:border-blue-500 focus:outline-none"
+            placeholder="Новий пароль"
+          />
+          <button
+            className="px-2 py-1 rounded-md bg-purple-600/80 hover:bg-purple-700/90 text-white disabled:opacity-50"
+            onClick={() => {
+              onSetPassword(password);
+              setPassword('');
+            }}
+            disabled={!password}
+          >
+            Задати
+          </button>
+          {passwordProtected && (
+            <button
+              className="px-2 py-1 rounded-md bg-slate-700/90 hover:bg-slate-600 text-white"
+              onClick={() => {
+                onSetPassword(null);
+                setPasswordRequired(false);
+              }}
+            >
+              Зняти
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Параметри запрошення */}
+      <div className="space-y-2">
+        <label className={`flex items-center space-x-2 ${passwordProtected ? '' : 'opacity-50'}`}>
+          <input
+            type="checkbox"
+            checked={passwordRequired}
+            onChange={(e) => setPasswordRequired(e.target.checked)}
+            disabled={!passwordProtected}
+          />
+          <span>Вимагати пароль за посиланням</span>
+        </label>
+        <div className="flex space-x-2">
+          <select
+            className="flex-1 px-2 py-1 bg-slate-700 text-white rounded-md border border-slate-600"
+            value={role}
+            onChange={(e) => {
+              setRole(e.target.value as InviteRole | '');
+              if (e.target.value === 'spectator') {
+                setSeat('');
+              }
+            }}
+            aria-label="Роль за запрошенням"
+          >
+            <option value="">Роль на вибір</option>
+            <option value="player">Гравець</option>
+            <option value="spectator">Глядач</option>
+          </select>
+          <select
+            className="flex-1 px-2 py-1 bg-slate-700 text-white rounded-md border border-slate-600"
+            value={seat}
+            onChange={(e) => setSeat(e.target.value)}
+            disabled={role === 'spectator'}
+            aria-label="Притримати місце"
+          >
+            <option value="">Без місця</option>
+            {freeSeats.map(slotNumber => (
+              <option key={slotNumber} value={slotNumber}>Місце {slotNumber}</option>
+            ))}
+          </select>
+        </div>
+        <button
+          className="w-full px-2 py-1 rounded-md bg-blue-600/80 hover:bg-blue-700/90 text-white"
+          onClick={() => {
+            setCopied(false);
+            onCreateInvite(passwordRequired && passwordProtected, role || null, seat ? Number(seat) : null);
+          }}
+        >
+          Створити посилання
+        </button>
+      </div>
+
+      {error && <div className="text-red-400">{error}</div>}
+
+      {/* Готове посилання */}
+      {invite && (
+        <div className="space-y-2">
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              readOnly
+              value={inviteUrl}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 px-2 py-1 bg-slate-800 text-gray-300 rounded-md border border-slate-600"
+            />
+            <button
+              className="px-2 py-1 rounded-md bg-slate-700/90 hover:bg-slate-600 text-white"
+              onClick={copyInvite}
+            >
+              {copied ? 'Скопійовано' : 'Копіювати'}
+            </button>
+            <button
+              className="px-2 py-1 rounded-md bg-red-600/80 hover:bg-red-700/90 text-white"
+              onClick={() => onRevokeInvite(invite.payload.inviteId)}
+            >
+              Відкликати
+            </button>
+          </div>
+          <div className="text-gray-400">
+            {invite.payload.seat !== null ? `Місце ${invite.payload.seat} притримано. ` : ''}
+            Дійсне до {new Date(invite.payload.expiresAt).toLocaleString()}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import React from 'react';
+import { NightActionResult, NightActionType, NightSummary } from '@shared/schema';
+
+/**
+ * Підписи кнопок нічних дій
+ */
+const NIGHT_ACTION_BUTTONS: Record<NightActionType, { icon: string; title: string }> = {
+  shot: { icon: '🔫', title: 'Постріл' },
+  don_check: { icon: '🎩', title: 'Перевірка дона (шукає шерифа)' },
+  sheriff_check: { icon: '⭐', title: 'Перевірка шерифа (шукає мафію)' },
+  heal: { icon: '💉', title: 'Лікування' },
+  maniac_kill: { icon: '🔪', title: 'Постріл маніяка' },
+  lover_visit: { icon: '💋', title: 'Візит коханки (блокує дії)' },
+};
+
+/**
+ * Текст результату власної дії
+ */
+function describeResult(result: NightActionResult): string {
+  switch (result.action) {
+    case 'shot':
+      return '🔫 Ціль';
+    case 'don_check':
+      if (result.result === undefined) {
+        return '🎩 Результат вранці';
+      }
+      return result.result ? '🎩 Шериф' : '🎩 Не шериф';
+    case 'sheriff_check':
+      if (result.result === undefined) {
+        return '⭐ Результат вранці';
+      }
+      return result.result ? '⭐ Мафія' : '⭐ Мирний';
+    case 'heal':
+      return '💉 Лікування';
+    case 'maniac_kill':
+      return '🔪 Ціль';
+    case 'lover_visit':
+      return '💋 Візит';
+  }
+}
+
+interface NightActionOverlayProps {
+  availableActions: NightActionType[];
+  results: NightActionResult[];
+  onAction: (action: NightActionType) => void;
+}
+
+/**
+ * Приватний оверлей нічних дій на плитці гравця
+ * Кнопки і результати бачить лише сам гравець, що діє
+ */
+export function NightActionOverlay({ availableActions, results, onAction }: NightActionOverlayProps) {
+  if (availableActions.length === 0 && results.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="absolute top-10 left-2 z-20 flex flex-col items-start space-y-1">
+      {availableActions.length > 0 && (
+        <div className="flex space-x-1">
+          {availableActions.map(action => (
+            <button
+              key={action}
+              className="bg-indigo-900/90 hover:bg-indigo-700 text-white p-1 rounded-md shadow-md"
+              onClick={() => onAction(action)}
+              title={NIGHT_ACTION_BUTTONS[action].title}
+            >
+              <span>{NIGHT_ACTION_BUTTONS[action].icon}</span>
+            </button>
+          ))}
+        </div>
+      )}
+      {results.map((result, index) => (
+        <div
+          key={`${result.action}-${index}`}
+          className={`px-2 py-0.5 rounded-md text-xs font-medium shadow-md ${
+            result.result ? 'bg-red-700/90 text-white' : 'bg-slate-900/80 text-gray-200'
+          }`}
+        >
+          {describeResult(result)}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface NightSummaryBadgesProps {
+  summary: NightSummary;
+  slotNumber: number;
+}
+
+/**
+ * Зведення ночі для ведучого: чиї дії спрямовані на цей слот і чим закінчиться ніч
+ */
+export function NightSummaryBadges({ summary, slotNumber }: NightSummaryBadgesProps) {
+  const actions = summary.actions.filter(action => action.targetSlots.includes(slotNumber));
+  const isKilled = summary.outcome.killedSlots.includes(slotNumber);
+  const isSaved = summary.outcome.savedSlots.includes(slotNumber);
+  const isBlocked = summary.outcome.blockedSlots.includes(slotNumber);
+
+  if (actions.length === 0 && !isBlocked) {
+    return null;
+  }
+
+  // Дії одного типу об'єднуються в один бейдж зі списком слотів, що діяли
+  const actorsByAction = new Map<NightActionType, number[]>();
+  actions.forEach(action => {
+    actorsByAction.set(action.action, [...(actorsByAction.get(action.action) || []), action.actorSlot]);
+  });
+
+  return (
+    <div className="absolute bottom-10 right-2 z-20 flex flex-col items-end space-y-1 text-xs">
+      {Array.from(actorsByAction.entries()).map(([action, actorSlots]) => (
+        <div key={action} className="px-2 py-0.5 rounded-md shadow-md bg-slate-900/80 text-white" title={NIGHT_ACTION_BUTTONS[action].title}>
+          {NIGHT_ACTION_BUTTONS[action].icon} {actorSlots.join(', ')}
+        </div>
+      ))}
+      {isKilled && (
+        <div className="px-2 py-0.5 rounded-md shadow-md bg-red-700/90 text-white">☠ буде вбитий</div>
+      )}
+      {isSaved && (
+        <div className="px-2 py-0.5 rounded-md shadow-md bg-emerald-700/90 text-white">💉 врятований</div>
+      )}
+      {isBlocked && (
+        <div className="px-2 py-0.5 rounded-md shadow-md bg-slate-900/80 text-pink-300">💋 дії заблоковано</div>
+      )}
+    </div>
+  );
+}
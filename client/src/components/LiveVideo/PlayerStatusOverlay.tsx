@@ -0,0 +1,57 @@
+import React from 'react';
+import { PlayerStatusReason, PlayerStatusRecord } from '@shared/schema';
+
+/**
+ * Написи та кольори для кожного статусу вибування
+ */
+const STATUS_STYLES: Record<PlayerStatusRecord['status'], { label: string; badge: string; stamp: string }> = {
+  killed: { label: 'ВБИТО', badge: 'bg-red-600 text-white', stamp: 'border-red-500 text-red-500' },
+  voted_out: { label: 'ЗАГОЛОСОВАНО', badge: 'bg-purple-600 text-white', stamp: 'border-purple-400 text-purple-400' },
+  removed: { label: 'ВИЛУЧЕНО', badge: 'bg-amber-600 text-white', stamp: 'border-amber-500 text-amber-500' },
+  left: { label: 'ПОКИНУВ ГРУ', badge: 'bg-slate-600 text-white', stamp: 'border-slate-400 text-slate-400' },
+};
+
+/**
+ * Пояснення причини вибування
+ */
+const REASON_LABELS: Record<PlayerStatusReason, string> = {
+  host: 'рішенням ведучого',
+  night_shot: 'пострілом мафії',
+  vote: 'за результатами голосування',
+  single_candidate: 'як єдиний кандидат',
+  lift_vote: 'підйомом усіх',
+  fouls: 'за фоли',
+  disconnected: 'відключився',
+};
+
+interface PlayerStatusOverlayProps {
+  record: PlayerStatusRecord;
+  isLocal: boolean;
+}
+
+/**
+ * Індикатор вибування гравця - різне відображення для свого та чужого відео
+ */
+export function PlayerStatusOverlay({ record, isLocal }: PlayerStatusOverlayProps) {
+  const style = STATUS_STYLES[record.status];
+  const details = `${REASON_LABELS[record.reason]}${record.round > 0 ? `, день ${record.round}` : ''}`;
+
+  if (isLocal) {
+    // Для локального учасника: невелика мітка в куті
+    return (
+      <div className={`absolute top-2 left-2 px-2 py-1 font-bold text-lg rounded-md ${style.badge}`} title={details}>
+        {style.label}
+      </div>
+    );
+  }
+
+  // Для інших учасників: велика діагональна надпис на чорному тлі
+  return (
+    <div className="absolute inset-0 bg-black flex flex-col items-center justify-center">
+      <div className={`transform -rotate-45 border-2 text-4xl font-extrabold px-4 py-2 ${style.stamp}`}>
+        {style.label}
+      </div>
+      <div className="absolute bottom-10 text-xs text-gray-400">{details}</div>
+    </div>
+  );
+}
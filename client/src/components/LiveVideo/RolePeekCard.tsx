@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { PlayerRole } from '@shared/schema';
+
+/**
+ * Назви ролей для відображення
+ */
+export const ROLE_LABELS: Record<PlayerRole, string> = {
+  civilian: 'Мирний',
+  mafia: 'Мафія',
+  don: 'Дон',
+  sheriff: 'Шериф',
+  doctor: 'Лікар',
+  maniac: 'Маніяк',
+  lover: 'Коханка',
+};
+
+/**
+ * Кольори бейджів ролей
+ */
+export const ROLE_BADGE_CLASSES: Record<PlayerRole, string> = {
+  civilian: 'bg-red-600/90 text-white',
+  mafia: 'bg-black/90 text-white',
+  don: 'bg-black/90 text-amber-400',
+  sheriff: 'bg-amber-500/90 text-black',
+  doctor: 'bg-emerald-600/90 text-white',
+  maniac: 'bg-purple-900/90 text-white',
+  lover: 'bg-pink-500/90 text-white',
+};
+
+interface RolePeekCardProps {
+  role: PlayerRole;
+}
+
+/**
+ * Картка "подивитись свою роль" для власної плитки
+ * Роль показується лише поки кнопку утримують, щоб не засвітити її на камері
+ */
+export function RolePeekCard({ role }: RolePeekCardProps) {
+  const [isRevealed, setIsRevealed] = useState(false);
+
+  return (
+    <button
+      className={`absolute top-2 right-2 z-20 px-2 py-1 rounded-md text-sm font-medium shadow-md select-none ${
+        isRevealed ? ROLE_BADGE_CLASSES[role] : 'bg-slate-900/80 text-gray-300'
+      }`}
+      onPointerDown={() => setIsRevealed(true)}
+      onPointerUp={() => setIsRevealed(false)}
+      onPointerLeave={() => setIsRevealed(false)}
+      onContextMenu={(e) => e.preventDefault()}
+      title="Утримуйте, щоб побачити свою роль"
+    >
+      {isRevealed ? ROLE_LABELS[role] : '🂠 Моя роль'}
+    </button>
+  );
+}
+
+interface RoleRevealCardProps {
+  role: PlayerRole;
+}
+
+/**
+ * Розкрита роль на плитці після завершення гри
+ */
+export function RoleRevealCard({ role }: RoleRevealCardProps) {
+  return (
+    <div className="absolute inset-0 z-10 flex items-center justify-center bg-black/40 animate-in fade-in zoom-in-95 duration-500">
+      <div className={`px-4 py-2 rounded-lg text-2xl font-extrabold shadow-lg ${ROLE_BADGE_CLASSES[role]}`}>
+        {ROLE_LABELS[role]}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { GameScoreSheet } from '@shared/schema';
+import { getRuleset } from '@shared/rulesets';
+import { ROLE_LABELS } from './RolePeekCard';
+
+// Крок зміни додаткових балів
+const EXTRA_POINTS_STEP = 0.1;
+
+interface ScoreSummaryTableProps {
+  sheet: GameScoreSheet;
+  isHost: boolean;
+  onSetExtraPoints: (slotNumber: number, points: number) => void;
+  onFinalize: () => void;
+}
+
+/**
+ * Підсумкова таблиця балів після гри
+ * Ведучий може додати бали гравцям і затвердити підсумки, інші бачать таблицю
+ */
+export function ScoreSummaryTable({ sheet, isHost, onSetExtraPoints, onFinalize }: ScoreSummaryTableProps) {
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const maxExtraPoints = getRuleset(sheet.rulesetId).scoring.maxExtraPoints;
+  const canEdit = isHost && !sheet.finalized;
+
+  const changeExtraPoints = (slotNumber: number, current: number, delta: number) => {
+    const next = Math.round((current + delta) * 100) / 100;
+    if (next >= 0 && next <= maxExtraPoints) {
+      onSetExtraPoints(slotNumber, next);
+    }
+  };
+
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-30 rounded-lg shadow-lg backdrop-blur-sm bg-slate-900/90 text-white text-xs p-3">
+      <div className="flex items-center justify-between mb-2 space-x-4">
+        <span className="font-medium">Підсумки гри</span>
+        <div className="flex items-center space-x-2">
+          {sheet.gameId !== null && (
+            <span className="text-gray-400">Гра #{sheet.gameId}{sheet.finalized && ' · підсумки затверджено'}</span>
+          )}
+          {canEdit && (
+            <button
+              className="px-2 py-1 rounded-md bg-purple-600/80 hover:bg-purple-700/90 text-white"
+              onClick={onFinalize}
+            >
+              Затвердити підсумки
+            </button>
+          )}
+          <button
+            className="px-2 py-1 rounded-md bg-slate-700/90 hover:bg-slate-600 text-white"
+            onClick={() => setIsCollapsed(prev => !prev)}
+          >
+            {isCollapsed ? 'Показати' : 'Сховати'}
+          </button>
+        </div>
+      </div>
+
+      {!isCollapsed && (
+        <table className="w-full">
+          <thead className="text-gray-400">
+            <tr>
+              <th className="px-2 text-left">#</th>
+              <th className="px-2 text-left">Гравець</th>
+              <th className="px-2 text-left">Роль</th>
+              <th className="px-2">Результат</th>
+              <th className="px-2">Дод.</th>
+              <th className="px-2">Штраф</th>
+              <th className="px-2">КХ</th>
+              <th className="px-2">Разом</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sheet.scores.map(score => (
+              <tr key={score.slotNumber} className={score.won ? 'text-white' : 'text-gray-300'}>
+                <td className="px-2">{score.slotNumber}</td>
+                <td className="px-2">{score.playerName}</td>
+                <td className="px-2">{ROLE_LABELS[score.role]}</td>
+                <td className="px-2 text-center">{score.won ? '🏆' : '—'} {score.winPoints}</td>
+                <td className="px-2 text-center whitespace-nowrap">
+                  {canEdit && (
+                    <button
+                      className="px-1 rounded bg-slate-700 hover:bg-slate-600"
+                      onClick={() => changeExtraPoints(score.slotNumber, score.extraPoints, -EXTRA_POINTS_STEP)}
+                    >
+                      −
+                    </button>
+                  )}
+                  <span className="mx-1">{score.extraPoints}</span>
+                  {canEdit && (
+                    <button
+                      className="px-1 rounded bg-slate-700 hover:bg-slate-600"
+                      onClick={() => changeExtraPoints(score.slotNumber, score.extraPoints, EXTRA_POINTS_STEP)}
+                    >
+                      +
+                    </button>
+                  )}
+                </td>
+                <td className="px-2 text-center text-amber-300">{score.penaltyPoints > 0 ? `−${score.penaltyPoints}` : 0}</td>
+                <td className="px-2 text-center">{score.bestMovePoints}</td>
+                <td className="px-2 text-center font-medium">{score.total}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import React from 'react';
+import { SpeechTimerState, SpeechType } from '@shared/schema';
+
+/**
+ * Назви типів промов
+ */
+const SPEECH_TYPE_LABELS: Record<SpeechType, string> = {
+  normal: 'Промова',
+  defence: 'Виправдання',
+  last_words: 'Останнє слово',
+};
+
+/**
+ * Форматування залишку часу у вигляді m:ss
+ */
+function formatRemaining(ms: number): string {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+interface SpeechTimerDisplayProps {
+  timer: SpeechTimerState;
+  remainingMs: number;
+  isHost: boolean;
+  onStartNext: (speechType?: SpeechType) => void;
+  onPause: () => void;
+  onResume: () => void;
+  onStop: () => void;
+}
+
+/**
+ * Таймер промови над сіткою відео
+ * Ведучий бачить чергу виступів і кнопки керування таймером
+ */
+export function SpeechTimerDisplay({ timer, remainingMs, isHost, onStartNext, onPause, onResume, onStop }: SpeechTimerDisplayProps) {
+  if (timer.status === 'idle' && (!isHost || timer.speakingOrder.length === 0)) {
+    return null;
+  }
+
+  const isUrgent = timer.status !== 'idle' && remainingMs <= 10000;
+
+  return (
+    <div className="absolute top-1 right-4 z-20 flex items-center space-x-2 text-xs">
+      {timer.status !== 'idle' && (
+        <div
+          className={`px-3 py-1 rounded-full shadow-md backdrop-blur-sm font-medium ${
+            isUrgent ? 'bg-red-700/90 text-white' : 'bg-slate-900/80 text-white'
+          }`}
+        >
+          <span className="text-gray-300 mr-1">{SPEECH_TYPE_LABELS[timer.speechType]} · {timer.speakerSlot}</span>
+          <span className="text-base tabular-nums">{formatRemaining(remainingMs)}</span>
+          {timer.status === 'paused' && <span className="ml-1 text-amber-300">⏸</span>}
+        </div>
+      )}
+
+      {isHost && timer.speakingOrder.length > 0 && (
+        <div className="px-2 py-1 rounded-md shadow-md bg-slate-900/80 text-gray-300" title="Черга виступів">
+          Далі: {timer.speakingOrder.join(', ')}
+        </div>
+      )}
+
+      {isHost && (
+        <div className="flex space-x-1">
+          {timer.speakingOrder.length > 0 && (
+            <button
+              className="px-2 py-1 rounded-md shadow-md bg-purple-600/80 hover:bg-purple-700/90 text-white"
+              onClick={() => onStartNext('normal')}
+              title="Дати слово наступному гравцю"
+            >
+              ▶ Наступний
+            </button>
+          )}
+          {timer.status === 'running' && (
+            <button
+              className="px-2 py-1 rounded-md shadow-md bg-slate-700/90 hover:bg-slate-600 text-white"
+              onClick={onPause}
+              title="Пауза"
+            >
+              ⏸
+            </button>
+          )}
+          {timer.status === 'paused' && (
+            <button
+              className="px-2 py-1 rounded-md shadow-md bg-slate-700/90 hover:bg-slate-600 text-white"
+              onClick={onResume}
+              title="Продовжити"
+            >
+              ⏵
+            </button>
+          )}
+          {timer.status !== 'idle' && (
+            <button
+              className="px-2 py-1 rounded-md shadow-md bg-slate-700/90 hover:bg-slate-600 text-white"
+              onClick={onStop}
+              title="Завершити промову"
+            >
+              ⏹
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
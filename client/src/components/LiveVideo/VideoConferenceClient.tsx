@@ -19,9 +19,15 @@ import {
 import { CustomVideoGrid } from './CustomVideoGrid';
 import { useSlots } from '../../hooks/use-slots';
 import { usePlayerStates } from '../../hooks/use-player-states';
+import { useGameSession } from '../../hooks/use-game-session';
+import { useInvites } from '../../hooks/use-invites';
+import { InvitePanel } from './InvitePanel';
+import { RULESETS, RulesetId } from '@shared/rulesets';
 import { useVideoEvents } from '../../hooks/use-video-events';
 import { useStableVideo } from '../../hooks/use-stable-video';
 import { debounce, throttle } from '../../lib/performance-utils';
+import { clearResumeSession } from '../../lib/resume';
+import { isCurrentUserHost, isCurrentUserSpectator } from '../../lib/livekit';
 
 /**
  * Контролер для висувної панелі керування, розміщений ПОЗА LiveKitRoom
@@ -41,11 +47,22 @@ const ControlDrawer = ({ room }: { room: Room }) => {
   // Отримання доступу до useState та функції shuffleAllUsers з хука useSlots
   // Визначаємо ідентифікатор поточного користувача
   const userId = room?.localParticipant?.identity || '';
+  // Глядач не публікує відео, тому керування камерою йому не потрібне
+  const isSpectator = isCurrentUserSpectator();
+  // Панель ведущего показывается по роли от сервера, а не по занятому слоту
+  const isHost = isCurrentUserHost();
   const slotsManager = useSlots(userId);
-  const { shuffleAllUsers, userSlot, slots, sendMessage } = slotsManager;
+  const { shuffleAllUsers, slots, playerStates, sendMessage, sendRequest } = slotsManager;
   
   // Отримання доступу до функцій керування станами гравців
-  const { resetAllPlayerStates } = usePlayerStates(sendMessage, userId);
+  const { resetAllPlayerStates } = usePlayerStates(sendRequest, playerStates);
+  
+  // Вибір правил вечора (ведучий, до початку гри)
+  const { session, setRuleset } = useGameSession(sendMessage);
+  
+  // Запрошення та пароль столу (ведучий)
+  const { passwordProtected, invite, error: inviteError, createInvite, revokeInvite, setRoomPassword } = useInvites(sendMessage);
+  const [isInvitePanelOpen, setIsInvitePanelOpen] = useState(false);
   
   // Функція для отримання списку доступних камер
   async function getCameras() {
@@ -145,29 +162,15 @@ const ControlDrawer = ({ room }: { room: Room }) => {
     }
   }
   
-  // Получаем список доступных камер при монтировании и когда обновляется разрешение на доступ
+  // Получаем список доступных камер при монтировании и при подключении или отключении устройств.
+  // Активную камеру определяют события треков локального участника (эффект ниже), а состояние
+  // стола приходит снимком с версией, поэтому повторные запросы по таймерам не нужны
   useEffect(() => {
-    // Первый запрос при загрузке
     getCameras();
     
-    // Также делаем повторные запросы на определение активной камеры
-    // с некоторыми интервалами, чтобы гарантированно определить текущую камеру
-    const delayedRequest1 = setTimeout(() => {
-      getCameras();
-    }, 1000);
-    
-    const delayedRequest2 = setTimeout(() => {
-      getCameras();
-    }, 2000);
-    
-    const delayedRequest3 = setTimeout(() => {
-      getCameras();
-    }, 3000);
-    
+    navigator.mediaDevices.addEventListener('devicechange', getCameras);
     return () => {
-      clearTimeout(delayedRequest1);
-      clearTimeout(delayedRequest2);
-      clearTimeout(delayedRequest3);
+      navigator.mediaDevices.removeEventListener('devicechange', getCameras);
     };
   }, []);
   
@@ -355,6 +358,7 @@ const ControlDrawer = ({ room }: { room: Room }) => {
       >
         <div className="controls-container">
           <div className="left-controls">
+            {!isSpectator && (
             <button 
               className="control-button" 
               aria-label="Перемкнути камеру"
@@ -374,9 +378,10 @@ const ControlDrawer = ({ room }: { room: Room }) => {
               )}
               <span className="sr-only md:not-sr-only md:ml-2 text-xs">Камера</span>
             </button>
+            )}
             
             {/* Селектор камери */}
-            {cameras.length > 1 && (
+            {!isSpectator && cameras.length > 1 && (
               <div className="camera-selector">
                 <select
                   className="select-camera"
@@ -395,8 +400,55 @@ const ControlDrawer = ({ room }: { room: Room }) => {
           </div>
           
           <div className="right-controls">
+            {/* Селектор правил гри (тільки для ведучого в лобі) */}
+            {isHost && (
+              <div className="camera-selector">
+                <select
+                  className="select-camera"
+                  value={session.rulesetId}
+                  onChange={(e) => setRuleset(e.target.value as RulesetId)}
+                  disabled={session.phase !== 'lobby'}
+                  title={session.phase !== 'lobby' ? 'Правила можна змінити лише до початку гри' : 'Правила гри'}
+                  aria-label="Правила гри"
+                >
+                  {Object.values(RULESETS).map(ruleset => (
+                    <option key={ruleset.id} value={ruleset.id} title={ruleset.description}>
+                      {ruleset.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            
+            {/* Кнопка запрошень і пароля столу (тільки для ведучого) */}
+            {isHost && (
+              <button 
+                className="control-button" 
+                aria-label="Запросити"
+                onClick={() => setIsInvitePanelOpen(prev => !prev)}
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                  <path d="M10 13a5 5 0 0 0 7.54.54l3-3a5 5 0 0 0-7.07-7.07l-1.72 1.71"></path>
+                  <path d="M14 11a5 5 0 0 0-7.54-.54l-3 3a5 5 0 0 0 7.07 7.07l1.71-1.71"></path>
+                </svg>
+                <span className="sr-only md:not-sr-only md:ml-2 text-xs">Запросити</span>
+              </button>
+            )}
+            {isHost && isInvitePanelOpen && (
+              <InvitePanel
+                slots={slots}
+                passwordProtected={passwordProtected}
+                invite={invite}
+                error={inviteError}
+                onSetPassword={setRoomPassword}
+                onCreateInvite={createInvite}
+                onRevokeInvite={revokeInvite}
+                onClose={() => setIsInvitePanelOpen(false)}
+              />
+            )}
+            
             {/* Кнопка скидання всіх станів гравців (тільки для ведучого) */}
-            {userSlot === 12 && resetAllPlayerStates && (
+            {isHost && resetAllPlayerStates && (
               <button 
                 className="control-button" 
                 aria-label="Скинути стани гравців"
@@ -418,7 +470,7 @@ const ControlDrawer = ({ room }: { room: Room }) => {
             )}
             
             {/* Кнопка перемішування користувачів (тільки для ведучого) */}
-            {userSlot === 12 && shuffleAllUsers && (
+            {isHost && shuffleAllUsers && (
               <button 
                 className="control-button dice-button" 
                 aria-label="Перемішати гравців"
@@ -449,6 +501,9 @@ const ControlDrawer = ({ room }: { room: Room }) => {
               onClick={() => {
                 console.log('Вихід з кімнати...');
                 
+                // Вийшовши сам, користувач не повертається до столу при наступному відкритті сторінки
+                clearResumeSession();
+                
                 // Коректно закриваємо з'єднання з кімнатою
                 try {
                   if (room) {
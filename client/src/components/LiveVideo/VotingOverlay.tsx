@@ -0,0 +1,152 @@
+import React from 'react';
+import { VotingStage, VotingState } from '@shared/schema';
+
+/**
+ * Назви етапів голосування
+ */
+const VOTING_STAGE_LABELS: Record<VotingStage, string> = {
+  nominations: 'Висування',
+  voting: 'Голосування',
+  tie_speeches: 'Рівність голосів: виправдувальні промови',
+  revote: 'Переголосування',
+  lift_vote: 'Голосування за підйом усіх',
+  finished: 'Голосування завершено',
+};
+
+interface VotingTileOverlayProps {
+  voting: VotingState;
+  slotNumber: number;
+  voters: number[];
+  canNominate: boolean;
+  canVote: boolean;
+  onNominate: () => void;
+  onVote: () => void;
+}
+
+/**
+ * Оверлей голосування на плитці гравця: номер кандидатури, голоси та кнопки
+ * Список висунутих видно на кожній плитці всім учасникам
+ */
+export function VotingTileOverlay({ voting, slotNumber, voters, canNominate, canVote, onNominate, onVote }: VotingTileOverlayProps) {
+  const nomineeIndex = voting.nominees.indexOf(slotNumber);
+  const isCandidate = voting.candidates.includes(slotNumber);
+  const isEliminated = voting.eliminatedSlots.includes(slotNumber);
+
+  if (nomineeIndex === -1 && !canNominate) {
+    return null;
+  }
+
+  return (
+    <div className="absolute bottom-10 left-2 z-20 flex flex-col items-start space-y-1 text-xs">
+      {nomineeIndex !== -1 && (
+        <div
+          className={`px-2 py-0.5 rounded-md font-medium shadow-md ${
+            isEliminated ? 'bg-red-700/90 text-white' : isCandidate ? 'bg-amber-500/90 text-black' : 'bg-slate-900/80 text-amber-300'
+          }`}
+          title="Порядковий номер кандидатури"
+        >
+          🗳 #{nomineeIndex + 1}
+        </div>
+      )}
+      {isCandidate && voters.length > 0 && (
+        <div className="px-2 py-0.5 rounded-md shadow-md bg-slate-900/80 text-white" title="Хто проголосував">
+          ✋ {voters.length}: {voters.join(', ')}
+        </div>
+      )}
+      {canNominate && (
+        <button
+          className="px-2 py-0.5 rounded-md shadow-md bg-amber-600/90 hover:bg-amber-700 text-white"
+          onClick={onNominate}
+          title="Висунути гравця на голосування"
+        >
+          Висунути
+        </button>
+      )}
+      {canVote && (
+        <button
+          className="px-2 py-0.5 rounded-md shadow-md bg-purple-600/90 hover:bg-purple-700 text-white"
+          onClick={onVote}
+          title="Проголосувати за цього гравця"
+        >
+          ✋ Голосувати
+        </button>
+      )}
+    </div>
+  );
+}
+
+interface VotingPanelProps {
+  voting: VotingState;
+  isHost: boolean;
+  canLiftVote: boolean;
+  onLiftVote: (lift: boolean) => void;
+  onCloseVoting: () => void;
+  onStartRevote: () => void;
+}
+
+/**
+ * Панель поточного етапу голосування під плашкою фази
+ */
+export function VotingPanel({ voting, isHost, canLiftVote, onLiftVote, onCloseVoting, onStartRevote }: VotingPanelProps) {
+  if (voting.stage === 'nominations') {
+    return null;
+  }
+
+  const isOpen = voting.stage === 'voting' || voting.stage === 'revote' || voting.stage === 'lift_vote';
+  const liftCount = Object.values(voting.liftVotes).filter(Boolean).length;
+
+  return (
+    <div className="absolute top-10 left-1/2 -translate-x-1/2 z-20 flex items-center space-x-2 text-xs">
+      <div className="px-3 py-1 rounded-full shadow-md backdrop-blur-sm bg-slate-900/80 text-white">
+        {VOTING_STAGE_LABELS[voting.stage]}
+        {voting.candidates.length > 0 && voting.stage !== 'finished' && (
+          <span className="text-gray-400 ml-1">· {voting.candidates.join(', ')}</span>
+        )}
+        {voting.stage === 'lift_vote' && (
+          <span className="text-gray-400 ml-1">· за підйом: {liftCount}</span>
+        )}
+        {voting.stage === 'finished' && (
+          <span className="text-gray-400 ml-1">
+            · {voting.eliminatedSlots.length > 0 ? `вибуває ${voting.eliminatedSlots.join(', ')}` : 'ніхто не вибуває'}
+          </span>
+        )}
+      </div>
+
+      {canLiftVote && (
+        <>
+          <button
+            className="px-2 py-1 rounded-md shadow-md bg-red-600/90 hover:bg-red-700 text-white"
+            onClick={() => onLiftVote(true)}
+          >
+            Підняти всіх
+          </button>
+          <button
+            className="px-2 py-1 rounded-md shadow-md bg-slate-700/90 hover:bg-slate-600 text-white"
+            onClick={() => onLiftVote(false)}
+          >
+            Залишити
+          </button>
+        </>
+      )}
+
+      {isHost && isOpen && (
+        <button
+          className="px-2 py-1 rounded-md shadow-md bg-purple-600/80 hover:bg-purple-700/90 text-white"
+          onClick={onCloseVoting}
+          title="Підрахувати голоси (хто не голосував - за останнього кандидата)"
+        >
+          Підрахувати
+        </button>
+      )}
+
+      {isHost && voting.stage === 'tie_speeches' && (
+        <button
+          className="px-2 py-1 rounded-md shadow-md bg-purple-600/80 hover:bg-purple-700/90 text-white"
+          onClick={onStartRevote}
+        >
+          Переголосування
+        </button>
+      )}
+    </div>
+  );
+}
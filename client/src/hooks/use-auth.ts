@@ -0,0 +1,71 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { LoginUser, RegisterUser, UpdateProfile, UserProfile } from "@shared/schema";
+import { apiRequest, getQueryFn, queryClient } from "../lib/queryClient";
+
+// Профиль вошедшего пользователя (401 - гость)
+const USER_ENDPOINT = '/api/user';
+
+/**
+ * Достать HTTP-статус из ошибки запроса (apiRequest бросает "статус: тело")
+ * @param error Ошибка запроса
+ */
+export function getAuthErrorStatus(error: Error | null): number | null {
+  const status = error ? parseInt(error.message, 10) : NaN;
+  return isNaN(status) ? null : status;
+}
+
+/**
+ * Хук для учетной записи: профиль вошедшего пользователя, вход, регистрация, выход и изменение профиля.
+ * Без входа пользователь играет гостем
+ */
+export function useAuth() {
+  const { data: user, isLoading } = useQuery<UserProfile | null>({
+    queryKey: [USER_ENDPOINT],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  // Все операции возвращают актуальный профиль, который сразу кладется в кэш
+  const setUser = (profile: UserProfile | null) => {
+    queryClient.setQueryData([USER_ENDPOINT], profile);
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginUser) => {
+      const res = await apiRequest("POST", "/api/login", credentials);
+      return (await res.json()) as UserProfile;
+    },
+    onSuccess: setUser,
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (data: RegisterUser) => {
+      const res = await apiRequest("POST", "/api/register", data);
+      return (await res.json()) as UserProfile;
+    },
+    onSuccess: setUser,
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => setUser(null),
+  });
+
+  const updateProfileMutation = useMutation({
+    mutationFn: async (profile: UpdateProfile) => {
+      const res = await apiRequest("PATCH", USER_ENDPOINT, profile);
+      return (await res.json()) as UserProfile;
+    },
+    onSuccess: setUser,
+  });
+
+  return {
+    user: user ?? null,
+    isLoading,
+    loginMutation,
+    registerMutation,
+    logoutMutation,
+    updateProfileMutation,
+  };
+}
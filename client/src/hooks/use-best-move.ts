@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useState, useRef } from "react";
+import { BestMoveState } from "@shared/schema";
+import { ClientMessage, ServerMessage } from "@shared/protocol";
+
+const EMPTY_BEST_MOVE: BestMoveState = {
+  victimSlot: null,
+  picks: [],
+  submitted: false,
+  mafiaHits: null
+};
+
+/**
+ * Хук для лучшего хода игрока, убитого в первую ночь
+ * @param sendMessage Функция отправки сообщений через WebSocket
+ */
+export function useBestMove(sendMessage: (message: ClientMessage) => boolean) {
+  const [bestMove, setBestMove] = useState<BestMoveState>(EMPTY_BEST_MOVE);
+  const handlerRef = useRef<((data: ServerMessage) => void) | null>(null);
+
+  // Обработчик обновлений лучшего хода
+  const handleBestMoveMessage = useCallback((data: ServerMessage) => {
+    if (data.type === 'best_move_update' && data.bestMove) {
+      setBestMove(data.bestMove as BestMoveState);
+    }
+  }, []);
+
+  // Регистрация обработчика в глобальном массиве
+  useEffect(() => {
+    handlerRef.current = handleBestMoveMessage;
+
+    if (window.messageHandlers) {
+      window.messageHandlers.push(handleBestMoveMessage);
+    }
+
+    return () => {
+      if (window.messageHandlers && handlerRef.current) {
+        const index = window.messageHandlers.indexOf(handlerRef.current);
+        if (index !== -1) {
+          window.messageHandlers.splice(index, 1);
+        }
+      }
+    };
+  }, [handleBestMoveMessage]);
+
+  // Запрашиваем текущее состояние лучшего хода при монтировании
+  useEffect(() => {
+    sendMessage({ type: 'get_best_move' });
+  }, [sendMessage]);
+
+  /**
+   * Сделать лучший ход
+   * @param slots Слоты, которые игрок считает мафией
+   */
+  const submitBestMove = useCallback((slots: number[]) => {
+    return sendMessage({ type: 'submit_best_move', slots });
+  }, [sendMessage]);
+
+  /**
+   * Проверить, назван ли слот в лучшем ходе
+   * @param slotNumber Номер слота
+   */
+  const isPicked = useCallback((slotNumber: number) => {
+    return bestMove.submitted && bestMove.picks.includes(slotNumber);
+  }, [bestMove]);
+
+  return {
+    bestMove,
+    submitBestMove,
+    isPicked,
+  };
+}
@@ -0,0 +1,147 @@
+import { useCallback, useEffect, useState, useRef } from "react";
+import { GamePhase, GameSessionState, GAME_PHASE_TRANSITIONS, PlayerRole, RoleAssignment } from "@shared/schema";
+import { DEFAULT_RULESET_ID, getRuleset, RulesetId } from "@shared/rulesets";
+import { ClientMessage, ServerMessage } from "@shared/protocol";
+
+/**
+ * Хук для отслеживания фазы игры и управления ею (переходы доступны только ведущему)
+ * Также хранит собственную роль игрока, а для ведущего - полную таблицу ролей
+ * @param sendMessage Функция отправки сообщений через WebSocket
+ */
+export function useGameSession(
+  sendMessage: (message: ClientMessage) => boolean
+) {
+  const [session, setSession] = useState<GameSessionState>({
+    phase: 'lobby',
+    round: 0,
+    phaseStartedAt: Date.now(),
+    result: null,
+    rulesetId: DEFAULT_RULESET_ID
+  });
+  const [myRole, setMyRole] = useState<PlayerRole | null>(null);
+  const [rolesTable, setRolesTable] = useState<RoleAssignment[]>([]);
+  const handlerRef = useRef<((data: ServerMessage) => void) | null>(null);
+
+  // Обработчик сообщений о смене фазы и ролях
+  const handleGameSessionMessage = useCallback((data: ServerMessage) => {
+    switch (data.type) {
+      case 'game_phase_update':
+        if (data.session) {
+          console.log('Получено обновление фазы игры:', data.session);
+          setSession(data.session);
+        }
+        break;
+
+      case 'role_assigned':
+        // Роль не логируем, чтобы она не попала в консоль при демонстрации экрана
+        setMyRole(data.role ?? null);
+        break;
+
+      case 'roles_table':
+        setRolesTable(data.roles || []);
+        break;
+    }
+  }, []);
+
+  // Регистрация обработчика в глобальном массиве
+  useEffect(() => {
+    handlerRef.current = handleGameSessionMessage;
+
+    if (window.messageHandlers) {
+      window.messageHandlers.push(handleGameSessionMessage);
+    }
+
+    return () => {
+      if (window.messageHandlers && handlerRef.current) {
+        const index = window.messageHandlers.indexOf(handlerRef.current);
+        if (index !== -1) {
+          window.messageHandlers.splice(index, 1);
+        }
+      }
+    };
+  }, [handleGameSessionMessage]);
+
+  // Запрашиваем текущую фазу и свою роль при монтировании
+  useEffect(() => {
+    sendMessage({ type: 'get_game_session' });
+    sendMessage({ type: 'get_my_role' });
+  }, [sendMessage]);
+
+  /**
+   * Перевести игру в указанную фазу
+   * @param phase Новая фаза
+   */
+  const changePhase = useCallback((phase: GamePhase) => {
+    console.log(`Отправка запроса на смену фазы: ${phase}`);
+    return sendMessage({
+      type: 'change_game_phase',
+      phase
+    });
+  }, [sendMessage]);
+
+  /**
+   * Перейти к следующей фазе по умолчанию
+   */
+  const advancePhase = useCallback(() => {
+    return sendMessage({ type: 'advance_game_phase' });
+  }, [sendMessage]);
+
+  /**
+   * Вернуть игру в лобби
+   */
+  const resetSession = useCallback(() => {
+    return sendMessage({ type: 'reset_game_session' });
+  }, [sendMessage]);
+
+  /**
+   * Раздать роли заново (только ведущий во время раздачи)
+   */
+  const redealRoles = useCallback(() => {
+    return sendMessage({ type: 'redeal_roles' });
+  }, [sendMessage]);
+
+  /**
+   * Выбрать набор правил (только ведущий в лобби)
+   * @param rulesetId Идентификатор набора правил
+   */
+  const setRuleset = useCallback((rulesetId: RulesetId) => {
+    return sendMessage({ type: 'set_ruleset', rulesetId });
+  }, [sendMessage]);
+
+  /**
+   * Получить роль игрока из таблицы ведущего
+   * @param playerId ID пользователя
+   */
+  const getTableRole = useCallback((playerId: string): PlayerRole | undefined => {
+    return rolesTable.find(assignment => assignment.userId === playerId)?.role;
+  }, [rolesTable]);
+
+  /**
+   * Получить роль игрока, раскрытую по итогам игры
+   * @param playerId ID пользователя
+   */
+  const getRevealedRole = useCallback((playerId: string): PlayerRole | undefined => {
+    return session.result?.roles.find(assignment => assignment.userId === playerId)?.role;
+  }, [session.result]);
+
+  // Допустимые переходы с учетом правил (как на сервере: без голосования в первый день, если оно запрещено)
+  const ruleset = getRuleset(session.rulesetId);
+  const nextPhases = GAME_PHASE_TRANSITIONS[session.phase].filter(phase =>
+    ruleset.votingOnFirstDay || session.round !== 1 || (phase !== 'nominations' && phase !== 'voting')
+  );
+
+  return {
+    session,
+    ruleset,
+    nextPhases,
+    myRole,
+    rolesTable,
+    changePhase,
+    advancePhase,
+    resetSession,
+    redealRoles,
+    setRuleset,
+    getTableRole,
+    getRevealedRole,
+  };
+}
@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useState, useRef } from "react";
+import { InvitePayload, InviteRole } from "@shared/schema";
+import { ClientMessage, ServerMessage } from "@shared/protocol";
+
+// Операции ведущего, ошибки которых показываются в панели приглашений
+const INVITE_OPERATIONS = ['create_invite', 'revoke_invite', 'set_room_password'];
+
+/**
+ * Хук для приглашений в комнату и пароля комнаты (создавать и менять может только ведущий)
+ * @param sendMessage Функция отправки сообщений через WebSocket
+ */
+export function useInvites(sendMessage: (message: ClientMessage) => boolean) {
+  const [passwordProtected, setPasswordProtected] = useState(false);
+  const [invite, setInvite] = useState<{ token: string; payload: InvitePayload } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const handlerRef = useRef<((data: ServerMessage) => void) | null>(null);
+
+  // Обработчик приглашений, смены пароля и ошибок операций ведущего
+  const handleInviteMessage = useCallback((data: ServerMessage) => {
+    switch (data.type) {
+      case 'room_password_update':
+        setPasswordProtected(!!data.passwordProtected);
+        setError(null);
+        break;
+
+      case 'invite_created':
+        if (data.invite && data.payload) {
+          setInvite({ token: data.invite, payload: data.payload as InvitePayload });
+          setError(null);
+        }
+        break;
+
+      case 'invite_revoked':
+        setInvite(current => current && current.payload.inviteId === data.inviteId ? null : current);
+        setError(null);
+        break;
+
+      case 'operation_failed':
+        if (INVITE_OPERATIONS.includes(data.operation)) {
+          setError(data.message || 'Операция не выполнена');
+        }
+        break;
+    }
+  }, []);
+
+  // Регистрация обработчика в глобальном массиве
+  useEffect(() => {
+    handlerRef.current = handleInviteMessage;
+
+    if (window.messageHandlers) {
+      window.messageHandlers.push(handleInviteMessage);
+    }
+
+    return () => {
+      if (window.messageHandlers && handlerRef.current) {
+        const index = window.messageHandlers.indexOf(handlerRef.current);
+        if (index !== -1) {
+          window.messageHandlers.splice(index, 1);
+        }
+      }
+    };
+  }, [handleInviteMessage]);
+
+  /**
+   * Создать приглашение в комнату
+   * @param passwordRequired Должен ли приглашенный ввести пароль комнаты
+   * @param role Предвыбранная роль (null - на выбор приглашенного)
+   * @param seat Слот, который придерживается для приглашенного (null - без слота)
+   */
+  const createInvite = useCallback((passwordRequired: boolean, role: InviteRole | null, seat: number | null) => {
+    return sendMessage({
+      type: 'create_invite',
+      passwordRequired,
+      role,
+      seat
+    });
+  }, [sendMessage]);
+
+  /**
+   * Отозвать приглашение (придержанный по нему слот освобождается)
+   * @param inviteId ID приглашения
+   */
+  const revokeInvite = useCallback((inviteId: string) => {
+    return sendMessage({
+      type: 'revoke_invite',
+      inviteId
+    });
+  }, [sendMessage]);
+
+  /**
+   * Задать пароль комнаты
+   * @param password Новый пароль (null снимает пароль)
+   */
+  const setRoomPassword = useCallback((password: string | null) => {
+    return sendMessage({
+      type: 'set_room_password',
+      password
+    });
+  }, [sendMessage]);
+
+  return {
+    passwordProtected,
+    invite,
+    error,
+    createInvite,
+    revokeInvite,
+    setRoomPassword,
+  };
+}
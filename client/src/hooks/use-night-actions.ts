@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useState, useRef } from "react";
+import { GamePhase, NightActionResult, NightActionType, NightSummary } from "@shared/schema";
+import { ROLE_DEFINITIONS } from "@shared/roles";
+import { ClientMessage, ServerMessage } from "@shared/protocol";
+
+// Действия, выбор которых можно менять до рассвета (выстрел, лечение и т.п.) - хранится только последний выбор за ночь
+const CHANGEABLE_ACTIONS = new Set<NightActionType>(
+  Object.values(ROLE_DEFINITIONS).flatMap(definition =>
+    definition.abilities.filter(ability => ability.changeable).map(ability => ability.action)
+  )
+);
+
+/**
+ * Хук для ночных действий: отправка действий ролей, хранение собственных результатов
+ * и сводки ночи для ведущего
+ * @param sendMessage Функция отправки сообщений через WebSocket
+ * @param phase Текущая фаза игры
+ */
+export function useNightActions(
+  sendMessage: (message: ClientMessage) => boolean,
+  phase: GamePhase
+) {
+  // Результаты собственных действий (проверки сохраняются до конца игры)
+  const [results, setResults] = useState<NightActionResult[]>([]);
+  const [summary, setSummary] = useState<NightSummary | null>(null);
+  const [lastKilledSlots, setLastKilledSlots] = useState<number[]>([]);
+  const handlerRef = useRef<((data: ServerMessage) => void) | null>(null);
+
+  // Обработчик сообщений о ночных действиях
+  const handleNightActionMessage = useCallback((data: ServerMessage) => {
+    switch (data.type) {
+      case 'night_action_result':
+        if (data.result) {
+          const result = data.result as NightActionResult;
+          // Результат проверки приходит на рассвете и заменяет принятый ночью выбор
+          setResults(prev => CHANGEABLE_ACTIONS.has(result.action)
+            ? [...prev.filter(r => r.action !== result.action), result]
+            : [...prev.filter(r => r.action !== result.action || r.targetSlots.join(',') !== result.targetSlots.join(',')), result]);
+        }
+        break;
+
+      case 'night_summary':
+        setSummary(data.summary ?? null);
+        break;
+
+      case 'night_result':
+        setLastKilledSlots(data.killedSlots ?? []);
+        break;
+    }
+  }, []);
+
+  // Регистрация обработчика в глобальном массиве
+  useEffect(() => {
+    handlerRef.current = handleNightActionMessage;
+
+    if (window.messageHandlers) {
+      window.messageHandlers.push(handleNightActionMessage);
+    }
+
+    return () => {
+      if (window.messageHandlers && handlerRef.current) {
+        const index = window.messageHandlers.indexOf(handlerRef.current);
+        if (index !== -1) {
+          window.messageHandlers.splice(index, 1);
+        }
+      }
+    };
+  }, [handleNightActionMessage]);
+
+  // С началом новой ночи сбрасываем изменяемые действия, проверки без результата (исполнителя заблокировали)
+  // и сводку, в лобби - все результаты
+  useEffect(() => {
+    if (phase === 'night') {
+      setResults(prev => prev.filter(r => !CHANGEABLE_ACTIONS.has(r.action) && r.result !== undefined));
+      setSummary(null);
+    } else if (phase === 'lobby') {
+      setResults([]);
+      setSummary(null);
+      setLastKilledSlots([]);
+    }
+  }, [phase]);
+
+  /**
+   * Совершить ночное действие
+   * @param action Тип действия
+   * @param targetSlots Слоты целей
+   */
+  const submitNightAction = useCallback((action: NightActionType, targetSlots: number[]) => {
+    return sendMessage({
+      type: 'night_action',
+      action,
+      targetSlots
+    });
+  }, [sendMessage]);
+
+  /**
+   * Получить результаты собственных действий по конкретному слоту
+   * @param slotNumber Номер слота
+   */
+  const getResultsForSlot = useCallback((slotNumber: number) => {
+    return results.filter(r => r.targetSlots.includes(slotNumber));
+  }, [results]);
+
+  return {
+    results,
+    summary,
+    lastKilledSlots,
+    submitNightAction,
+    getResultsForSlot,
+  };
+}
@@ -1,99 +1,80 @@
-import { useCallback, useEffect, useState, useRef } from "react";
-import { PlayerStates } from "@shared/schema";
-import { WebSocketMessage } from "./use-resilient-websocket";
+import { useCallback } from "react";
+import { PlayerStates, PlayerStatus, PlayerStatusRecord } from "@shared/schema";
+import { SendRequest, notifyOnFailure } from "../lib/commands";
+import { isCurrentUserHost } from "../lib/livekit";
 
 /**
- * Хук для управления состояниями игроков (убит/жив)
- * @param sendMessage Функция отправки сообщений через WebSocket
- * @param userId ID текущего пользователя
+ * Хук для управления состояниями игроков (убит/жив, фолы)
+ * @param sendRequest Функция отправки команд через WebSocket с ожиданием ответа
+ * @param playerStates Состояния игроков из состояния стола useSlots (порядок версий проверяет он)
  */
 export function usePlayerStates(
-  sendMessage: (message: WebSocketMessage) => boolean,
-  userId: string
+  sendRequest: SendRequest,
+  playerStates: PlayerStates
 ) {
-  const [playerStates, setPlayerStates] = useState<PlayerStates>({ killedPlayers: {} });
-  const [isHost, setIsHost] = useState<boolean>(userId.startsWith('Host-'));
-  const handlerRef = useRef<((data: any) => void) | null>(null);
-
-  // Обработчик сообщений о состоянии игроков
-  const handlePlayerStatesMessage = useCallback((data: any) => {
-    if (data.type === 'player_states_update') {
-      console.log('Получено обновление состояний игроков:', data.playerStates);
-      setPlayerStates(data.playerStates);
-    }
-  }, []);
-
-  // Устанавливаем флаг ведущего при изменении userId
-  useEffect(() => {
-    setIsHost(userId.startsWith('Host-'));
-  }, [userId]);
-
-  // Регистрация обработчика сообщений о состоянии игроков в глобальном массиве
-  useEffect(() => {
-    // Сохраняем ссылку на обработчик для последующего удаления
-    handlerRef.current = handlePlayerStatesMessage;
-    
-    // Добавляем обработчик в глобальный массив
-    if (window.messageHandlers) {
-      window.messageHandlers.push(handlePlayerStatesMessage);
-      console.log('Зарегистрирован обработчик сообщений о состоянии игроков');
-    }
-    
-    // Очистка при размонтировании
-    return () => {
-      if (window.messageHandlers && handlerRef.current) {
-        const index = window.messageHandlers.indexOf(handlerRef.current);
-        if (index !== -1) {
-          window.messageHandlers.splice(index, 1);
-          console.log('Удален обработчик сообщений о состоянии игроков');
-        }
-      }
-    };
-  }, [handlePlayerStatesMessage]);
-
-  // Запрашиваем текущие состояния при монтировании
-  useEffect(() => {
-    // При монтировании запрашиваем текущие состояния игроков
-    console.log('Запрашиваем текущие состояния игроков');
-    sendMessage({ type: 'get_player_states' });
-  }, [sendMessage]);
+  // Роль выдана сервером вместе с токеном
+  const isHost = isCurrentUserHost();
 
   /**
    * Отметить игрока как убитого
    * @param targetUserId ID пользователя, которого нужно отметить
-   * @returns true если сообщение отправлено успешно
+   * @returns Promise с true, если сервер выполнил команду (отказ показывается уведомлением)
    */
   const killPlayer = useCallback((targetUserId: string) => {
     console.log(`Отправка запроса на пометку игрока ${targetUserId} как убитого`);
-    return sendMessage({
+    return notifyOnFailure(sendRequest({
       type: 'kill_player',
       targetUserId
-    });
-  }, [sendMessage]);
+    }));
+  }, [sendRequest]);
 
   /**
    * Отметить игрока как живого
    * @param targetUserId ID пользователя, которого нужно отметить
-   * @returns true если сообщение отправлено успешно
+   * @returns Promise с true, если сервер выполнил команду (отказ показывается уведомлением)
    */
   const revivePlayer = useCallback((targetUserId: string) => {
     console.log(`Отправка запроса на пометку игрока ${targetUserId} как живого`);
-    return sendMessage({
+    return notifyOnFailure(sendRequest({
       type: 'revive_player',
       targetUserId
-    });
-  }, [sendMessage]);
+    }));
+  }, [sendRequest]);
+
+  /**
+   * Выдать игроку фол
+   * @param targetUserId ID игрока
+   * @returns Promise с true, если сервер выполнил команду (отказ показывается уведомлением)
+   */
+  const addFoul = useCallback((targetUserId: string) => {
+    return notifyOnFailure(sendRequest({
+      type: 'add_foul',
+      targetUserId
+    }));
+  }, [sendRequest]);
+
+  /**
+   * Снять с игрока фол
+   * @param targetUserId ID игрока
+   * @returns Promise с true, если сервер выполнил команду (отказ показывается уведомлением)
+   */
+  const removeFoul = useCallback((targetUserId: string) => {
+    return notifyOnFailure(sendRequest({
+      type: 'remove_foul',
+      targetUserId
+    }));
+  }, [sendRequest]);
 
   /**
    * Сбросить все отметки "убит"
-   * @returns true если сообщение отправлено успешно
+   * @returns Promise с true, если сервер выполнил команду (отказ показывается уведомлением)
    */
   const resetAllPlayerStates = useCallback(() => {
     console.log('Отправка запроса на сброс всех состояний игроков');
-    return sendMessage({
+    return notifyOnFailure(sendRequest({
       type: 'reset_player_states'
-    });
-  }, [sendMessage]);
+    }));
+  }, [sendRequest]);
 
   /**
    * Проверить, убит ли игрок
@@ -101,7 +82,56 @@ export function usePlayerStates(
    * @returns true если игрок отмечен как убитый
    */
   const isPlayerKilled = useCallback((playerId: string) => {
-    return !!playerStates.killedPlayers?.[playerId];
+    return playerStates.statuses?.[playerId]?.status === 'killed';
+  }, [playerStates]);
+
+  /**
+   * Проверить, удален ли игрок за фолы
+   * @param playerId ID пользователя
+   */
+  const isPlayerRemoved = useCallback((playerId: string) => {
+    return playerStates.statuses?.[playerId]?.status === 'removed';
+  }, [playerStates]);
+
+  /**
+   * Проверить, остается ли игрок в игре (не убит и не удален)
+   * @param playerId ID пользователя
+   */
+  const isPlayerAlive = useCallback((playerId: string) => {
+    return !playerStates.statuses?.[playerId];
+  }, [playerStates]);
+
+  /**
+   * Получить статус игрока
+   * @param playerId ID пользователя
+   */
+  const getPlayerStatus = useCallback((playerId: string): PlayerStatus => {
+    return playerStates.statuses?.[playerId]?.status ?? 'alive';
+  }, [playerStates]);
+
+  /**
+   * Получить запись о выбывании игрока
+   * @param playerId ID пользователя
+   * @returns Запись или null, если игрок в игре
+   */
+  const getStatusRecord = useCallback((playerId: string): PlayerStatusRecord | null => {
+    return playerStates.statuses?.[playerId] ?? null;
+  }, [playerStates]);
+
+  /**
+   * Проверить, пропускает ли игрок следующую речь
+   * @param playerId ID пользователя
+   */
+  const isPlayerSilenced = useCallback((playerId: string) => {
+    return !!playerStates.silencedPlayers?.[playerId];
+  }, [playerStates]);
+
+  /**
+   * Получить количество фолов игрока
+   * @param playerId ID пользователя
+   */
+  const getFouls = useCallback((playerId: string) => {
+    return playerStates.fouls?.[playerId] || 0;
   }, [playerStates]);
 
   return {
@@ -111,6 +141,13 @@ export function usePlayerStates(
     revivePlayer,
     resetAllPlayerStates,
     isPlayerKilled,
-    handlePlayerStatesMessage, // Экспортируем обработчик для использования в других компонентах
+    isPlayerRemoved,
+    isPlayerAlive,
+    getPlayerStatus,
+    getStatusRecord,
+    isPlayerSilenced,
+    getFouls,
+    addFoul,
+    removeFoul,
   };
 }
\ No newline at end of file
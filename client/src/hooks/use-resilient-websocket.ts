@@ -1,10 +1,17 @@
 import { useRef, useEffect, useCallback, useState } from 'react';
 import { debounce, throttle, ExponentialBackoffStrategy } from '../lib/performance-utils';
+import { ClientMessage, ServerMessage } from '@shared/protocol';
+import { CommandError, createRequestId } from '../lib/commands';
 
-// Типы сообщений
-export interface WebSocketMessage {
-  type: string;
-  [key: string]: any;
+// Сколько ждать ответа сервера на команду, прежде чем считать ее невыполненной
+const REQUEST_TIMEOUT = 10000;
+
+// Команда, ожидающая ответа сервера
+interface PendingRequest {
+  operation: ClientMessage['type'];
+  resolve: () => void;
+  reject: (error: CommandError) => void;
+  timer: ReturnType<typeof setTimeout>;
 }
 
 // Конфигурация WebSocket соединения
@@ -33,7 +40,7 @@ export interface WebSocketState {
  */
 export function useResilientWebSocket(
   config: WebSocketConfig,
-  onMessage?: (data: any) => void,
+  onMessage?: (data: ServerMessage) => void,
   dependencies: any[] = []
 ) {
   // WebSocket instance
@@ -48,6 +55,9 @@ export function useResilientWebSocket(
   const lastHeartbeatResponseRef = useRef<number>(Date.now());
   const currentReconnectDelay = useRef<number>(config.initialReconnectDelay || 1000);
   
+  // Команды, ожидающие ответа сервера (ID запроса -> ожидание)
+  const pendingRequestsRef = useRef<Map<string, PendingRequest>>(new Map());
+  
   // Состояние
   const [state, setState] = useState<WebSocketState>({
     connected: false,
@@ -68,7 +78,7 @@ export function useResilientWebSocket(
 
   // Функция для отправки сообщения
   const sendMessage = useCallback(
-    (message: WebSocketMessage): boolean => {
+    (message: ClientMessage): boolean => {
       const socket = socketRef.current;
       if (socket && socket.readyState === WebSocket.OPEN) {
         try {
@@ -85,6 +95,55 @@ export function useResilientWebSocket(
     [log]
   );
 
+  // Функция для отправки команды с ожиданием ответа сервера (command_ack или отказ)
+  const sendRequest = useCallback(
+    (message: ClientMessage): Promise<void> => {
+      const requestId = createRequestId();
+      
+      return new Promise<void>((resolve, reject) => {
+        if (!sendMessage({ ...message, requestId })) {
+          reject(new CommandError('Немає з\'єднання з сервером', message.type));
+          return;
+        }
+        
+        const timer = setTimeout(() => {
+          pendingRequestsRef.current.delete(requestId);
+          reject(new CommandError('Сервер не відповів на запит', message.type));
+        }, REQUEST_TIMEOUT);
+        
+        pendingRequestsRef.current.set(requestId, { operation: message.type, resolve, reject, timer });
+      });
+    },
+    [sendMessage]
+  );
+
+  // Функция для завершения ожидания команды по ответу сервера
+  const settleRequest = useCallback((data: ServerMessage) => {
+    if (data.type !== 'command_ack' && data.type !== 'operation_failed' && data.type !== 'invalid_message') return;
+    if (!data.requestId) return;
+    
+    const pending = pendingRequestsRef.current.get(data.requestId);
+    if (!pending) return;
+    
+    clearTimeout(pending.timer);
+    pendingRequestsRef.current.delete(data.requestId);
+    
+    if (data.type === 'command_ack') {
+      pending.resolve();
+    } else {
+      pending.reject(new CommandError(data.message, pending.operation));
+    }
+  }, []);
+
+  // Функция для отказа всем командам, ответ на которые уже не придет
+  const rejectPendingRequests = useCallback((reason: string) => {
+    pendingRequestsRef.current.forEach(pending => {
+      clearTimeout(pending.timer);
+      pending.reject(new CommandError(reason, pending.operation));
+    });
+    pendingRequestsRef.current.clear();
+  }, []);
+
   // Функция для очистки всех таймеров
   const clearAllTimers = useCallback(() => {
     if (reconnectTimerRef.current) {
@@ -253,6 +312,9 @@ export function useResilientWebSocket(
         // Очищаем таймеры
         clearAllTimers();
         
+        // Ответы на отправленные команды через закрытое соединение уже не придут
+        rejectPendingRequests('З\'єднання з сервером втрачено');
+        
         // Обновляем состояние
         setState(prev => ({ 
           ...prev, 
@@ -269,10 +331,10 @@ export function useResilientWebSocket(
       // Обработчик входящих сообщений
       socket.onmessage = (event) => {
         try {
-          const data = JSON.parse(event.data);
+          const data = JSON.parse(event.data) as ServerMessage;
           
           // Обрабатываем специальные служебные сообщения
-          if (data.type === '_heartbeat_response' || data.type === '_pong') {
+          if (data.type === '_heartbeat_response') {
             lastHeartbeatResponseRef.current = Date.now();
             
             // Очищаем таймаут ожидания ответа на heartbeat
@@ -289,16 +351,17 @@ export function useResilientWebSocket(
           }
           
           // Пинг от сервера - отвечаем pong и обновляем время последнего ответа
-          if (data.type === '_ping' || data.type === 'ping') {
+          if (data.type === '_ping') {
             lastHeartbeatResponseRef.current = Date.now();
             sendMessage({ type: 'pong' });
             return;
           }
           
           // Логируем другие сообщения
-          if (data.type !== '_ping' && data.type !== '_pong') {
-            log('Получено сообщение:', data);
-          }
+          log('Получено сообщение:', data);
+          
+          // Ответ на команду завершает ее ожидание; обработчики получают его как обычное сообщение
+          settleRequest(data);
           
           // Вызываем переданный обработчик сообщений
           if (onMessage) {
@@ -340,7 +403,9 @@ export function useResilientWebSocket(
     log, 
     onMessage, 
     reconnect, 
-    sendMessage
+    rejectPendingRequests,
+    sendMessage,
+    settleRequest
   ]);
 
   // Основной эффект для установки соединения
@@ -354,6 +419,7 @@ export function useResilientWebSocket(
       log('Очистка WebSocket ресурсов');
       shouldReconnect.current = false;
       clearAllTimers();
+      rejectPendingRequests('З\'єднання з сервером закрито');
       
       const socket = socketRef.current;
       if (socket) {
@@ -393,6 +459,7 @@ export function useResilientWebSocket(
   return {
     state,
     sendMessage,
+    sendRequest,
     reconnect: manualReconnect, // Экспортируем метод для ручного переподключения
     socketRef // Экспортируем ссылку на сокет для использования в крайних случаях
   };
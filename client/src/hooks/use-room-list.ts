@@ -0,0 +1,45 @@
+import { useEffect, useState } from "react";
+import { RoomSummary } from "@shared/schema";
+
+// Поток обновлений списка столов (Server-Sent Events)
+const ROOMS_STREAM_ENDPOINT = '/api/rooms/stream';
+
+/**
+ * Хук для списка открытых столов: сервер присылает весь список при подключении
+ * и после каждого изменения рассадки, фазы игры или состава комнат
+ */
+export function useRoomList() {
+  const [rooms, setRooms] = useState<RoomSummary[]>([]);
+  const [connected, setConnected] = useState(false);
+
+  useEffect(() => {
+    // EventSource сам переподключается после обрыва
+    const source = new EventSource(ROOMS_STREAM_ENDPOINT);
+
+    source.onopen = () => {
+      setConnected(true);
+    };
+
+    source.onmessage = (event) => {
+      try {
+        const data = JSON.parse(event.data);
+        setRooms(data.rooms as RoomSummary[]);
+      } catch (error) {
+        console.error('Ошибка обработки списка столов:', error);
+      }
+    };
+
+    source.onerror = () => {
+      setConnected(false);
+    };
+
+    return () => {
+      source.close();
+    };
+  }, []);
+
+  return {
+    rooms,
+    connected,
+  };
+}
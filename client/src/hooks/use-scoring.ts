@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useState, useRef } from "react";
+import { GameScoreSheet } from "@shared/schema";
+import { ClientMessage, ServerMessage } from "@shared/protocol";
+
+/**
+ * Хук для итоговой таблицы баллов после окончания игры
+ * @param sendMessage Функция отправки сообщений через WebSocket
+ */
+export function useScoring(sendMessage: (message: ClientMessage) => boolean) {
+  const [sheet, setSheet] = useState<GameScoreSheet | null>(null);
+  const handlerRef = useRef<((data: ServerMessage) => void) | null>(null);
+
+  // Обработчик обновлений итоговой таблицы
+  const handleScoringMessage = useCallback((data: ServerMessage) => {
+    if (data.type === 'score_update') {
+      setSheet((data.sheet ?? null) as GameScoreSheet | null);
+    }
+  }, []);
+
+  // Регистрация обработчика в глобальном массиве
+  useEffect(() => {
+    handlerRef.current = handleScoringMessage;
+
+    if (window.messageHandlers) {
+      window.messageHandlers.push(handleScoringMessage);
+    }
+
+    return () => {
+      if (window.messageHandlers && handlerRef.current) {
+        const index = window.messageHandlers.indexOf(handlerRef.current);
+        if (index !== -1) {
+          window.messageHandlers.splice(index, 1);
+        }
+      }
+    };
+  }, [handleScoringMessage]);
+
+  // Запрашиваем итоговую таблицу при монтировании
+  useEffect(() => {
+    sendMessage({ type: 'get_score_sheet' });
+  }, [sendMessage]);
+
+  /**
+   * Назначить игроку дополнительные баллы (только для ведущего)
+   * @param slotNumber Слот игрока
+   * @param points Дополнительные баллы
+   */
+  const setExtraPoints = useCallback((slotNumber: number, points: number) => {
+    return sendMessage({ type: 'set_extra_points', slotNumber, points });
+  }, [sendMessage]);
+
+  /**
+   * Сохранить итоги игры (только для ведущего)
+   */
+  const finalizeScores = useCallback(() => {
+    return sendMessage({ type: 'finalize_scores' });
+  }, [sendMessage]);
+
+  return {
+    sheet,
+    setExtraPoints,
+    finalizeScores,
+  };
+}
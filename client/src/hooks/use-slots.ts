@@ -1,6 +1,9 @@
 import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
-import { useResilientWebSocket, WebSocketMessage } from './use-resilient-websocket';
+import { useResilientWebSocket } from './use-resilient-websocket';
+import { ClientMessage, ServerMessage } from '@shared/protocol';
+import { PlayerStates, SessionRole, getIdentityName } from '@shared/schema';
 import { debounce, throttle } from '../lib/performance-utils';
+import { notifyOnFailure } from '../lib/commands';
 
 /**
  * Функция для глубокого сравнения двух объектов
@@ -60,13 +63,18 @@ export interface SlotsState {
   error: string | null;
   cameraStates: Record<string, boolean>; // userId -> cameraOn
   displayNames: Record<string, string>; // userId -> displayName
+  playerStates: PlayerStates; // статусы, фолы и пропуски речи игроков
 }
 
 // Расширяем Window интерфейс для глобальных переменных
 declare global {
   interface Window {
     currentUserIdentity: string;
-    messageHandlers: Array<(data: any) => void>;
+    currentRoomId: string;
+    currentInvite: string | null;
+    currentSession: string | null;
+    currentRole: SessionRole | null;
+    messageHandlers: Array<(data: ServerMessage) => void>;
   }
 }
 
@@ -91,7 +99,8 @@ export function useSlots(userId: string) {
     connected: false,
     error: null,
     cameraStates: {},
-    displayNames: {}
+    displayNames: {},
+    playerStates: { statuses: {}, fouls: {}, silencedPlayers: {} }
   });
 
   const userIdRef = useRef(userId);
@@ -140,49 +149,99 @@ export function useSlots(userId: string) {
     }, 150); // Троттлинг в 150мс для ограничения частоты обновлений
   }, []);
 
+  // Версия состояния стола, до которой клиент применил изменения (null - снимок еще не получен)
+  const roomStateVersionRef = useRef<number | null>(null);
+  // Запрошен полный снимок: изменения до его прихода не применяются
+  const resyncRequestedRef = useRef(false);
+  // Текущие состояния камер, к которым применяются изменения отдельных камер
+  const cameraStatesRef = useRef<Record<string, boolean>>({});
+  // Отправка сообщений нужна обработчику раньше, чем создается соединение
+  const sendMessageRef = useRef<(message: ClientMessage) => boolean>(() => false);
+  
+  // Применить список слотов из состояния стола
+  const applySlots = useCallback((slotList: SlotInfo[]) => {
+    const slots: Record<number, string> = {};
+    let userSlot: number | null = null;
+    
+    // Заполняем объект слотов из массива
+    slotList.forEach((slot: SlotInfo) => {
+      slots[slot.slotNumber] = slot.userId;
+      
+      // Возможно два идентификатора для сравнения - текущий и глобальный
+      const currentId = userIdRef.current;
+      const globalId = window.currentUserIdentity;
+      
+      // Проверяем соответствие либо текущему, либо глобальному идентификатору
+      if (slot.userId === currentId || 
+          (globalId && slot.userId === globalId)) {
+        userSlot = slot.slotNumber;
+      }
+    });
+    
+    // Используем дебаунсированную функцию для обновления слотов
+    debouncedUpdateSlots(slots, userSlot);
+  }, [debouncedUpdateSlots]);
+  
+  // Применить состояния камер из состояния стола
+  const applyCameraStates = useCallback((cameraStates: Record<string, boolean>) => {
+    cameraStatesRef.current = cameraStates;
+    
+    // Используем троттлированную функцию для обновления состояния камер
+    throttledUpdateCameraStates(cameraStates);
+  }, [throttledUpdateCameraStates]);
+
   // Обработчик сообщений с оптимизированными обновлениями состояния
-  const handleMessage = useCallback((data: any) => {
+  const handleMessage = useCallback((data: ServerMessage) => {
     try {      
       switch (data.type) {
-        case 'slots_update': {
-          // Обновление информации о слотах
-          const slots: Record<number, string> = {};
-          let userSlot: number | null = null;
-          
-          // Заполняем объект слотов из массива
-          data.slots.forEach((slot: SlotInfo) => {
-            slots[slot.slotNumber] = slot.userId;
-            
-            // Возможно два идентификатора для сравнения - текущий и глобальный
-            const currentId = userIdRef.current;
-            const globalId = window.currentUserIdentity;
-            
-            // Проверяем соответствие либо текущему, либо глобальному идентификатору
-            if (slot.userId === currentId || 
-                (globalId && slot.userId === globalId)) {
-              userSlot = slot.slotNumber;
-              // Отключаем логирование для повышения производительности
-              // console.log(`Найден слот текущего пользователя: ${userSlot}`);
-            }
-          });
-          
-          // Используем дебаунсированную функцию для обновления слотов
-          debouncedUpdateSlots(slots, userSlot);
+        case 'room_state_snapshot': {
+          // Полный снимок заменяет все, что клиент знал о столе
+          roomStateVersionRef.current = data.version;
+          resyncRequestedRef.current = false;
+          applySlots(data.state.slots);
+          applyCameraStates(data.state.cameraStates);
+          setState(prev => ({ ...prev, playerStates: data.state.playerStates }));
           break;
         }
         
-        case 'camera_states_update': {
-          // Обновление информации о состоянии камер
-          const cameraStates = data.cameraStates || {};
+        case 'room_state_delta': {
+          const currentVersion = roomStateVersionRef.current;
           
-          // Используем троттлированную функцию для обновления состояния камер
-          throttledUpdateCameraStates(cameraStates);
-          break;
-        }
-        
-        case 'slot_busy': {
-          // Уведомление, что слот занят
-          console.log(`Слот ${data.slotNumber} уже занят другим пользователем`);
+          // До снимка изменения не применяются: снимок их уже учтет; устаревшие изменения пропускаем
+          if (currentVersion === null || resyncRequestedRef.current || data.version <= currentVersion) {
+            break;
+          }
+          
+          // Пропуск версии: часть изменений потеряна, запрашиваем полный снимок
+          if (data.version !== currentVersion + 1) {
+            console.warn(`Пропущены изменения стола (версия ${currentVersion}, получена ${data.version}), запрашиваем снимок`);
+            resyncRequestedRef.current = sendMessageRef.current({ type: 'get_room_state' });
+            break;
+          }
+          
+          roomStateVersionRef.current = data.version;
+          const { slots, cameraStates, playerStates } = data.delta;
+          
+          if (slots) {
+            applySlots(slots);
+          }
+          
+          if (playerStates) {
+            setState(prev => ({ ...prev, playerStates }));
+          }
+          
+          if (cameraStates) {
+            // Изменение содержит только изменившиеся камеры (null - камера удалена)
+            const nextCameraStates = { ...cameraStatesRef.current };
+            Object.entries(cameraStates).forEach(([cameraUserId, isEnabled]) => {
+              if (isEnabled === null) {
+                delete nextCameraStates[cameraUserId];
+              } else {
+                nextCameraStates[cameraUserId] = isEnabled;
+              }
+            });
+            applyCameraStates(nextCameraStates);
+          }
           break;
         }
         
@@ -199,23 +258,29 @@ export function useSlots(userId: string) {
           break;
         }
         
-        default:
-          // Логируем только неслужебные сообщения, чтобы не захламлять консоль
-          if (!data.type.startsWith('_') && data.type !== 'ping' && data.type !== 'pong') {
-            console.log('Получено сообщение:', data);
-          }
+        case 'command_ack':
+          // Подтверждение команды уже завершило ее ожидание в useResilientWebSocket
+          break;
+        
+        case 'invalid_message': {
+          // Сервер отклонил сообщение, не прошедшее проверку протокола
+          console.error(`Сервер отклонил сообщение ${data.messageType ?? ''}:`, data.issues.join('; '));
+          break;
+        }
+        
+        // Остальные сообщения не логируем: среди них личные роли и результаты ночных проверок
       }
     } catch (error) {
       console.error('Ошибка обработки сообщения:', error);
     }
-  }, [debouncedUpdateSlots, throttledUpdateCameraStates]);
+  }, [applySlots, applyCameraStates]);
 
   // Настраиваем адрес WebSocket сервера
   const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
   const wsUrl = `${protocol}//${window.location.host}/ws`;
   
   // Используем наш устойчивый WebSocket хук
-  const { state: wsState, sendMessage, reconnect } = useResilientWebSocket(
+  const { state: wsState, sendMessage, sendRequest, reconnect } = useResilientWebSocket(
     {
       url: wsUrl,
       initialReconnectDelay: 500,        // Начальная задержка переподключения 500мс
@@ -229,6 +294,7 @@ export function useSlots(userId: string) {
     handleMessage,
     [userId] // Перезапускаем соединение при изменении userId
   );
+  sendMessageRef.current = sendMessage;
 
   // Синхронизируем состояние с состоянием WebSocket
   useEffect(() => {
@@ -243,6 +309,10 @@ export function useSlots(userId: string) {
     
     // Регистрируем пользователя при подключении
     if (wsState.connected) {
+      // Новое соединение начинается со снимка, который сервер пришлет после регистрации
+      roomStateVersionRef.current = null;
+      resyncRequestedRef.current = false;
+      
       // Используем глобальный идентификатор из window, если доступен
       let effectiveUserId = userIdRef.current;
       if (window.currentUserIdentity && window.currentUserIdentity !== 'undefined') {
@@ -250,11 +320,20 @@ export function useSlots(userId: string) {
         console.log('Использую глобальный идентификатор:', effectiveUserId);
       }
 
+      // Без удостоверения, выданного вместе с токеном, сервер регистрацию не примет
+      if (!window.currentSession) {
+        console.error('Нет удостоверения участника, регистрация невозможна');
+        return;
+      }
+
       // Регистрируем пользователя на сервере
       console.log('Регистрируем пользователя:', effectiveUserId);
       sendMessage({
         type: 'register',
-        userId: effectiveUserId
+        userId: effectiveUserId,
+        roomId: window.currentRoomId || undefined,
+        invite: window.currentInvite || undefined,
+        session: window.currentSession
       });
     }
   }, [wsState.connected, wsState.connecting, wsState.error, userId, sendMessage]);
@@ -268,46 +347,48 @@ export function useSlots(userId: string) {
   }, [sendMessage]);
 
   // Выбор слота
+  // Команды ниже возвращают Promise<boolean>: true - сервер выполнил команду,
+  // false - отказал или не ответил (причина показана уведомлением)
   const selectSlot = useCallback((slotNumber: number) => {
-    return sendMessage({
+    return notifyOnFailure(sendRequest({
       type: 'select_slot',
       slotNumber
-    });
-  }, [sendMessage]);
+    }));
+  }, [sendRequest]);
 
   // Освобождение слота
   const releaseSlot = useCallback(() => {
-    return sendMessage({
+    return notifyOnFailure(sendRequest({
       type: 'release_slot'
-    });
-  }, [sendMessage]);
+    }));
+  }, [sendRequest]);
 
   // Функция для перемещения пользователя в другой слот (только для ведущего)
   const moveUserToSlot = useCallback((userIdToMove: string, targetSlot: number) => {
-    return sendMessage({
+    return notifyOnFailure(sendRequest({
       type: 'move_user',
       userIdToMove,
       targetSlot
-    });
-  }, [sendMessage]);
+    }));
+  }, [sendRequest]);
   
   // Функция для перемешивания всех пользователей (только для ведущего)
   const shuffleAllUsers = useCallback(() => {
     console.log('Запрос на перемешивание пользователей');
-    return sendMessage({
+    return notifyOnFailure(sendRequest({
       type: 'shuffle_users'
-    });
-  }, [sendMessage]);
+    }));
+  }, [sendRequest]);
   
   // Функция для переименования пользователя (только для ведущего)
   const renameUser = useCallback((targetUserId: string, newName: string) => {
     console.log(`Запрос на переименование пользователя ${targetUserId} -> ${newName}`);
-    return sendMessage({
+    return notifyOnFailure(sendRequest({
       type: 'rename_user',
       targetUserId,
       newName
-    });
-  }, [sendMessage]);
+    }));
+  }, [sendRequest]);
 
   // Функция получения отображаемого имени для пользователя
   const getDisplayName = useCallback((userId: string): string => {
@@ -317,31 +398,8 @@ export function useSlots(userId: string) {
     }
     
     // Если нет отображаемого имени, извлекаем имя из userId
-    // Формат userId: "Player-name-1234" или "Host-name-1234"
-    if (userId) {
-      // Проверяем наличие префикса
-      const isHost = userId.startsWith('Host-');
-      const isPlayer = userId.startsWith('Player-');
-      
-      if (isHost || isPlayer) {
-        // Удаляем префикс "Host-" или "Player-"
-        const withoutPrefix = isHost
-          ? userId.substring(5)
-          : userId.substring(7);
-        
-        // Находим индекс последнего дефиса, который разделяет имя и ID
-        const lastDashIndex = withoutPrefix.lastIndexOf('-');
-        
-        if (lastDashIndex !== -1) {
-          // Возвращаем только имя без ID
-          return withoutPrefix.substring(0, lastDashIndex);
-        }
-        return withoutPrefix;
-      }
-    }
-    
-    // В крайнем случае возвращаем оригинальный userId
-    return userId;
+    // Формат userId: "Player-name-1234"; префикс роли лишь часть имени, права выдает сервер
+    return userId ? getIdentityName(userId) : userId;
   }, [state.displayNames]);
 
   return {
@@ -355,5 +413,6 @@ export function useSlots(userId: string) {
     getDisplayName,
     reconnect, // Экспортируем функцию принудительного переподключения
     sendMessage, // Экспортируем функцию отправки сообщений
+    sendRequest, // Экспортируем функцию отправки команд с ожиданием ответа
   };
 }
\ No newline at end of file
@@ -0,0 +1,120 @@
+import { useCallback, useEffect, useState, useRef } from "react";
+import { SpeechTimerState, SpeechType } from "@shared/schema";
+import { DEFAULT_RULESET_ID, RULESETS } from "@shared/rulesets";
+import { ClientMessage, ServerMessage } from "@shared/protocol";
+
+const IDLE_TIMER: SpeechTimerState = {
+  status: 'idle',
+  speakerSlot: null,
+  speechType: 'normal',
+  durationMs: 0,
+  remainingMs: 0,
+  runningSince: null,
+  serverTime: 0,
+  speakingOrder: [],
+  durations: RULESETS[DEFAULT_RULESET_ID].speechDurations
+};
+
+/**
+ * Хук для серверного таймера речей
+ * Оставшееся время считается по серверным часам с учетом смещения локальных часов
+ * @param sendMessage Функция отправки сообщений через WebSocket
+ */
+export function useSpeechTimer(sendMessage: (message: ClientMessage) => boolean) {
+  const [timer, setTimer] = useState<SpeechTimerState>(IDLE_TIMER);
+  const [remainingMs, setRemainingMs] = useState(0);
+  // Разница между серверными и локальными часами
+  const clockOffsetRef = useRef(0);
+  const handlerRef = useRef<((data: ServerMessage) => void) | null>(null);
+
+  // Обработчик обновлений таймера
+  const handleTimerMessage = useCallback((data: ServerMessage) => {
+    if (data.type === 'speech_timer_update' && data.timer) {
+      const nextTimer = data.timer as SpeechTimerState;
+      clockOffsetRef.current = nextTimer.serverTime - Date.now();
+      setTimer(nextTimer);
+    }
+  }, []);
+
+  // Регистрация обработчика в глобальном массиве
+  useEffect(() => {
+    handlerRef.current = handleTimerMessage;
+
+    if (window.messageHandlers) {
+      window.messageHandlers.push(handleTimerMessage);
+    }
+
+    return () => {
+      if (window.messageHandlers && handlerRef.current) {
+        const index = window.messageHandlers.indexOf(handlerRef.current);
+        if (index !== -1) {
+          window.messageHandlers.splice(index, 1);
+        }
+      }
+    };
+  }, [handleTimerMessage]);
+
+  // Запрашиваем текущее состояние таймера при монтировании
+  useEffect(() => {
+    sendMessage({ type: 'get_speech_timer' });
+  }, [sendMessage]);
+
+  // Пересчитываем оставшееся время, пока таймер идет
+  useEffect(() => {
+    const compute = () => {
+      if (timer.status === 'running' && timer.runningSince !== null) {
+        const serverNow = Date.now() + clockOffsetRef.current;
+        return Math.max(0, timer.remainingMs - (serverNow - timer.runningSince));
+      }
+      return timer.remainingMs;
+    };
+
+    setRemainingMs(compute());
+
+    if (timer.status !== 'running') {
+      return;
+    }
+
+    const interval = setInterval(() => setRemainingMs(compute()), 250);
+    return () => clearInterval(interval);
+  }, [timer]);
+
+  /**
+   * Дать слово игроку (только для ведущего)
+   * @param slotNumber Слот выступающего (без слота - следующий по очереди)
+   * @param speechType Тип речи
+   */
+  const startSpeech = useCallback((slotNumber?: number, speechType: SpeechType = 'normal') => {
+    return sendMessage({ type: 'start_speech', slotNumber, speechType });
+  }, [sendMessage]);
+
+  const pauseSpeech = useCallback(() => {
+    return sendMessage({ type: 'pause_speech' });
+  }, [sendMessage]);
+
+  const resumeSpeech = useCallback(() => {
+    return sendMessage({ type: 'resume_speech' });
+  }, [sendMessage]);
+
+  const stopSpeech = useCallback(() => {
+    return sendMessage({ type: 'stop_speech' });
+  }, [sendMessage]);
+
+  /**
+   * Изменить длительности речей (только для ведущего)
+   * @param durations Длительности в секундах
+   */
+  const setDurations = useCallback((durations: Partial<Record<SpeechType, number>>) => {
+    return sendMessage({ type: 'set_speech_durations', durations });
+  }, [sendMessage]);
+
+  return {
+    timer,
+    remainingMs,
+    startSpeech,
+    pauseSpeech,
+    resumeSpeech,
+    stopSpeech,
+    setDurations,
+  };
+}
@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useState, useRef } from "react";
+import { VotingState } from "@shared/schema";
+import { ClientMessage, ServerMessage } from "@shared/protocol";
+
+const EMPTY_VOTING: VotingState = {
+  stage: 'nominations',
+  nominees: [],
+  nominatedBy: {},
+  candidates: [],
+  votes: {},
+  liftVotes: {},
+  eliminatedSlots: []
+};
+
+/**
+ * Хук для выставления кандидатур и голосования
+ * @param sendMessage Функция отправки сообщений через WebSocket
+ */
+export function useVoting(sendMessage: (message: ClientMessage) => boolean) {
+  const [voting, setVoting] = useState<VotingState>(EMPTY_VOTING);
+  const handlerRef = useRef<((data: ServerMessage) => void) | null>(null);
+
+  // Обработчик обновлений голосования
+  const handleVotingMessage = useCallback((data: ServerMessage) => {
+    if (data.type === 'voting_update' && data.voting) {
+      setVoting(data.voting as VotingState);
+    }
+  }, []);
+
+  // Регистрация обработчика в глобальном массиве
+  useEffect(() => {
+    handlerRef.current = handleVotingMessage;
+
+    if (window.messageHandlers) {
+      window.messageHandlers.push(handleVotingMessage);
+    }
+
+    return () => {
+      if (window.messageHandlers && handlerRef.current) {
+        const index = window.messageHandlers.indexOf(handlerRef.current);
+        if (index !== -1) {
+          window.messageHandlers.splice(index, 1);
+        }
+      }
+    };
+  }, [handleVotingMessage]);
+
+  // Запрашиваем текущее состояние голосования при монтировании
+  useEffect(() => {
+    sendMessage({ type: 'get_voting_state' });
+  }, [sendMessage]);
+
+  /**
+   * Выставить игрока на голосование
+   * @param targetSlot Слот выставляемого игрока
+   */
+  const nominate = useCallback((targetSlot: number) => {
+    return sendMessage({ type: 'nominate', targetSlot });
+  }, [sendMessage]);
+
+  /**
+   * Проголосовать за кандидата
+   * @param targetSlot Слот кандидата
+   */
+  const castVote = useCallback((targetSlot: number) => {
+    return sendMessage({ type: 'cast_vote', targetSlot });
+  }, [sendMessage]);
+
+  /**
+   * Проголосовать за подъем всех кандидатов
+   * @param lift true - поднять всех, false - оставить
+   */
+  const castLiftVote = useCallback((lift: boolean) => {
+    return sendMessage({ type: 'cast_lift_vote', lift });
+  }, [sendMessage]);
+
+  /**
+   * Закрыть голосование (только для ведущего)
+   */
+  const closeVoting = useCallback(() => {
+    return sendMessage({ type: 'close_voting' });
+  }, [sendMessage]);
+
+  /**
+   * Начать переголосование после оправдательных речей (только для ведущего)
+   */
+  const startRevote = useCallback(() => {
+    return sendMessage({ type: 'start_revote' });
+  }, [sendMessage]);
+
+  /**
+   * Получить номера слотов, проголосовавших за кандидата
+   * @param candidateSlot Слот кандидата
+   */
+  const getVotersForSlot = useCallback((candidateSlot: number) => {
+    return Object.entries(voting.votes)
+      .filter(([, target]) => target === candidateSlot)
+      .map(([voterSlot]) => Number(voterSlot))
+      .sort((a, b) => a - b);
+  }, [voting.votes]);
+
+  return {
+    voting,
+    nominate,
+    castVote,
+    castLiftVote,
+    closeVoting,
+    startRevote,
+    getVotersForSlot,
+  };
+}
@@ -0,0 +1,46 @@
+import { ClientMessage, ClientMessageType } from '@shared/protocol';
+import { toast } from '@/hooks/use-toast';
+
+/**
+ * Команда не выполнена: сервер отказал, не ответил или соединения нет
+ */
+export class CommandError extends Error {
+  constructor(message: string, public readonly operation: ClientMessageType) {
+    super(message);
+    this.name = 'CommandError';
+  }
+}
+
+/**
+ * Отправить команду и дождаться ответа сервера на нее
+ */
+export type SendRequest = (message: ClientMessage) => Promise<void>;
+
+let requestCounter = 0;
+
+/**
+ * Создать ID запроса, уникальный в пределах вкладки
+ */
+export function createRequestId(): string {
+  requestCounter += 1;
+  return `${Date.now().toString(36)}-${requestCounter}`;
+}
+
+/**
+ * Показать отказ в команде всплывающим уведомлением
+ * @param request Запрос к серверу
+ * @returns true если команда выполнена, false если нет (уведомление уже показано)
+ */
+export function notifyOnFailure(request: Promise<void>): Promise<boolean> {
+  return request.then(
+    () => true,
+    (error: Error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Дію не виконано',
+        description: error.message
+      });
+      return false;
+    }
+  );
+}
@@ -0,0 +1,31 @@
+import { InvitePayload } from '@shared/schema';
+
+/**
+ * Прочитать содержимое приглашения из ссылки.
+ * Подпись проверяет только сервер, здесь содержимое нужно лишь для предзаполнения формы входа
+ * @param token Приглашение из параметра ?invite=
+ * @returns Содержимое приглашения или null, если оно повреждено или истекло
+ */
+export function readInvite(token: string | null): InvitePayload | null {
+  if (!token) {
+    return null;
+  }
+
+  try {
+    const [encodedPayload] = token.split('.');
+    const base64 = encodedPayload.replace(/-/g, '+').replace(/_/g, '/');
+    const payload = JSON.parse(atob(base64)) as InvitePayload;
+    return payload.expiresAt > Date.now() ? payload : null;
+  } catch (error) {
+    console.error('Ошибка чтения приглашения:', error);
+    return null;
+  }
+}
+
+/**
+ * Собрать ссылку-приглашение для отправки игроку
+ * @param token Подписанное приглашение
+ */
+export function buildInviteUrl(token: string): string {
+  return `${window.location.origin}/conference?invite=${encodeURIComponent(token)}`;
+}
@@ -1,3 +1,6 @@
+import { SessionRole } from '@shared/schema';
+import { loadResumeSession, saveResumeSession } from './resume';
+
 // Token endpoint details
 // Используем локальный эндпоинт для генерации токенов
 const TOKEN_ENDPOINT = '/api/livekit/token';
@@ -18,20 +21,68 @@ function generateUniqueIdentity(baseIdentity: string): string {
 declare global {
   interface Window {
     currentUserIdentity: string;
+    currentRoomId: string;
+    currentInvite: string | null;
+    currentSession: string | null;
+    currentRole: SessionRole | null;
+  }
+}
+
+/**
+ * Является ли текущий участник ведущим по роли, выданной сервером вместе с токеном
+ * (не по префиксу идентификатора и не по занятому слоту)
+ */
+export function isCurrentUserHost(): boolean {
+  return window.currentRole === 'host';
+}
+
+/**
+ * Является ли текущий участник зрителем по роли, выданной сервером вместе с токеном
+ */
+export function isCurrentUserSpectator(): boolean {
+  return window.currentRole === 'spectator';
+}
+
+/**
+ * Ошибка доступа к комнате: сервер отказал в токене без верного пароля или приглашения (403),
+ * отказал в роли ведущего, потому что ведущий в комнате уже есть, или идентификатор уже занят (409)
+ */
+export class RoomAccessError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'RoomAccessError';
   }
 }
 
+/**
+ * Пароль комнаты и/или приглашение, с которыми запрашивается токен
+ */
+export interface RoomAccess {
+  password?: string;
+  invite?: string;
+}
+
 /**
  * Fetches a LiveKit token from the token service
  * 
  * @param identity The participant's identity/username
  * @param roomName Optional room name to join (defaults to server-side default)
+ * @param access Optional room password and/or invite for password-protected rooms
+ * @param role Requested role; the server may override it (e.g. from an invite)
  * @returns A Promise resolving to a LiveKit token
  */
-export async function fetchToken(identity: string, roomName?: string): Promise<string> {
+export async function fetchToken(
+  identity: string,
+  roomName?: string,
+  access: RoomAccess = {},
+  role: SessionRole = 'player'
+): Promise<string> {
   try {
-    // Создаем уникальный идентификатор для каждой вкладки
-    const uniqueIdentity = generateUniqueIdentity(identity);
+    // После перезагрузки вкладка входит под прежним идентификатором и предъявляет удостоверение,
+    // чтобы сервер вернул ее на придержанное место; иначе создаем уникальный идентификатор для вкладки
+    const resume = roomName ? loadResumeSession(roomName) : null;
+    const resumable = resume && resume.baseIdentity === identity ? resume : null;
+    const uniqueIdentity = resumable ? resumable.identity : generateUniqueIdentity(identity);
     
     // Сохраняем идентификатор для последующего использования в веб-сокетах
     window.currentUserIdentity = uniqueIdentity;
@@ -47,10 +98,19 @@ export async function fetchToken(identity: string, roomName?: string): Promise<s
       },
       body: JSON.stringify({
         identity: uniqueIdentity,
-        roomName
+        roomName,
+        password: access.password,
+        invite: access.invite,
+        resume: resumable?.session,
+        role
       })
     });
     
+    if (response.status === 403 || response.status === 409) {
+      const { error } = await response.json();
+      throw new RoomAccessError(error, response.status);
+    }
+    
     if (!response.ok) {
       const errorText = await response.text();
       console.error('Token request failed with response:', errorText);
@@ -67,6 +127,26 @@ export async function fetchToken(identity: string, roomName?: string): Promise<s
     
     console.log('Got token from server for room:', data.room, 'token preview:', data.token.substring(0, 20) + '...');
     
+    // Сохраняем комнату токена, чтобы WebSocket зарегистрировался в той же игровой комнате
+    window.currentRoomId = data.room;
+    // Приглашение понадобится при регистрации, чтобы занять придержанный слот
+    window.currentInvite = access.invite || null;
+    // Удостоверение с ролью, выданной сервером, предъявляется при регистрации WebSocket
+    window.currentSession = data.session || null;
+    // Права в интерфейсе определяет роль от сервера, а не префикс идентификатора
+    window.currentRole = data.role || null;
+    
+    // Запоминаем вход, чтобы перезагрузка страницы вернула пользователя на то же место
+    if (data.session) {
+      saveResumeSession({
+        roomId: data.room,
+        baseIdentity: identity,
+        identity: uniqueIdentity,
+        role: data.role,
+        session: data.session
+      });
+    }
+    
     return data.token;
   } catch (error) {
     console.error('Error fetching LiveKit token:', error);
@@ -0,0 +1,61 @@
+import { SessionRole } from '@shared/schema';
+
+// sessionStorage переживает перезагрузку вкладки, но не достается другим вкладкам,
+// поэтому каждая вкладка возвращается только на свое место
+const RESUME_STORAGE_KEY = 'resume-session';
+
+/**
+ * Все, что нужно вкладке, чтобы после перезагрузки вернуться на свое место
+ */
+export interface ResumeSession {
+  roomId: string;
+  // Имя с префиксом роли, под которым пользователь входил
+  baseIdentity: string;
+  // Идентификатор с суффиксом вкладки, выданный при входе
+  identity: string;
+  role: SessionRole;
+  // Подписанное удостоверение, которое сервер принимает как право вернуться
+  session: string;
+}
+
+/**
+ * Запомнить вход в комнату
+ * @param resume Данные входа
+ */
+export function saveResumeSession(resume: ResumeSession): void {
+  window.sessionStorage.setItem(RESUME_STORAGE_KEY, JSON.stringify(resume));
+}
+
+/**
+ * Прочитать сохраненный вход в комнату.
+ * Подпись удостоверения проверяет сервер, здесь отбрасываются только чужая комната и истекший срок
+ * @param roomId ID комнаты, в которую входит пользователь
+ * @returns Данные входа или null, если вернуться в эту комнату не с чем
+ */
+export function loadResumeSession(roomId: string): ResumeSession | null {
+  try {
+    const stored = window.sessionStorage.getItem(RESUME_STORAGE_KEY);
+    if (!stored) {
+      return null;
+    }
+
+    const resume = JSON.parse(stored) as ResumeSession;
+    if (resume.roomId !== roomId) {
+      return null;
+    }
+
+    const [encodedClaim] = resume.session.split('.');
+    const claim = JSON.parse(atob(encodedClaim.replace(/-/g, '+').replace(/_/g, '/'))) as { expiresAt: number };
+    return claim.expiresAt > Date.now() ? resume : null;
+  } catch (error) {
+    console.error('Ошибка чтения сохраненного входа:', error);
+    return null;
+  }
+}
+
+/**
+ * Забыть вход в комнату (пользователь вышел сам)
+ */
+export function clearResumeSession(): void {
+  window.sessionStorage.removeItem(RESUME_STORAGE_KEY);
+}
@@ -4,6 +4,10 @@ import "./index.css";
 
 // Инициализация глобальных переменных
 (window as any).currentUserIdentity = '';
+(window as any).currentRoomId = '';
+(window as any).currentInvite = null;
+(window as any).currentSession = null;
+(window as any).currentRole = null;
 (window as any).messageHandlers = [];
 
 createRoot(document.getElementById("root")!).render(<App />);
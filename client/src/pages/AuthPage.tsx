@@ -0,0 +1,144 @@
+import { useEffect, useState } from 'react';
+import { Link, useLocation } from 'wouter';
+import { Loader2 } from 'lucide-react';
+import { loginUserSchema, registerUserSchema } from '@shared/schema';
+import { useAuth, getAuthErrorStatus } from '../hooks/use-auth';
+
+type Mode = 'login' | 'register';
+
+const inputClassName = 'w-full px-3 py-2 bg-slate-700 text-white rounded-md border border-slate-600 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+// Куди повернутися після входу (?next=/conference?room=...), інакше лобі
+function getNextLocation(): string {
+  const next = new URLSearchParams(window.location.search).get('next');
+  return next && next.startsWith('/') ? next : '/lobby';
+}
+
+/**
+ * Вхід і реєстрація. Обліковий запис зберігає нікнейм і аватар, але грати можна й гостем
+ */
+export default function AuthPage() {
+  const [, setLocation] = useLocation();
+  const { user, loginMutation, registerMutation } = useAuth();
+  const [mode, setMode] = useState<Mode>('login');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [nickname, setNickname] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+  const mutation = mode === 'login' ? loginMutation : registerMutation;
+
+  // Після входу повертаємо користувача туди, звідки він прийшов
+  useEffect(() => {
+    if (user) {
+      setLocation(getNextLocation());
+    }
+  }, [user]);
+
+  const switchMode = (nextMode: Mode) => {
+    setMode(nextMode);
+    setFormError(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const parsed = mode === 'login'
+      ? loginUserSchema.safeParse({ username, password })
+      : registerUserSchema.safeParse({ username, password, nickname: nickname || undefined });
+
+    if (!parsed.success) {
+      setFormError(parsed.error.errors[0].message);
+      return;
+    }
+    setFormError(null);
+
+    const onError = (error: Error) => {
+      const status = getAuthErrorStatus(error);
+      setFormError(
+        status === 401 ? 'Невірний логін або пароль'
+          : status === 409 ? 'Такий логін уже зайнятий'
+          : 'Не вдалося виконати запит, спробуйте ще раз'
+      );
+    };
+
+    if (mode === 'login') {
+      loginMutation.mutate({ username, password }, { onError });
+    } else {
+      registerMutation.mutate({ username, password, nickname: nickname || undefined }, { onError });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-white px-4 py-8 sm:px-6 flex items-center justify-center">
+      <div className="w-full max-w-md mx-auto">
+        <div className="text-center mb-6">
+          <Link href="/">
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-400 to-purple-500 bg-clip-text text-transparent cursor-pointer">
+              Mafia
+            </h1>
+          </Link>
+        </div>
+
+        <div className="bg-slate-800/70 p-4 rounded-lg shadow-lg">
+          <div className="flex space-x-2 mb-4">
+            <button
+              className={`flex-1 px-3 py-2 rounded-md text-sm font-medium ${mode === 'login' ? 'bg-blue-600 text-white' : 'bg-slate-700 text-gray-300 hover:bg-slate-600'}`}
+              onClick={() => switchMode('login')}
+            >
+              Вхід
+            </button>
+            <button
+              className={`flex-1 px-3 py-2 rounded-md text-sm font-medium ${mode === 'register' ? 'bg-blue-600 text-white' : 'bg-slate-700 text-gray-300 hover:bg-slate-600'}`}
+              onClick={() => switchMode('register')}
+            >
+              Реєстрація
+            </button>
+          </div>
+
+          <form className="flex flex-col space-y-3" onSubmit={handleSubmit}>
+            <input
+              type="text"
+              value={username}
+              onChange={(e) => setUsername(e.target.value.trim())}
+              className={inputClassName}
+              placeholder="Логін"
+              autoComplete="username"
+            />
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className={inputClassName}
+              placeholder="Пароль"
+              autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+            />
+            {mode === 'register' && (
+              <input
+                type="text"
+                value={nickname}
+                onChange={(e) => setNickname(e.target.value)}
+                className={inputClassName}
+                placeholder="Нікнейм за столом (за замовчуванням - логін)"
+              />
+            )}
+
+            {formError && <p className="text-sm text-red-400">{formError}</p>}
+
+            <button
+              type="submit"
+              className="px-4 py-2 rounded-md bg-purple-600 hover:bg-purple-700 text-white font-medium flex items-center justify-center disabled:opacity-50"
+              disabled={mutation.isPending}
+            >
+              {mutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {mode === 'login' ? 'Увійти' : 'Зареєструватися'}
+            </button>
+          </form>
+        </div>
+
+        <p className="text-center text-sm text-gray-400 mt-4">
+          <Link href="/lobby" className="text-blue-400 hover:underline">Грати гостем</Link>
+        </p>
+      </div>
+    </div>
+  );
+}
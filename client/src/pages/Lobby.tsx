@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import { Link, useLocation } from 'wouter';
+import { Loader2, Lock } from 'lucide-react';
+import { RoomSummary, isValidRoomId } from '@shared/schema';
+import { useRoomList } from '../hooks/use-room-list';
+import { useAuth } from '../hooks/use-auth';
+import { GAME_PHASE_LABELS } from '../components/LiveVideo/GamePhaseBanner';
+
+type Role = 'player' | 'host' | 'spectator';
+
+interface RoomCardProps {
+  room: RoomSummary;
+  onJoin: (roomId: string, role: Role) => void;
+}
+
+/**
+ * Картка столу: ведуча, зайняті місця, фаза гри та глядачі
+ */
+function RoomCard({ room, onJoin }: RoomCardProps) {
+  return (
+    <div className="bg-slate-800/70 p-4 rounded-lg shadow-lg">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-lg font-medium truncate">
+          {room.roomId}
+          {room.passwordProtected && (
+            <Lock className="inline w-4 h-4 ml-2 text-amber-400" aria-label="З паролем" />
+          )}
+        </h3>
+        <span className="text-xs px-2 py-1 rounded-full bg-slate-700 text-gray-300">
+          {GAME_PHASE_LABELS[room.phase]}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-400 mb-3">
+        <span className={room.hasHost ? 'text-amber-400' : 'text-green-400'}>
+          {room.hasHost ? 'Ведуча присутня' : 'Очікується Ведуча'}
+        </span>
+        <span>Місця: {room.occupiedSeats}/{room.seatCount}</span>
+        <span>Глядачі: {room.spectatorCount}</span>
+      </div>
+
+      <div className="flex space-x-2">
+        <button
+          className="flex-1 px-3 py-2 rounded-md bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium"
+          onClick={() => onJoin(room.roomId, 'player')}
+        >
+          Увійти як гравець
+        </button>
+        <button
+          className="flex-1 px-3 py-2 rounded-md bg-purple-600 hover:bg-purple-700 text-white text-sm font-medium disabled:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+          onClick={() => onJoin(room.roomId, 'host')}
+          disabled={room.hasHost}
+        >
+          Увійти як Ведуча
+        </button>
+        <button
+          className="flex-1 px-3 py-2 rounded-md bg-teal-600 hover:bg-teal-700 text-white text-sm font-medium"
+          onClick={() => onJoin(room.roomId, 'spectator')}
+        >
+          Дивитися
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Лобі: список відкритих столів, що оновлюється в реальному часі, і створення нового столу
+ */
+export default function LobbyPage() {
+  const [, setLocation] = useLocation();
+  const { rooms, connected } = useRoomList();
+  const { user } = useAuth();
+  const [newRoomId, setNewRoomId] = useState('');
+  const isNewRoomIdValid = isValidRoomId(newRoomId);
+  const newRoomExists = rooms.some(room => room.roomId === newRoomId);
+
+  const joinRoom = (roomId: string, role: Role) => {
+    setLocation(`/conference?room=${encodeURIComponent(roomId)}&role=${role}`);
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-white px-4 py-8 sm:px-6">
+      <div className="w-full max-w-2xl mx-auto">
+        <div className="flex justify-between items-center mb-6">
+          <Link href="/">
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-400 to-purple-500 bg-clip-text text-transparent cursor-pointer">
+              Mafia
+            </h1>
+          </Link>
+          <div className="flex items-center space-x-4 text-xs text-gray-400">
+            <div className="flex items-center">
+              {connected ? (
+                <div className="w-2 h-2 rounded-full mr-1 bg-green-400"></div>
+              ) : (
+                <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+              )}
+              <span>{connected ? 'Оновлюється наживо' : 'Підключення...'}</span>
+            </div>
+            {user ? (
+              <Link href="/profile" className="text-blue-400 hover:underline">{user.nickname}</Link>
+            ) : (
+              <Link href="/auth" className="text-blue-400 hover:underline">Увійти</Link>
+            )}
+          </div>
+        </div>
+
+        {/* Новий стіл */}
+        <div className="bg-slate-800/70 p-4 rounded-lg shadow-lg mb-6">
+          <h3 className="text-lg font-medium mb-3">Новий стіл</h3>
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              value={newRoomId}
+              onChange={(e) => setNewRoomId(e.target.value.trim())}
+              className="flex-1 px-3 py-2 bg-slate-700 text-white rounded-md border border-slate-600 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              placeholder="Назва столу"
+            />
+            <button
+              className="px-4 py-2 rounded-md bg-purple-600 hover:bg-purple-700 text-white font-medium disabled:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+              onClick={() => joinRoom(newRoomId, 'host')}
+              disabled={!isNewRoomIdValid || newRoomExists}
+            >
+              Створити
+            </button>
+          </div>
+          <p className={`text-xs mt-2 ${newRoomId && !isNewRoomIdValid ? 'text-red-400' : 'text-gray-400'}`}>
+            {newRoomExists
+              ? 'Такий стіл уже є у списку'
+              : 'Лише латинські літери, цифри, дефіс та підкреслення. Ви станете Ведучою нового столу'}
+          </p>
+        </div>
+
+        {/* Відкриті столи */}
+        <h2 className="text-xl font-medium mb-3">Відкриті столи</h2>
+        {rooms.length === 0 ? (
+          <p className="text-gray-400 text-sm">Зараз немає відкритих столів</p>
+        ) : (
+          <div className="flex flex-col space-y-3">
+            {rooms.map(room => (
+              <RoomCard key={room.roomId} room={room} onJoin={joinRoom} />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import { useEffect, useState } from 'react';
+import { Link, useLocation } from 'wouter';
+import { Loader2 } from 'lucide-react';
+import { updateProfileSchema } from '@shared/schema';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { useAuth } from '../hooks/use-auth';
+
+const inputClassName = 'w-full px-3 py-2 bg-slate-700 text-white rounded-md border border-slate-600 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+/**
+ * Профіль: нікнейм, під яким гравець сідає за стіл, і аватар
+ */
+export default function ProfilePage() {
+  const [, setLocation] = useLocation();
+  const { user, isLoading, updateProfileMutation, logoutMutation } = useAuth();
+  const [nickname, setNickname] = useState('');
+  const [avatarUrl, setAvatarUrl] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  // Гостя відправляємо на вхід
+  useEffect(() => {
+    if (!isLoading && !user) {
+      setLocation('/auth?next=/profile');
+    }
+  }, [isLoading, user]);
+
+  // Заповнюємо форму поточним профілем
+  useEffect(() => {
+    if (user) {
+      setNickname(user.nickname);
+      setAvatarUrl(user.avatarUrl ?? '');
+    }
+  }, [user?.id]);
+
+  if (!user) {
+    return (
+      <div className="min-h-screen bg-slate-900 text-white flex items-center justify-center">
+        <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const parsed = updateProfileSchema.safeParse({ nickname, avatarUrl: avatarUrl.trim() || null });
+    if (!parsed.success) {
+      setFormError(parsed.error.errors[0].message);
+      return;
+    }
+    setFormError(null);
+
+    updateProfileMutation.mutate(parsed.data, {
+      onSuccess: () => setSaved(true),
+      onError: () => setFormError('Не вдалося зберегти профіль, спробуйте ще раз'),
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-white px-4 py-8 sm:px-6">
+      <div className="w-full max-w-md mx-auto">
+        <div className="flex justify-between items-center mb-6">
+          <Link href="/">
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-400 to-purple-500 bg-clip-text text-transparent cursor-pointer">
+              Mafia
+            </h1>
+          </Link>
+          <Link href="/lobby" className="text-sm text-blue-400 hover:underline">До лобі</Link>
+        </div>
+
+        <div className="bg-slate-800/70 p-4 rounded-lg shadow-lg">
+          <div className="flex items-center space-x-3 mb-4">
+            <Avatar className="h-14 w-14">
+              {user.avatarUrl && <AvatarImage src={user.avatarUrl} alt={user.nickname} />}
+              <AvatarFallback className="bg-slate-700 text-lg">{user.nickname.charAt(0).toUpperCase()}</AvatarFallback>
+            </Avatar>
+            <div>
+              <p className="text-lg font-medium">{user.nickname}</p>
+              <p className="text-xs text-gray-400">Логін: {user.username}</p>
+            </div>
+          </div>
+
+          <form className="flex flex-col space-y-3" onSubmit={handleSave}>
+            <label className="text-sm text-gray-300">
+              Нікнейм за столом
+              <input
+                type="text"
+                value={nickname}
+                onChange={(e) => {
+                  setNickname(e.target.value);
+                  setSaved(false);
+                }}
+                className={`${inputClassName} mt-1`}
+              />
+            </label>
+            <label className="text-sm text-gray-300">
+              Посилання на аватар
+              <input
+                type="url"
+                value={avatarUrl}
+                onChange={(e) => {
+                  setAvatarUrl(e.target.value);
+                  setSaved(false);
+                }}
+                className={`${inputClassName} mt-1`}
+                placeholder="https://..."
+              />
+            </label>
+
+            {formError && <p className="text-sm text-red-400">{formError}</p>}
+            {saved && !formError && <p className="text-sm text-green-400">Профіль збережено</p>}
+
+            <button
+              type="submit"
+              className="px-4 py-2 rounded-md bg-purple-600 hover:bg-purple-700 text-white font-medium flex items-center justify-center disabled:opacity-50"
+              disabled={updateProfileMutation.isPending}
+            >
+              {updateProfileMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Зберегти
+            </button>
+          </form>
+        </div>
+
+        <button
+          className="w-full mt-4 px-4 py-2 rounded-md bg-slate-700 hover:bg-slate-600 text-white text-sm"
+          onClick={() => logoutMutation.mutate(undefined, { onSuccess: () => setLocation('/lobby') })}
+          disabled={logoutMutation.isPending}
+        >
+          Вийти з облікового запису
+        </button>
+      </div>
+    </div>
+  );
+}
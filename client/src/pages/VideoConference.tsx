@@ -1,55 +1,94 @@
 import { useState, useEffect } from 'react';
 import { VideoCodec } from 'livekit-client';
-import { fetchToken } from '../lib/livekit';
+import { Link } from 'wouter';
+import { fetchToken, RoomAccessError } from '../lib/livekit';
+import { readInvite } from '../lib/invite';
+import { loadResumeSession } from '../lib/resume';
 import { getOptimalCodec } from '../lib/codecDetector';
 import { VideoConferenceClient } from '../components/LiveVideo/VideoConferenceClient';
 import { Loader2 } from 'lucide-react';
+import { DEFAULT_ROOM_ID, SPECTATOR_PREFIX, SessionRole, isValidRoomId } from '@shared/schema';
+import { useRoomList } from '../hooks/use-room-list';
+import { useAuth } from '../hooks/use-auth';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 
-type Role = 'player' | 'host';
-type RoomStatus = { hasHost: boolean; userCount: number; timestamp: string } | null;
+type Role = SessionRole;
+
+// Префікс ідентифікатора за роллю (лише для відображення імені, права видає сервер разом з токеном)
+const ROLE_PREFIXES: Record<Role, string> = {
+  player: 'Player-',
+  host: 'Host-',
+  spectator: SPECTATOR_PREFIX
+};
+
+const ROLE_LABELS: Record<Role, string> = {
+  player: 'Гравець',
+  host: 'Ведуча',
+  spectator: 'Глядач'
+};
+
+const ROLE_TEXT_CLASSES: Record<Role, string> = {
+  player: 'text-blue-400',
+  host: 'text-purple-400',
+  spectator: 'text-teal-400'
+};
+
+// Запрошення з посилання (?invite=...)
+function getInviteToken(): string | null {
+  return new URLSearchParams(window.location.search).get('invite');
+}
+
+// Кімната з запрошення або з посилання (?room=ID), інакше загальна кімната
+function getInitialRoomId(): string {
+  const invite = readInvite(getInviteToken());
+  if (invite) {
+    return invite.roomId;
+  }
+  const roomFromUrl = new URLSearchParams(window.location.search).get('room');
+  return isValidRoomId(roomFromUrl) ? roomFromUrl : DEFAULT_ROOM_ID;
+}
+
+// Роль із запрошення або обрана в лобі (?role=host|spectator), інакше гравець
+function getInitialRole(): Role {
+  const invite = readInvite(getInviteToken());
+  if (invite?.role) {
+    return invite.role;
+  }
+  const roleFromUrl = new URLSearchParams(window.location.search).get('role');
+  return roleFromUrl === 'host' || roleFromUrl === 'spectator' ? roleFromUrl : 'player';
+}
 
 export default function VideoConferencePage() {
   const [token, setToken] = useState<string | null>(null);
-  const [roomId] = useState('mafialive-room');
-  const [username, setUsername] = useState('');
-  const [hasJoined, setHasJoined] = useState(false);
-  const [role, setRole] = useState<Role>('player');
-  const [roomStatus, setRoomStatus] = useState<RoomStatus>(null);
-  const [isLoadingStatus, setIsLoadingStatus] = useState(false);
-  const [selectedCodec, setSelectedCodec] = useState<VideoCodec>('vp8'); // Начальное значение - самый совместимый кодек
+  const [inviteToken] = useState(getInviteToken);
+  const [roomId, setRoomId] = useState(getInitialRoomId);
+  // Після перезавантаження сторінки повертаємося до столу без форми входу
+  const [resume] = useState(() => loadResumeSession(getInitialRoomId()));
+  const isRoomIdValid = isValidRoomId(roomId);
+  const [password, setPassword] = useState('');
+  const [joinError, setJoinError] = useState<string | null>(null);
+  const [username, setUsername] = useState(() => resume ? resume.baseIdentity.slice(ROLE_PREFIXES[resume.role].length) : '');
+  const [hasJoined, setHasJoined] = useState(!!resume);
   
-  // Загружаем статус комнаты при первой загрузке и периодически обновляем
+  // Гравець з обліковим записом сідає за стіл під своїм нікнеймом, гість вводить ім'я сам
+  const { user } = useAuth();
   useEffect(() => {
-    // Первоначальная загрузка
-    fetchRoomStatus();
-    
-    // Обновляем каждые 5 секунд, если страница входа все еще активна
-    const intervalId = setInterval(() => {
-      if (!hasJoined) {
-        fetchRoomStatus();
-      }
-    }, 5000);
-    
-    return () => clearInterval(intervalId);
-  }, [hasJoined]);
-  
-  // Функция для получения статуса комнаты
-  const fetchRoomStatus = async () => {
-    setIsLoadingStatus(true);
-    try {
-      const response = await fetch('/api/room-status');
-      if (response.ok) {
-        const data = await response.json();
-        setRoomStatus(data);
-      } else {
-        console.error('Failed to fetch room status');
-      }
-    } catch (error) {
-      console.error('Error fetching room status:', error);
-    } finally {
-      setIsLoadingStatus(false);
+    if (user && !hasJoined) {
+      setUsername(user.nickname);
     }
-  };
+  }, [user?.nickname]);
+  const [role, setRole] = useState<Role>(() => resume ? resume.role : getInitialRole());
+  const [selectedCodec, setSelectedCodec] = useState<VideoCodec>('vp8'); // Начальное значение - самый совместимый кодек
+  
+  // Статус выбранной комнаты приходит из потока списка столов (неоткрытая комната пуста)
+  const { rooms, connected: isStatusConnected } = useRoomList();
+  const roomStatus = rooms.find(room => room.roomId === roomId) ?? null;
+  const isLoadingStatus = !isStatusConnected;
+  
+  // Запрошення діє лише для своєї кімнати
+  const invite = readInvite(inviteToken);
+  const activeInvite = invite && invite.roomId === roomId ? invite : null;
+  const needsPassword = activeInvite ? activeInvite.passwordRequired : !!roomStatus?.passwordProtected;
   
     // LiveKit server URL
     const serverUrl = 'wss://mafia.nyavkin.site';
@@ -76,15 +115,42 @@ export default function VideoConferencePage() {
     if (hasJoined && username) {
       // Добавляем префикс к имени пользователя для идентификации роли (только внутренний идентификатор)
       // Префикс будет скрыт от отображения в пользовательском интерфейсе
-      const nameWithRole = role === 'host' ? `Host-${username}` : `Player-${username}`;
-      fetchToken(nameWithRole, roomId)
+      const nameWithRole = `${ROLE_PREFIXES[role]}${username}`;
+      fetchToken(nameWithRole, roomId, {
+        password: password || undefined,
+        invite: activeInvite ? inviteToken! : undefined
+      }, role)
         .then(setToken)
-        .catch(err => console.error('Error fetching token:', err));
+        .catch(err => {
+          console.error('Error fetching token:', err);
+          if (err instanceof RoomAccessError) {
+            // Повертаємо на форму входу, щоб можна було ввести пароль ще раз або обрати іншу роль
+            if (err.status === 409 && role === 'host') {
+              setJoinError('В кімнаті вже є Ведуча');
+              setRole('player');
+            } else if (err.status === 409) {
+              setJoinError('Не вдалося увійти, спробуйте ще раз');
+            } else {
+              setJoinError('Невірний пароль кімнати');
+            }
+            setHasJoined(false);
+          }
+        });
     }
   }, [hasJoined, username, roomId, role]);
 
   // Обработчик входа в комнату
   const handleJoin = () => {
+    if (!isRoomIdValid) {
+      return;
+    }
+    
+    if (needsPassword && !password) {
+      setJoinError('Введіть пароль кімнати');
+      return;
+    }
+    setJoinError(null);
+    
     // Еще раз проверяем, что если выбрана роль ведущего, то в комнате нет другого ведущего
     if (role === 'host' && roomStatus?.hasHost) {
       alert('В комнате уже есть ведущий. Пожалуйста, выберите роль игрока.');
@@ -96,6 +162,10 @@ export default function VideoConferencePage() {
       // Если пользователь не ввел имя, используем случайное
       setUsername(Math.floor(Math.random() * 10000) + '-' + Math.floor(Math.random() * 10000));
     }
+    // Зберігаємо кімнату в адресі, щоб посиланням можна було поділитися (запрошення залишається в адресі)
+    if (!activeInvite) {
+      window.history.replaceState(null, '', `?room=${encodeURIComponent(roomId)}`);
+    }
     setHasJoined(true);
   };
 
@@ -114,6 +184,63 @@ export default function VideoConferencePage() {
             </div>
             
             <div className="flex flex-col space-y-4 mb-6">
+              {/* Вибір кімнати */}
+              <div className="bg-slate-800/70 p-4 rounded-lg shadow-lg">
+                <div className="flex justify-between items-center mb-3">
+                  <h3 className="text-lg font-medium text-left">Кімната:</h3>
+                  {roomStatus && (
+                    <span className="text-xs text-gray-400">Учасників: {roomStatus.userCount}</span>
+                  )}
+                </div>
+                <input
+                  type="text"
+                  value={roomId}
+                  onChange={(e) => setRoomId(e.target.value.trim())}
+                  className={`w-full px-3 py-2 bg-slate-700 text-white rounded-md border focus:outline-none focus:ring-1 ${
+                    isRoomIdValid
+                      ? 'border-slate-600 focus:border-blue-500 focus:ring-blue-500'
+                      : 'border-red-500 focus:border-red-500 focus:ring-red-500'
+                  }`}
+                  placeholder={DEFAULT_ROOM_ID}
+                />
+                <p className={`text-xs mt-2 text-left ${isRoomIdValid ? 'text-gray-400' : 'text-red-400'}`}>
+                  {isRoomIdValid
+                    ? 'Гравці з однаковою назвою кімнати грають за одним столом'
+                    : 'Лише латинські літери, цифри, дефіс та підкреслення (до 64 символів)'}
+                </p>
+                {activeInvite && (
+                  <p className="text-xs mt-2 text-left text-green-400">
+                    {activeInvite.seat !== null
+                      ? `Вас запрошено за стіл, місце ${activeInvite.seat} притримано для вас`
+                      : 'Вас запрошено за стіл'}
+                  </p>
+                )}
+              </div>
+              
+              {/* Пароль кімнати */}
+              {needsPassword && (
+                <div className="bg-slate-800/70 p-4 rounded-lg shadow-lg">
+                  <h3 className="text-lg font-medium mb-3 text-left">Пароль кімнати:</h3>
+                  <input
+                    type="password"
+                    value={password}
+                    onChange={(e) => {
+                      setPassword(e.target.value);
+                      setJoinError(null);
+                    }}
+                    className={`w-full px-3 py-2 bg-slate-700 text-white rounded-md border focus:outline-none focus:ring-1 ${
+                      joinError
+                        ? 'border-red-500 focus:border-red-500 focus:ring-red-500'
+                        : 'border-slate-600 focus:border-blue-500 focus:ring-blue-500'
+                    }`}
+                    placeholder="Введіть пароль"
+                  />
+                  <p className={`text-xs mt-2 text-left ${joinError ? 'text-red-400' : 'text-gray-400'}`}>
+                    {joinError || 'Ведуча закрила цей стіл паролем'}
+                  </p>
+                </div>
+              )}
+              
               {/* Вибір ролі - з покращеною адаптивністю */}
               <div className="bg-slate-800/70 p-4 rounded-lg shadow-lg">
                 <div className="flex justify-between items-center mb-3">
@@ -174,41 +301,88 @@ export default function VideoConferencePage() {
                       <Loader2 className="w-4 h-4 ml-2 animate-spin text-gray-500" />
                     )}
                   </div>
+                  
+                  <div
+                    className={`p-3 border rounded-lg flex items-center cursor-pointer transition-colors ${
+                      role === 'spectator' ? 'border-teal-500 bg-teal-900/30' : 'border-gray-700 hover:border-gray-500'
+                    }`}
+                    onClick={() => setRole('spectator')}
+                  >
+                    <div className={`w-4 h-4 rounded-full mr-3 ${role === 'spectator' ? 'bg-teal-500' : 'bg-gray-700'}`}></div>
+                    <div className="text-left">
+                      <p className="font-medium">Глядач</p>
+                      <p className="text-xs sm:text-sm text-gray-400">
+                        {roomStatus ? `Дивиться гру без камери (глядачів: ${roomStatus.spectatorCount})` : 'Дивиться гру без камери'}
+                      </p>
+                    </div>
+                  </div>
                 </div>
               </div>
               
-              {/* Поле для введення імені */}
-              <div className="bg-slate-800/70 p-4 rounded-lg shadow-lg">
-                <h3 className="text-lg font-medium mb-3 text-left">Введіть ваше ім'я:</h3>
-                <input
-                  type="text"
-                  value={username}
-                  onChange={(e) => setUsername(e.target.value)}
-                  className="w-full px-3 py-2 bg-slate-700 text-white rounded-md border border-slate-600 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
-                  placeholder="Введіть ваше ім'я"
-                />
-                <p className="text-xs text-gray-400 mt-2 text-left">
-                  Якщо поле залишити порожнім, буде згенеровано випадкове ім'я
-                </p>
-              </div>
+              {/* Нікнейм з профілю або поле для введення імені гостя */}
+              {user ? (
+                <div className="bg-slate-800/70 p-4 rounded-lg shadow-lg">
+                  <h3 className="text-lg font-medium mb-3 text-left">Ви граєте як:</h3>
+                  <div className="flex items-center space-x-3">
+                    <Avatar>
+                      {user.avatarUrl && <AvatarImage src={user.avatarUrl} alt={user.nickname} />}
+                      <AvatarFallback className="bg-slate-700">{user.nickname.charAt(0).toUpperCase()}</AvatarFallback>
+                    </Avatar>
+                    <span className="font-medium">{user.nickname}</span>
+                  </div>
+                  <p className="text-xs text-gray-400 mt-2 text-left">
+                    Нікнейм можна змінити в <Link href="/profile" className="text-blue-400 hover:underline">профілі</Link>
+                  </p>
+                </div>
+              ) : (
+                <div className="bg-slate-800/70 p-4 rounded-lg shadow-lg">
+                  <h3 className="text-lg font-medium mb-3 text-left">Введіть ваше ім'я:</h3>
+                  <input
+                    type="text"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    className="w-full px-3 py-2 bg-slate-700 text-white rounded-md border border-slate-600 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    placeholder="Введіть ваше ім'я"
+                  />
+                  <p className="text-xs text-gray-400 mt-2 text-left">
+                    Якщо поле залишити порожнім, буде згенеровано випадкове ім'я.{' '}
+                    <Link
+                      href={`/auth?next=${encodeURIComponent(window.location.pathname + window.location.search)}`}
+                      className="text-blue-400 hover:underline"
+                    >
+                      Увійдіть
+                    </Link>, щоб зберегти нікнейм
+                  </p>
+                </div>
+              )}
             </div>
             
+            {joinError && !needsPassword && (
+              <p className="text-sm text-red-400 text-center mb-3">{joinError}</p>
+            )}
+            
             <div className="flex justify-center">
               <button 
                 className={`w-full sm:w-auto px-6 py-3 rounded-lg font-medium transition-colors shadow-lg ${
-                  role === 'host' 
+                  !isRoomIdValid
+                    ? 'bg-gray-500 opacity-50 cursor-not-allowed'
+                    : role === 'host' 
                     ? roomStatus?.hasHost
                       ? 'bg-gray-500 opacity-50 cursor-not-allowed' 
                       : 'bg-purple-600 hover:bg-purple-700 text-white'
+                    : role === 'spectator'
+                    ? 'bg-teal-600 hover:bg-teal-700 text-white'
                     : 'bg-blue-600 hover:bg-blue-700 text-white'
                 }`}
                 onClick={handleJoin}
-                disabled={role === 'host' && roomStatus?.hasHost}
+                disabled={!isRoomIdValid || (role === 'host' && roomStatus?.hasHost)}
               >
                 {role === 'host' 
                   ? roomStatus?.hasHost
                     ? 'Роль ведучого недоступна'
                     : 'Увійти як Ведуча' 
+                  : role === 'spectator'
+                  ? 'Увійти як глядач'
                   : 'Увійти як гравець'
                 }
               </button>
@@ -225,13 +399,14 @@ export default function VideoConferencePage() {
           {/* Добавляем информацию о текущем кодеке (опционально) */}
           <div className="fixed bottom-1 left-1 text-xs bg-slate-800/80 text-gray-400 px-2 py-1 rounded-md z-10">
             Кодек: {selectedCodec.toUpperCase()}
+            {roomStatus && ` · Глядачі: ${roomStatus.spectatorCount}`}
           </div>
         </div>
       ) : (
         <div className="flex items-center justify-center min-h-screen px-4 py-8">
           <div className="w-full max-w-md mx-auto text-center bg-slate-800/50 p-6 rounded-lg shadow-lg">
             <div className={`animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 mx-auto mb-6 ${
-              role === 'host' ? 'border-purple-500' : 'border-blue-500'
+              role === 'host' ? 'border-purple-500' : role === 'spectator' ? 'border-teal-500' : 'border-blue-500'
             }`}></div>
             <p className="text-lg font-medium mb-4">Підключення до відеоконференції...</p>
             <div className="space-y-2 text-left bg-slate-800/70 p-4 rounded-lg">
@@ -245,8 +420,8 @@ export default function VideoConferencePage() {
               </p>
               <p className="text-sm flex justify-between">
                 <span className="text-gray-400">Роль:</span>
-                <span className={`font-medium ${role === 'host' ? 'text-purple-400' : 'text-blue-400'}`}>
-                  {role === 'host' ? 'Ведуча' : 'Гравець'}
+                <span className={`font-medium ${ROLE_TEXT_CLASSES[role]}`}>
+                  {ROLE_LABELS[role]}
                 </span>
               </p>
             </div>
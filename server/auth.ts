@@ -0,0 +1,182 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import {
+  registerUserSchema,
+  updateProfileSchema,
+  toUserProfile,
+  type User as StoredUser
+} from "@shared/schema";
+import { storage } from "./storage";
+import { loadSigningSecret } from "./signing";
+
+declare global {
+  namespace Express {
+    interface User extends StoredUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+// Срок жизни cookie входа (30 дней)
+const SESSION_MAX_AGE = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Захешировать пароль: соль.хеш scrypt
+ * @param password Пароль в открытом виде
+ */
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${salt}.${hash.toString("hex")}`;
+}
+
+/**
+ * Сравнить пароль с сохраненным хешем
+ * @param password Пароль в открытом виде
+ * @param stored Сохраненный хеш (соль.хеш)
+ */
+async function comparePasswords(password: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(".");
+  if (!salt || !hash) {
+    return false;
+  }
+
+  const storedHash = Buffer.from(hash, "hex");
+  const suppliedHash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return storedHash.length === suppliedHash.length && timingSafeEqual(storedHash, suppliedHash);
+}
+
+/**
+ * Пропустить дальше только вошедшего пользователя
+ */
+function requireUser(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: 'Not authenticated' });
+  }
+  next();
+}
+
+/**
+ * Подключить учетные записи: сессии в cookie, вход по логину и паролю, профиль.
+ * Гостевая игра без входа остается доступной
+ * @param app Приложение Express
+ */
+export function setupAuth(app: Express) {
+  app.set("trust proxy", 1);
+  app.use(session({
+    secret: loadSigningSecret('SESSION_SECRET'),
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      maxAge: SESSION_MAX_AGE,
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: app.get("env") === "production",
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      // Удаленный пользователь просто перестает быть вошедшим
+      const user = await storage.getUser(id);
+      done(null, user ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  // Регистрация (сразу выполняет вход)
+  app.post("/api/register", async (req, res, next) => {
+    const parsed = registerUserSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
+
+    try {
+      if (await storage.getUserByUsername(parsed.data.username)) {
+        return res.status(409).json({ error: 'Username already exists' });
+      }
+
+      const user = await storage.createUser({
+        ...parsed.data,
+        password: await hashPassword(parsed.data.password),
+      });
+      console.log(`Зарегистрирован пользователь ${user.username}`);
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(toUserProfile(user));
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Вход по логину и паролю
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (err: Error | null, user: StoredUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ error: 'Invalid username or password' });
+      }
+
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json(toUserProfile(user));
+      });
+    })(req, res, next);
+  });
+
+  // Выход
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      res.sendStatus(200);
+    });
+  });
+
+  // Профиль вошедшего пользователя
+  app.get("/api/user", requireUser, (req, res) => {
+    res.json(toUserProfile(req.user!));
+  });
+
+  // Изменение никнейма и аватара
+  app.patch("/api/user", requireUser, async (req, res, next) => {
+    const parsed = updateProfileSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
+
+    try {
+      const user = await storage.updateUserProfile(req.user!.id, parsed.data);
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      res.json(toUserProfile(user));
+    } catch (error) {
+      next(error);
+    }
+  });
+}
@@ -0,0 +1,24 @@
+import { Pool, neonConfig } from '@neondatabase/serverless';
+import { drizzle } from 'drizzle-orm/neon-serverless';
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+/**
+ * Создать пул соединений с Postgres
+ * @param connectionString Строка подключения (DATABASE_URL)
+ */
+export function createPool(connectionString: string) {
+  return new Pool({ connectionString });
+}
+
+/**
+ * Создать подключение Drizzle к Postgres
+ * @param pool Пул соединений
+ */
+export function createDatabase(pool: Pool) {
+  return drizzle({ client: pool, schema });
+}
+
+export type Database = ReturnType<typeof createDatabase>;
@@ -0,0 +1,202 @@
+import { BestMoveState, BEST_MOVE_MAX_PICKS, GamePhase, GameSessionState } from '@shared/schema';
+import { getRoleTeam } from '@shared/roles';
+import type { GameRoom } from './GameRoom';
+import type { CommandDispatcher } from './CommandDispatcher';
+import { connectionManager } from './ConnectionManager';
+
+// Рассвет первой игровой ночи открывает второй день (первый день идет после ночи знакомства)
+const FIRST_NIGHT_DAWN_ROUND = 2;
+
+/**
+ * Менеджер лучшего хода - предлагает его игроку, убитому в первую ночь,
+ * принимает названные слоты и подсчитывает попадания после раскрытия ролей
+ */
+export class BestMoveManager {
+  // ID игрока, которому положен лучший ход
+  private victimId: string | null = null;
+
+  // Слот игрока на момент убийства
+  private victimSlot: number | null = null;
+
+  // Названные слоты
+  private picks: number[] = [];
+  private submitted = false;
+
+  // Попадания в мафию (после окончания игры)
+  private mafiaHits: number | null = null;
+
+  constructor(private readonly room: GameRoom) {
+    console.log('BestMoveManager: Инициализирован');
+
+    this.room.events.on('player_eliminated', (userId: string) => {
+      this.handleElimination(userId);
+    });
+
+    this.room.events.on('game_phase_changed', (session: GameSessionState, previousPhase: GamePhase) => {
+      if (session.phase === 'game_over' && previousPhase !== 'game_over') {
+        this.scoreBestMove();
+      } else if (session.phase === 'lobby') {
+        this.resetBestMove();
+      }
+    });
+  }
+
+  /**
+   * Получить состояние лучшего хода для отправки клиентам
+   */
+  getBestMoveState(): BestMoveState {
+    return {
+      victimSlot: this.victimSlot,
+      picks: [...this.picks],
+      submitted: this.submitted,
+      mafiaHits: this.mafiaHits
+    };
+  }
+
+  /**
+   * Получить ID игрока, сделавшего лучший ход (для подсчета баллов)
+   */
+  getVictimId(): string | null {
+    return this.victimId;
+  }
+
+  /**
+   * Посчитать, сколько названных слотов принадлежат мафии
+   * @returns Количество попаданий или null, если лучший ход не сделан
+   */
+  countMafiaHits(): number | null {
+    if (!this.submitted) {
+      return null;
+    }
+
+    const assignments = this.room.roleManager.getAssignments();
+    return this.picks.filter(slot => {
+      const assignment = assignments.find(({ slotNumber }) => slotNumber === slot);
+      return !!assignment && getRoleTeam(assignment.role) === 'mafia';
+    }).length;
+  }
+
+  /**
+   * Принять лучший ход
+   * @param userId ID игрока
+   * @param slots Названные слоты
+   * @returns Текст ошибки или null, если ход принят
+   */
+  submitBestMove(userId: string, slots: number[]): string | null {
+    if (userId !== this.victimId) {
+      return 'Лучший ход делает только игрок, убитый в первую ночь';
+    }
+
+    if (this.submitted) {
+      return 'Лучший ход уже сделан';
+    }
+
+    const phase = this.room.gameSessionManager.getPhase();
+    if (phase === 'lobby' || phase === 'game_over') {
+      return 'Лучший ход можно сделать только во время игры';
+    }
+
+    const picks = Array.from(new Set(slots));
+    if (picks.length === 0 || picks.length > BEST_MOVE_MAX_PICKS) {
+      return `Нужно назвать от 1 до ${BEST_MOVE_MAX_PICKS} слотов`;
+    }
+
+    const tableSlots = this.room.roleManager.getAssignments().map(({ slotNumber }) => slotNumber);
+    if (picks.some(slot => slot === this.victimSlot || !tableSlots.includes(slot))) {
+      return 'Можно называть только слоты других игроков за столом';
+    }
+
+    this.picks = picks.sort((a, b) => a - b);
+    this.submitted = true;
+
+    console.log(`Игрок ${userId} сделал лучший ход: ${this.picks.join(', ')}`);
+    this.broadcastBestMoveState();
+
+    return null;
+  }
+
+  /**
+   * Отправить состояние лучшего хода всем клиентам
+   */
+  broadcastBestMoveState(): void {
+    connectionManager.broadcastToRoom(this.room.id, {
+      type: 'best_move_update',
+      bestMove: this.getBestMoveState()
+    });
+  }
+
+  /**
+   * Отправить состояние лучшего хода одному пользователю
+   * @param userId ID пользователя
+   */
+  sendBestMoveStateToUser(userId: string): void {
+    connectionManager.sendToUser(userId, {
+      type: 'best_move_update',
+      bestMove: this.getBestMoveState()
+    });
+  }
+
+  /**
+   * Предложить лучший ход, если игрок убит на рассвете первой ночи
+   * @param userId ID выбывшего игрока
+   */
+  private handleElimination(userId: string): void {
+    if (this.victimId) {
+      return;
+    }
+
+    const record = this.room.playerStateManager.getStatusRecord(userId);
+    if (!record || record.reason !== 'night_shot' || record.round !== FIRST_NIGHT_DAWN_ROUND) {
+      return;
+    }
+
+    this.victimId = userId;
+    this.victimSlot = record.slotNumber;
+
+    console.log(`Игроку ${userId} (слот ${record.slotNumber}) положен лучший ход`);
+    this.broadcastBestMoveState();
+  }
+
+  /**
+   * Подсчитать попадания лучшего хода после раскрытия ролей
+   */
+  private scoreBestMove(): void {
+    this.mafiaHits = this.countMafiaHits();
+    if (this.mafiaHits === null) {
+      return;
+    }
+
+    console.log(`Лучший ход: угадано мафии ${this.mafiaHits} из ${this.picks.length}`);
+    this.broadcastBestMoveState();
+  }
+
+  /**
+   * Сбросить лучший ход перед новой игрой
+   */
+  private resetBestMove(): void {
+    this.victimId = null;
+    this.victimSlot = null;
+    this.picks = [];
+    this.submitted = false;
+    this.mafiaHits = null;
+    this.broadcastBestMoveState();
+  }
+}
+
+/**
+ * Зарегистрировать команды лучшего хода
+ * @param dispatcher Диспетчер команд
+ */
+export function registerBestMoveCommands(dispatcher: CommandDispatcher): void {
+  // Игрок, убитый в первую ночь, называет слоты, которые считает мафией
+  dispatcher.register('submit_best_move', {
+    access: 'player',
+    handle: ({ userId, room, message }) => room.bestMoveManager.submitBestMove(userId, message.slots)
+  });
+  
+  dispatcher.register('get_best_move', {
+    handle: ({ userId, room }) => {
+      room.bestMoveManager.sendBestMoveStateToUser(userId);
+    }
+  });
+}
@@ -1,4 +1,5 @@
-import { globalEvents } from './EventEmitter';
+import type { GameRoom } from './GameRoom';
+import type { CommandDispatcher } from './CommandDispatcher';
 
 /**
  * Менеджер камер - управляет состоянием камер пользователей
@@ -7,7 +8,7 @@ export class CameraManager {
   // Хранилище состояний камер пользователей (userId -> состояние камеры)
   private cameraStates = new Map<string, boolean>();
 
-  constructor() {
+  constructor(private readonly room: GameRoom) {
     console.log('CameraManager: Инициализирован');
   }
 
@@ -35,6 +36,19 @@ export class CameraManager {
   private lastCameraUpdates = new Map<string, number>();
   private readonly updateThreshold = 500; // ms
   
+  // Отложенная рассылка после удаления камер (несколько удалений подряд уходят одним событием)
+  private removalBroadcastTimer: NodeJS.Timeout | null = null;
+  
+  /**
+   * Отменить отложенную рассылку (при закрытии комнаты)
+   */
+  dispose(): void {
+    if (this.removalBroadcastTimer) {
+      clearTimeout(this.removalBroadcastTimer);
+      this.removalBroadcastTimer = null;
+    }
+  }
+
   /**
    * Установить состояние камеры пользователя с защитой от слишком частых обновлений
    * @param userId Идентификатор пользователя
@@ -63,15 +77,8 @@ export class CameraManager {
     
     console.log(`Камера пользователя ${userId} ${isEnabled ? 'включена' : 'выключена'}`);
     
-    // Отправляем только изменение к самому пользователю и его подключениям,
-    // но не к другим клиентам. Информацию о чужой камере пользователь получит только
-    // при переподключении или специальных запросах состояния.
-    // 
-    // Это решает проблему мигания камер при подключении новых пользователей.
-    globalEvents.emit("camera_state_changed_for_" + userId, userId, isEnabled);
-    
-    // Отправляем глобальное событие об изменении состояния всех камер
-    globalEvents.emit("cameras_updated", this.getAllCameraStates());
+    // Отправляем событие об изменении состояния камер (клиенты получат его как изменение состояния стола)
+    this.room.events.emit("cameras_updated", this.getAllCameraStates());
     
     // Логируем состояние для отладки
     console.log('Текущие состояния камер:', JSON.stringify(this.getAllCameraStates()));
@@ -98,14 +105,13 @@ export class CameraManager {
       this.lastCameraUpdates.delete(userId); // Очищаем историю обновлений
       console.log(`Удалена информация о камере пользователя ${userId}`);
       
-      // Отправляем событие только для специфичных подписчиков этого пользователя
-      // Используем специфичный эвент, который не влияет на других пользователей
-      setTimeout(() => {
-        // Отправляем уведомление только для этого пользователя
-        globalEvents.emit("camera_state_changed_for_" + userId, userId, false);
-        
-        // Отправляем глобальное событие об изменении состояния всех камер
-        globalEvents.emit("cameras_updated", this.getAllCameraStates());
+      // Отправляем событие об изменении состояния всех камер
+      if (this.removalBroadcastTimer) {
+        clearTimeout(this.removalBroadcastTimer);
+      }
+      this.removalBroadcastTimer = setTimeout(() => {
+        this.removalBroadcastTimer = null;
+        this.room.events.emit("cameras_updated", this.getAllCameraStates());
       }, 200);
       
       // Логируем состояние для отладки
@@ -127,12 +133,8 @@ export class CameraManager {
       
       console.log(`Инициализировано состояние камеры для нового пользователя ${userId} (включена)`);
       
-      // При инициализации НЕ отправляем уведомление о состоянии камеры всем клиентам
-      // Только сохраняем локальное значение. Обновления для других клиентов будут 
-      // отправлены в registerConnection, когда всем клиентам отправляются текущие состояния
-      
-      // Отправляем глобальное событие об изменении состояния всех камер
-      globalEvents.emit("cameras_updated", this.getAllCameraStates());
+      // Отправляем событие об изменении состояния всех камер
+      this.room.events.emit("cameras_updated", this.getAllCameraStates());
       
       // Логируем состояние для отладки
       console.log('Текущие состояния камер после инициализации:', JSON.stringify(this.getAllCameraStates()));
@@ -154,5 +156,16 @@ export class CameraManager {
   }
 }
 
-// Создаем глобальный экземпляр менеджера камер
-export const cameraManager = new CameraManager();
\ No newline at end of file
+/**
+ * Зарегистрировать команды камер
+ * @param dispatcher Диспетчер команд
+ */
+export function registerCameraCommands(dispatcher: CommandDispatcher): void {
+  // Пользователь включает или выключает камеру (рассылка уйдет через событие cameras_updated)
+  dispatcher.register('camera_state_change', {
+    handle: ({ userId, room, message }) => {
+      room.cameraManager.setCameraState(userId, message.enabled);
+      console.log(`Пользователь ${userId} ${message.enabled ? 'включил' : 'выключил'} камеру`);
+    }
+  });
+}
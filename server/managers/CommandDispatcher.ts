@@ -0,0 +1,236 @@
+import { WebSocket } from 'ws';
+import { ClientMessage, ClientMessageOf, ClientMessageType, ServerMessage, parseClientMessage } from '@shared/protocol';
+import { connectionManager } from './ConnectionManager';
+import { roomManager } from './RoomManager';
+import type { GameRoom } from './GameRoom';
+
+/**
+ * Кто может выполнить команду
+ */
+export type CommandAccess =
+  // Любой участник комнаты
+  | 'member'
+  // Участник за столом или в ожидании слота (зрителям запрещено)
+  | 'player'
+  // Только ведущий
+  | 'host';
+
+/**
+ * Контекст команды зарегистрированного участника
+ */
+export interface CommandContext<T extends ClientMessageType> {
+  userId: string;
+  room: GameRoom;
+  ws: WebSocket;
+  message: ClientMessageOf<T>;
+}
+
+/**
+ * Контекст служебной команды соединения (userId null до регистрации)
+ */
+export interface ConnectionCommandContext<T extends ClientMessageType> {
+  userId: string | null;
+  ws: WebSocket;
+  message: ClientMessageOf<T>;
+}
+
+/**
+ * Обработчик команды участника
+ */
+export interface CommandHandler<T extends ClientMessageType> {
+  // Кто может выполнить команду (по умолчанию - любой участник комнаты)
+  access?: CommandAccess;
+  // Причина отказа, если прав недостаточно (по умолчанию - общая для уровня доступа)
+  deniedMessage?: string;
+  // Выполнить команду; строка - причина неудачи, которую получит отправитель
+  handle(context: CommandContext<T>): string | null | void;
+}
+
+/**
+ * Обработчик в реестре: принимает любое сообщение, а сужает его до своего типа обертка из register
+ */
+type RegisteredHandler =
+  | { kind: 'member'; handler: CommandHandler<ClientMessageType> }
+  | { kind: 'connection'; handle: (context: ConnectionCommandContext<ClientMessageType>) => string | null | void };
+
+// Причины отказа по умолчанию
+const DENIED_MESSAGES: Record<Exclude<CommandAccess, 'member'>, string> = {
+  player: 'Зрители не могут выполнить это действие',
+  host: 'Только ведущий может выполнить это действие'
+};
+
+// Ответ на команду без обработчика
+const UNKNOWN_COMMAND = 'Неизвестная команда';
+
+/**
+ * Проверить, что сообщение имеет тип, для которого зарегистрирован обработчик
+ * @param type Тип сообщения обработчика
+ * @param message Сообщение
+ */
+function isMessageOf<T extends ClientMessageType>(type: T, message: ClientMessage): message is ClientMessageOf<T> {
+  return message.type === type;
+}
+
+/**
+ * Диспетчер команд WebSocket - единственная точка обработки входящих сообщений.
+ * Модули регистрируют обработчики своих команд, а диспетчер проверяет сообщение по протоколу,
+ * права отправителя и единообразно отвечает: operation_failed на отказ, command_ack на выполненную
+ * команду с ID запроса. ID запроса возвращается в ответе, чтобы клиент связал его со своей командой
+ */
+export class CommandDispatcher {
+  // Обработчики команд (тип сообщения -> обработчик)
+  private handlers = new Map<ClientMessageType, RegisteredHandler>();
+
+  constructor() {
+    console.log('CommandDispatcher: Инициализирован');
+  }
+
+  /**
+   * Зарегистрировать команду участника комнаты
+   * @param type Тип сообщения
+   * @param handler Обработчик
+   */
+  register<T extends ClientMessageType>(type: T, handler: CommandHandler<T>): void {
+    this.assertUnregistered(type);
+    this.handlers.set(type, {
+      kind: 'member',
+      handler: {
+        access: handler.access,
+        deniedMessage: handler.deniedMessage,
+        handle: ({ message, ...context }) => isMessageOf(type, message) ? handler.handle({ ...context, message }) : UNKNOWN_COMMAND
+      }
+    });
+  }
+
+  /**
+   * Зарегистрировать служебную команду соединения, доступную и до регистрации пользователя
+   * @param type Тип сообщения
+   * @param handle Обработчик (строка - причина неудачи, которую получит отправитель)
+   */
+  registerConnectionCommand<T extends ClientMessageType>(
+    type: T,
+    handle: (context: ConnectionCommandContext<T>) => string | null | void
+  ): void {
+    this.assertUnregistered(type);
+    this.handlers.set(type, {
+      kind: 'connection',
+      handle: ({ message, ...context }) => isMessageOf(type, message) ? handle({ ...context, message }) : UNKNOWN_COMMAND
+    });
+  }
+
+  /**
+   * Обработать входящее сообщение соединения
+   * @param ws Соединение
+   * @param raw Текст сообщения
+   */
+  dispatch(ws: WebSocket, raw: string): void {
+    const parsed = parseClientMessage(raw);
+    if (!parsed.success) {
+      connectionManager.rejectMessage(ws, parsed.messageType, parsed.issues, parsed.requestId);
+      return;
+    }
+
+    const message = parsed.message;
+    const { type, requestId } = message;
+    const userId = connectionManager.getSocketUser(ws) ?? null;
+    const registered = this.handlers.get(message.type);
+
+    // Любое сообщение зарегистрированного пользователя отмечает его активность
+    if (userId) {
+      connectionManager.markUserActivity(userId);
+    }
+
+    if (!registered) {
+      console.warn(`Нет обработчика для команды ${type}`);
+      this.reply(ws, { type: 'operation_failed', operation: type, requestId, message: UNKNOWN_COMMAND });
+      return;
+    }
+
+    try {
+      if (registered.kind === 'connection') {
+        const error = registered.handle({ userId, ws, message });
+        if (error) {
+          console.log(`Команда ${type} соединения ${userId ?? 'без регистрации'} отклонена: ${error}`);
+          this.reply(ws, { type: 'operation_failed', operation: type, requestId, message: error });
+        } else {
+          this.acknowledge(ws, message);
+        }
+        return;
+      }
+
+      // Остальные команды выполняются только в комнате зарегистрированного пользователя
+      const room = userId ? roomManager.getUserRoom(userId) : undefined;
+      if (!userId || !room) {
+        this.reply(ws, { type: 'operation_failed', operation: type, requestId, message: 'Соединение не зарегистрировано в комнате' });
+        return;
+      }
+
+      const { handler } = registered;
+      const error = this.isAllowed(room, userId, handler.access ?? 'member')
+        ? handler.handle({ userId, room, ws, message })
+        : handler.deniedMessage ?? DENIED_MESSAGES[handler.access as Exclude<CommandAccess, 'member'>];
+
+      if (error) {
+        console.log(`Команда ${type} от ${userId} отклонена: ${error}`);
+        this.reply(ws, { type: 'operation_failed', operation: type, requestId, message: error });
+      } else {
+        this.acknowledge(ws, message);
+      }
+    } catch (error) {
+      console.error(`Ошибка обработки команды ${type} от ${userId ?? 'незарегистрированного соединения'}:`, error);
+      this.reply(ws, { type: 'operation_failed', operation: type, requestId, message: 'Внутренняя ошибка сервера' });
+    }
+  }
+
+  /**
+   * Подтвердить выполнение команды, если клиент ждет ответа на запрос
+   * @param ws Соединение
+   * @param message Выполненная команда
+   */
+  private acknowledge(ws: WebSocket, message: ClientMessage): void {
+    if (message.requestId) {
+      this.reply(ws, { type: 'command_ack', operation: message.type, requestId: message.requestId });
+    }
+  }
+
+  /**
+   * Проверить права пользователя на команду
+   * @param room Комната пользователя
+   * @param userId ID пользователя
+   * @param access Требуемый уровень доступа
+   */
+  private isAllowed(room: GameRoom, userId: string, access: CommandAccess): boolean {
+    switch (access) {
+      case 'host':
+        return room.slotManager.isUserHost(userId);
+      case 'player':
+        return !room.slotManager.isUserSpectator(userId);
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * Ответить в конкретное соединение (отправитель может быть еще не зарегистрирован)
+   * @param ws Соединение
+   * @param message Сообщение
+   */
+  private reply(ws: WebSocket, message: ServerMessage): void {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message));
+    }
+  }
+
+  /**
+   * Не допустить двух обработчиков одной команды
+   * @param type Тип сообщения
+   */
+  private assertUnregistered(type: ClientMessageType): void {
+    if (this.handlers.has(type)) {
+      throw new Error(`Обработчик команды ${type} уже зарегистрирован`);
+    }
+  }
+}
+
+// Создаем глобальный экземпляр диспетчера команд
+export const commandDispatcher = new CommandDispatcher();
@@ -0,0 +1,127 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { WebSocket } from 'ws';
+import { DEFAULT_ROOM_ID } from '@shared/schema';
+import { ServerMessage } from '@shared/protocol';
+import { connectionManager, registerConnectionCommands } from './ConnectionManager';
+import { commandDispatcher } from './CommandDispatcher';
+import { sessionManager } from './SessionManager';
+import { roomManager } from './RoomManager';
+import type { GameRoom } from './GameRoom';
+
+const HOST_ID = 'Host-tick';
+const PLAYER_IDS = Array.from({ length: 9 }, (_, index) => `player-${index + 1}`);
+
+// Сообщения, полученные каждым участником
+const received = new Map<string, ServerMessage[]>();
+
+/**
+ * Подключить участника через команду register, как это делает клиент
+ */
+function connect(userId: string, role: 'host' | 'player'): void {
+  const messages: ServerMessage[] = [];
+  received.set(userId, messages);
+  // Только члены сокета, которыми пользуется сервер: новый член сломает тест при проверке типов
+  const socket: Pick<WebSocket, 'readyState' | 'send' | 'on' | 'close'> = {
+    readyState: 1,
+    send: (data: string) => messages.push(JSON.parse(data)),
+    on: () => ws,
+    close: () => {}
+  };
+  const ws = socket as unknown as WebSocket;
+
+  commandDispatcher.dispatch(ws, JSON.stringify({
+    type: 'register',
+    userId,
+    session: sessionManager.issueSession(userId, DEFAULT_ROOM_ID, role)
+  }));
+}
+
+const messagesOf = <T extends ServerMessage['type']>(userId: string, type: T) =>
+  (received.get(userId) || []).filter((message): message is Extract<ServerMessage, { type: T }> => message.type === type);
+
+describe('ConnectionManager: рассылка обновлений комнаты по такту', () => {
+  let room: GameRoom;
+
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    registerConnectionCommands(commandDispatcher);
+
+    connect(HOST_ID, 'host');
+    PLAYER_IDS.forEach(userId => connect(userId, 'player'));
+    room = roomManager.getRoom(DEFAULT_ROOM_ID)!;
+
+    // Доводим игру до голосования между слотами 1 и 2
+    for (const phase of ['role_dealing', 'acquaintance_night', 'day_discussion', 'nominations'] as const) {
+      expect(room.gameSessionManager.changePhase(HOST_ID, phase)).toBe(true);
+    }
+    expect(room.votingManager.nominate(HOST_ID, 1)).toBeNull();
+    expect(room.votingManager.nominate(HOST_ID, 2)).toBeNull();
+    expect(room.gameSessionManager.changePhase(HOST_ID, 'voting')).toBe(true);
+    connectionManager.flushRoomUpdates(DEFAULT_ROOM_ID);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('объединяет слоты, камеры и голоса за один такт в одно изменение и одно голосование', () => {
+    // Камеры только что подключенных участников защищены от частых обновлений - уходим за этот порог
+    vi.useFakeTimers({ now: Date.now() + 1000 });
+    connectionManager.resetRoomThroughput(DEFAULT_ROOM_ID);
+    received.forEach(messages => messages.splice(0));
+    const version = room.roomStateManager.getVersion();
+
+    // Всплеск изменений внутри одного такта
+    expect(room.slotManager.moveUserToSlot(HOST_ID, 'player-9', 10)).toBe(true);
+    expect(room.slotManager.moveUserToSlot(HOST_ID, 'player-9', 11)).toBe(true);
+    room.cameraManager.setCameraState('player-1', false);
+    room.cameraManager.setCameraState('player-2', false);
+    room.cameraManager.setCameraState('player-3', false);
+    expect(room.votingManager.castVote('player-3', 1)).toBeNull();
+    expect(room.votingManager.castVote('player-4', 2)).toBeNull();
+    expect(room.votingManager.castVote('player-5', 1)).toBeNull();
+
+    // До конца такта никто ничего не получил
+    expect(messagesOf('player-1', 'room_state_delta')).toHaveLength(0);
+    expect(messagesOf('player-1', 'voting_update')).toHaveLength(0);
+
+    vi.advanceTimersByTime(50);
+
+    const deltas = messagesOf('player-1', 'room_state_delta');
+    expect(deltas).toHaveLength(1);
+    expect(deltas[0].version).toBe(version + 1);
+    expect(deltas[0].delta.slots?.find(slot => slot.slotNumber === 11)?.userId).toBe('player-9');
+    expect(deltas[0].delta.cameraStates).toEqual({ 'player-1': false, 'player-2': false, 'player-3': false });
+
+    const votingUpdates = messagesOf('player-1', 'voting_update');
+    expect(votingUpdates).toHaveLength(1);
+    expect(votingUpdates[0].voting.votes).toEqual({ 3: 1, 4: 2, 5: 1 });
+
+    const stats = connectionManager.getRoomThroughput(DEFAULT_ROOM_ID);
+    const connectedCount = PLAYER_IDS.length + 1;
+    expect(stats.flushes).toBe(1);
+    expect(stats.coalesced).toBe(stats.queued - 2);
+    expect(stats.broadcasts).toBe(2);
+    expect(stats.frames).toBe(2 * connectedCount);
+  });
+
+  it('перед срочным сообщением рассылает ожидающие обновления', () => {
+    vi.useFakeTimers();
+    connectionManager.resetRoomThroughput(DEFAULT_ROOM_ID);
+    received.forEach(messages => messages.splice(0));
+
+    expect(room.votingManager.castVote('player-6', 2)).toBeNull();
+    connectionManager.broadcastToRoom(DEFAULT_ROOM_ID, {
+      type: 'speech_timer_update',
+      timer: room.speechTimerManager.getTimerState()
+    });
+
+    expect((received.get('player-1') || []).map(message => message.type)).toEqual(['voting_update', 'speech_timer_update']);
+
+    // Такт уже нечего рассылать
+    vi.advanceTimersByTime(50);
+    expect(messagesOf('player-1', 'voting_update')).toHaveLength(1);
+    expect(connectionManager.getRoomThroughput(DEFAULT_ROOM_ID)).toMatchObject({ queued: 1, coalesced: 0, flushes: 1, broadcasts: 2 });
+  });
+});
@@ -1,20 +1,34 @@
 import { WebSocket } from 'ws';
+import { roomManager } from './RoomManager';
+import { inviteManager } from './InviteManager';
 import { globalEvents } from './EventEmitter';
-import { slotManager } from './SlotManager';
-import { cameraManager } from './CameraManager';
-import { playerStateManager } from './PlayerStateManager';
-import { SlotInfo, PlayerStates } from '../../shared/schema';
+import { sessionManager } from './SessionManager';
+import type { GameRoom } from './GameRoom';
+import type { CommandDispatcher } from './CommandDispatcher';
+import { SessionRole } from '../../shared/schema';
+import { ServerMessage } from '../../shared/protocol';
 
 /**
- * Тип сообщения WebSocket
+ * Обновление комнаты, ожидающее такта рассылки. Сообщение собирается в момент отправки,
+ * поэтому все изменения за такт уходят одним сообщением с последним состоянием
+ * (null - отправлять нечего)
  */
-export interface WebSocketMessage {
-  type: string;
-  // Общие параметры для всех сообщений
-  [key: string]: any;
-  
-  // Перемешивание пользователей (shuffle_users)
-  // userId - автоматически добавляется
+export type RoomUpdateBuilder = () => ServerMessage | null;
+
+/**
+ * Счетчики исходящих сообщений комнаты
+ */
+export interface RoomThroughputStats {
+  // Обновлений поставлено в очередь такта
+  queued: number;
+  // Обновлений, поглощенных более поздним обновлением с тем же ключом
+  coalesced: number;
+  // Тактов, в которые комнате что-то разослано
+  flushes: number;
+  // Сообщений, разосланных комнате (по такту и срочных)
+  broadcasts: number;
+  // Отправок в соединения (каждое сообщение на каждое соединение участника)
+  frames: number;
 }
 
 /**
@@ -24,6 +38,9 @@ export class ConnectionManager {
   // Карта подключений (userId -> массив WebSocket)
   private connections = new Map<string, WebSocket[]>();
   
+  // Владелец каждого зарегистрированного соединения (WebSocket -> userId)
+  private socketUsers = new WeakMap<WebSocket, string>();
+  
   // Таймеры проверки активности для каждого пользователя
   private activityCheckers = new Map<string, NodeJS.Timeout>();
   
@@ -45,9 +62,33 @@ export class ConnectionManager {
   // Таймер для сброса режима повышенной пульсации
   private enhancedPulseModeTimer: NodeJS.Timeout | null = null;
   
+  // Места отключившихся пользователей, придержанные до их возвращения (userId -> таймер освобождения)
+  private heldSeats = new Map<string, NodeJS.Timeout>();
+  
+  // Сколько придерживается место после обрыва соединения (1 минута - хватает на перезагрузку страницы)
+  private readonly resumeGracePeriod = 60000;
+  
+  // Обновления комнат, ожидающие такта (ID комнаты -> ключ обновления -> сборщик сообщения)
+  private pendingRoomUpdates = new Map<string, Map<string, RoomUpdateBuilder>>();
+  
+  // Таймеры ближайшего такта комнат, в которых есть ожидающие обновления
+  private roomFlushTimers = new Map<string, NodeJS.Timeout>();
+  
+  // Такт рассылки обновлений комнаты (50 мс - не больше 20 сообщений каждого вида в секунду)
+  private readonly broadcastTick = 50;
+  
+  // Счетчики исходящих сообщений комнат
+  private roomThroughput = new Map<string, RoomThroughputStats>();
+  
   constructor() {
     console.log('ConnectionManager: Инициализирован');
     
+    // Закрытой комнате рассылать больше некому
+    globalEvents.on('room_closed', (roomId: string) => {
+      this.cancelRoomUpdates(roomId);
+      this.roomThroughput.delete(roomId);
+    });
+    
     // Настраиваем периодическую отправку пингов с адаптивным интервалом
     const startPulseMonitoring = () => {
       const interval = this.enhancedPulseModeActive ? 1500 : this.pingInterval;
@@ -64,7 +105,7 @@ export class ConnectionManager {
     setInterval(() => {
       const userCount = this.getUserCount();
       const connectionCount = this.getConnectionCount();
-      const slotCount = slotManager.getOccupiedSlotsCount();
+      const slotCount = roomManager.getRooms().reduce((count, room) => count + room.slotManager.getOccupiedSlotsCount(), 0);
       
       // Если количество соединений значительно больше количества пользователей, это может указывать на проблемы
       if (connectionCount > userCount * 3) {
@@ -95,7 +136,7 @@ export class ConnectionManager {
         }
       }
       
-      console.log(`Активные пользователи: ${userCount}, соединения: ${connectionCount}, активные слоты: ${slotCount}`);
+      console.log(`Активные пользователи: ${userCount}, соединения: ${connectionCount}, комнаты: ${roomManager.getRooms().length}, активные слоты: ${slotCount}`);
     }, 10000);
   }
   
@@ -103,11 +144,42 @@ export class ConnectionManager {
    * Зарегистрировать новое WebSocket соединение
    * @param userId Идентификатор пользователя
    * @param ws WebSocket соединение
+   * @param roomId ID комнаты, в которую входит пользователь
+   * @param role Роль из удостоверения пользователя (без удостоверения - игрок)
+   * @param accountId Учетная запись из удостоверения (null - гость)
    */
-  registerConnection(userId: string, ws: WebSocket): void {
+  registerConnection(userId: string, ws: WebSocket, roomId: string, role: SessionRole = 'player', accountId: number | null = null): GameRoom {
+    // Вернувшийся пользователь снова занимает придержанное место со слотом, камерой и состоянием игрока;
+    // если он пришел в другую комнату, прежнее место освобождается
+    if (this.cancelSeatHold(userId)) {
+      if (roomManager.getUserRoom(userId)?.id === roomId) {
+        console.log(`Пользователь ${userId} вернулся на придержанное место в комнате ${roomId}`);
+      } else {
+        this.releaseUserResources(userId);
+      }
+    }
+    
     // Проверка на уже существующие соединения этого пользователя
     const isFirstConnection = !this.connections.has(userId);
     
+    // Комната определяется первым соединением, остальные вкладки пользователя попадают в ту же комнату
+    let room = roomManager.getUserRoom(userId);
+    if (!room || isFirstConnection) {
+      room = roomManager.joinRoom(userId, roomId);
+    } else if (room.id !== roomId) {
+      console.warn(`Пользователь ${userId} уже находится в комнате ${room.id}, запрос комнаты ${roomId} проигнорирован`);
+    }
+    
+    // Права пользователя определяются ролью из удостоверения, а не префиксом идентификатора;
+    // роль и учетная запись уже подключенного пользователя не меняются
+    if (!this.isUserConnected(userId)) {
+      room.slotManager.bindUserRole(userId, role);
+      room.slotManager.bindUserAccount(userId, accountId);
+    }
+    
+    // Запоминаем владельца соединения для диспетчера команд
+    this.socketUsers.set(ws, userId);
+    
     // Получаем текущий массив соединений или создаем новый
     const connections = this.connections.get(userId) || [];
     
@@ -120,12 +192,12 @@ export class ConnectionManager {
     // Если это первое соединение пользователя, проверяем наличие состояния камеры
     if (isFirstConnection) {
       // Проверяем, есть ли уже состояние камеры для этого пользователя
-      const currentCameraState = cameraManager.getCameraState(userId);
+      const currentCameraState = room.cameraManager.getCameraState(userId);
       
       // Инициализируем состояние камеры только если его еще нет
       if (currentCameraState === undefined) {
         console.log(`Инициализируем новое состояние камеры для пользователя ${userId}`);
-        cameraManager.initializeUserCamera(userId);
+        room.cameraManager.initializeUserCamera(userId);
       } else {
         console.log(`Сохраняем существующее состояние камеры для ${userId}: ${currentCameraState}`);
       }
@@ -142,47 +214,70 @@ export class ConnectionManager {
     
     console.log(`Зарегистрировано новое соединение для ${userId} (всего соединений: ${connections.length})`);
     
-    // Сразу после подключения отправляем клиенту текущее состояние слотов и камер
+    // Сразу после подключения отправляем клиенту текущее состояние комнаты
     try {
-      const currentSlots = slotManager.getAllSlotAssignments();
-      const currentCameraStates = cameraManager.getAllCameraStates();
-      
       if (ws.readyState === WebSocket.OPEN) {
-        // Отправляем информацию о слотах
+        // Отправляем полный снимок состояния стола (слоты, камеры, состояния игроков);
+        // дальнейшие изменения придут с версиями, следующими за версией снимка
+        ws.send(JSON.stringify(room.roomStateManager.getSnapshotMessage()));
+        
+        // Отправляем текущую фазу игры
         ws.send(JSON.stringify({
-          type: 'slots_update',
-          slots: currentSlots
+          type: 'game_phase_update',
+          session: room.gameSessionManager.getSessionState()
         }));
         
-        // Отправляем индивидуальные обновления только для ДРУГИХ камер, кроме своей
-        // Это предотвращает перезапись собственного состояния камеры при подключении
-        Object.entries(currentCameraStates).forEach(([cameraUserId, isEnabled]) => {
-          // Проверяем, не является ли это камерой самого подключающегося пользователя
-          if (cameraUserId !== userId) {
-            ws.send(JSON.stringify({
-              type: 'individual_camera_update',
-              userId: cameraUserId,
-              enabled: isEnabled
-            }));
-            console.log(`Отправлено индивидуальное обновление состояния ЧУЖОЙ камеры для ${cameraUserId} (${isEnabled}) клиенту ${userId}`);
-          } else {
-            console.log(`Пропускаем отправку состояния СВОЕЙ камеры для ${cameraUserId} клиенту ${userId}`);
-          }
+        // Если роли уже розданы, повторно отправляем пользователю только то, что ему положено знать
+        if (room.roleManager.hasRoles()) {
+          room.roleManager.sendRoleInfoToUser(userId);
+        }
+        
+        // Отправляем текущее состояние голосования
+        ws.send(JSON.stringify({
+          type: 'voting_update',
+          voting: room.votingManager.getVotingState()
+        }));
+        
+        // Отправляем текущее состояние таймера речи
+        ws.send(JSON.stringify({
+          type: 'speech_timer_update',
+          timer: room.speechTimerManager.getTimerState()
+        }));
+        
+        // Отправляем текущее состояние лучшего хода
+        ws.send(JSON.stringify({
+          type: 'best_move_update',
+          bestMove: room.bestMoveManager.getBestMoveState()
+        }));
+        
+        // Отправляем итоговую таблицу последней игры
+        ws.send(JSON.stringify({
+          type: 'score_update',
+          sheet: room.scoringManager.getScoreSheet()
+        }));
+        
+        // Повторяем имена, назначенные ведущим
+        room.slotManager.getDisplayNames().forEach((displayName, namedUserId) => {
+          ws.send(JSON.stringify({
+            type: 'display_name_update',
+            userId: namedUserId,
+            displayName
+          }));
         });
         
-        // Отправляем текущие состояния игроков (убит/жив)
-        const playerStates = playerStateManager.getPlayerStates();
+        // Сообщаем, закрыта ли комната паролем
         ws.send(JSON.stringify({
-          type: 'player_states_update',
-          playerStates
+          type: 'room_password_update',
+          passwordProtected: inviteManager.isPasswordProtected(room.id)
         }));
-        console.log(`Отправлено состояние игроков (убитые/живые) клиенту ${userId}`);
         
-        console.log(`Отправлено первоначальное состояние клиенту ${userId}: ${currentSlots.length} слотов`);
+        console.log(`Отправлено первоначальное состояние клиенту ${userId}: версия стола ${room.roomStateManager.getVersion()}`);
       }
     } catch (error) {
       console.error(`Ошибка отправки начального состояния пользователю ${userId}:`, error);
     }
+    
+    return room;
   }
   
   /**
@@ -190,7 +285,7 @@ export class ConnectionManager {
    * @param userId Идентификатор пользователя
    * @param message Сообщение для отправки
    */
-  sendToUser(userId: string, message: WebSocketMessage): boolean {
+  sendToUser(userId: string, message: ServerMessage): boolean {
     const connections = this.connections.get(userId);
     
     if (!connections || connections.length === 0) {
@@ -219,7 +314,7 @@ export class ConnectionManager {
    * Отправить сообщение всем подключенным пользователям
    * @param message Сообщение для рассылки
    */
-  broadcastToAll(message: WebSocketMessage): void {
+  broadcastToAll(message: ServerMessage): void {
     const messageStr = JSON.stringify(message);
     
     this.connections.forEach((connections, userId) => {
@@ -235,6 +330,165 @@ export class ConnectionManager {
     });
   }
   
+  /**
+   * Срочно отправить сообщение всем пользователям комнаты (таймеры, результаты, ответы ведущему).
+   * Ожидающие такта обновления комнаты уходят перед ним, чтобы клиенты получили все по порядку
+   * @param roomId ID комнаты
+   * @param message Сообщение для рассылки
+   */
+  broadcastToRoom(roomId: string, message: ServerMessage): void {
+    this.flushRoomUpdates(roomId);
+    this.sendToRoom(roomId, message);
+  }
+  
+  /**
+   * Поставить обновление комнаты в очередь ближайшего такта.
+   * Обновление с тем же ключом, еще не разосланное, заменяется новым
+   * @param roomId ID комнаты
+   * @param key Ключ обновления (обычно тип сообщения)
+   * @param build Сборщик сообщения, вызываемый в момент рассылки
+   */
+  queueRoomUpdate(roomId: string, key: string, build: RoomUpdateBuilder): void {
+    const stats = this.getThroughputCounters(roomId);
+    let pending = this.pendingRoomUpdates.get(roomId);
+    if (!pending) {
+      pending = new Map();
+      this.pendingRoomUpdates.set(roomId, pending);
+    }
+    
+    stats.queued += 1;
+    if (pending.has(key)) {
+      stats.coalesced += 1;
+    }
+    pending.set(key, build);
+    
+    if (!this.roomFlushTimers.has(roomId)) {
+      this.roomFlushTimers.set(roomId, setTimeout(() => this.flushRoomUpdates(roomId), this.broadcastTick));
+    }
+  }
+  
+  /**
+   * Разослать ожидающие обновления комнаты, не дожидаясь такта
+   * @param roomId ID комнаты
+   */
+  flushRoomUpdates(roomId: string): void {
+    const pending = this.pendingRoomUpdates.get(roomId);
+    this.cancelRoomUpdates(roomId);
+    
+    if (!pending || pending.size === 0) {
+      return;
+    }
+    
+    this.getThroughputCounters(roomId).flushes += 1;
+    pending.forEach((build, key) => {
+      try {
+        const message = build();
+        if (message) {
+          this.sendToRoom(roomId, message);
+        }
+      } catch (error) {
+        console.error(`Ошибка сборки обновления ${key} комнаты ${roomId}:`, error);
+      }
+    });
+  }
+  
+  /**
+   * Получить счетчики исходящих сообщений комнаты
+   * @param roomId ID комнаты
+   */
+  getRoomThroughput(roomId: string): RoomThroughputStats {
+    return { ...this.getThroughputCounters(roomId) };
+  }
+  
+  /**
+   * Обнулить счетчики исходящих сообщений комнаты
+   * @param roomId ID комнаты
+   */
+  resetRoomThroughput(roomId: string): void {
+    this.roomThroughput.delete(roomId);
+  }
+  
+  /**
+   * Отправить сообщение всем соединениям участников комнаты
+   * @param roomId ID комнаты
+   * @param message Сообщение для рассылки
+   */
+  private sendToRoom(roomId: string, message: ServerMessage): void {
+    const stats = this.getThroughputCounters(roomId);
+    const messageStr = JSON.stringify(message);
+    
+    stats.broadcasts += 1;
+    roomManager.getRoomUserIds(roomId).forEach(userId => {
+      for (const ws of this.connections.get(userId) || []) {
+        if (ws.readyState === WebSocket.OPEN) {
+          try {
+            ws.send(messageStr);
+            stats.frames += 1;
+          } catch (error) {
+            console.error(`Ошибка отправки сообщения пользователю ${userId}:`, error);
+          }
+        }
+      }
+    });
+  }
+  
+  /**
+   * Снять такт комнаты и отбросить ее ожидающие обновления
+   * @param roomId ID комнаты
+   */
+  private cancelRoomUpdates(roomId: string): void {
+    const timer = this.roomFlushTimers.get(roomId);
+    if (timer) {
+      clearTimeout(timer);
+      this.roomFlushTimers.delete(roomId);
+    }
+    this.pendingRoomUpdates.delete(roomId);
+  }
+  
+  /**
+   * Получить (или завести) счетчики исходящих сообщений комнаты
+   * @param roomId ID комнаты
+   */
+  private getThroughputCounters(roomId: string): RoomThroughputStats {
+    let stats = this.roomThroughput.get(roomId);
+    if (!stats) {
+      stats = { queued: 0, coalesced: 0, flushes: 0, broadcasts: 0, frames: 0 };
+      this.roomThroughput.set(roomId, stats);
+    }
+    return stats;
+  }
+  
+  /**
+   * Получить пользователя, зарегистрировавшего соединение
+   * @param ws WebSocket соединение
+   * @returns ID пользователя или undefined, если соединение еще не зарегистрировано
+   */
+  getSocketUser(ws: WebSocket): string | undefined {
+    return this.socketUsers.get(ws);
+  }
+  
+  /**
+   * Отклонить сообщение, не прошедшее проверку протокола
+   * @param ws Соединение, с которого пришло сообщение
+   * @param messageType Тип отклоненного сообщения (null, если его не удалось прочитать)
+   * @param issues Описание ошибок проверки
+   * @param requestId ID запроса, если его удалось прочитать
+   */
+  rejectMessage(ws: WebSocket, messageType: string | null, issues: string[], requestId?: string): void {
+    console.warn(`Отклонено некорректное сообщение ${messageType ?? '(без типа)'}: ${issues.join('; ')}`);
+    
+    if (ws.readyState === WebSocket.OPEN) {
+      const reply: ServerMessage = {
+        type: 'invalid_message',
+        messageType,
+        requestId,
+        message: 'Некорректное сообщение',
+        issues
+      };
+      ws.send(JSON.stringify(reply));
+    }
+  }
+  
   /**
    * Отметить активность пользователя (сбросить таймер неактивности)
    * @param userId Идентификатор пользователя
@@ -311,26 +565,9 @@ export class ConnectionManager {
     // Проверяем, остались ли соединения для этого пользователя
     const remainingConnections = this.connections.get(userId);
     
-    // Если соединений больше нет, освобождаем ресурсы
+    // Если соединений больше нет, придерживаем место до возвращения пользователя
     if (!remainingConnections || remainingConnections.length === 0) {
-      // Удаляем таймер проверки активности
-      const checker = this.activityCheckers.get(userId);
-      if (checker) {
-        clearInterval(checker);
-        this.activityCheckers.delete(userId);
-      }
-      
-      // Удаляем информацию об активности
-      this.lastActivityTime.delete(userId);
-      
-      // Удаляем информацию о состоянии камеры
-      cameraManager.removeCameraState(userId);
-      
-      // Очищаем информацию о состоянии игрока (убит/жив)
-      playerStateManager.clearPlayerState(userId);
-      
-      // Освобождаем слот
-      slotManager.releaseUserSlot(userId);
+      this.holdUserSeat(userId);
       
       console.log(`Полностью отключен пользователь ${userId}`);
       
@@ -340,226 +577,93 @@ export class ConnectionManager {
   }
   
   /**
-   * Обработать входящее сообщение
+   * Придержать место пользователя, у которого не осталось соединений: слот, камера, состояние игрока
+   * и роль сохраняются на льготный период, по его истечении ресурсы освобождаются
    * @param userId Идентификатор пользователя
-   * @param data Данные сообщения
    */
-  handleMessage(userId: string, data: WebSocketMessage): void {
-    // Отмечаем активность пользователя при любом сообщении
-    this.markUserActivity(userId);
+  private holdUserSeat(userId: string): void {
+    this.stopActivityTracking(userId);
     
-    // Обрабатываем служебные сообщения для проверки соединения
-    if (data.type === '_heartbeat') {
-      // Отправляем ответ на heartbeat без логирования
-      this.sendToUser(userId, { type: '_heartbeat_response' });
+    if (!roomManager.getUserRoom(userId)) {
       return;
     }
     
-    // Обработка различных типов сообщений
-    switch (data.type) {
-      case 'register':
-        // Пользователь переопределяет свой идентификатор
-        if (data.userId && data.userId !== userId) {
-          console.log(`Обновлен идентификатор пользователя с ${userId} на ${data.userId}`);
-          
-          // Переносим данные на новый идентификатор
-          const currentSlot = slotManager.getUserSlot(userId);
-          const cameraState = cameraManager.getCameraState(userId);
-          
-          if (currentSlot) {
-            // Освобождаем слот для старого ID и назначаем для нового
-            console.log(`Переназначение слота ${currentSlot} с ${userId} на ${data.userId}`);
-            slotManager.releaseUserSlot(userId);
-            slotManager.assignSlot(data.userId, currentSlot);
-          } else {
-            // Если не было слота, пытаемся назначить новый
-            console.log(`Назначение нового слота для ${data.userId}`);
-            slotManager.assignFirstAvailableSlot(data.userId);
-          }
-          
-          // Переносим состояние камеры, но не меняем состояние других камер
-          if (cameraState !== undefined) {
-            console.log(`Перенос состояния камеры для ${data.userId}: ${cameraState}`);
-            // Избегаем глобального обновления при установке состояния камеры
-            // Напрямую устанавливаем значение в маппинге CameraManager
-            cameraManager['cameraStates'].set(data.userId, cameraState);
-            
-            // Используем новые изолированные события для пользователя
-            globalEvents.emit("camera_state_changed_for_" + data.userId, data.userId, cameraState);
-          } else {
-            // Проверяем, есть ли уже состояние камеры для нового идентификатора
-            const existingNewState = cameraManager.getCameraState(data.userId);
-            
-            if (existingNewState === undefined) {
-              console.log(`Инициализируем новое состояние камеры для пользователя ${data.userId}`);
-              cameraManager.initializeUserCamera(data.userId);
-            } else {
-              console.log(`Сохраняем существующее состояние камеры для ${data.userId}: ${existingNewState}`);
-            }
-          }
-          
-          // Отправляем обновленное состояние всем пользователям - только слоты
-          const currentSlots = slotManager.getAllSlotAssignments();
-          
-          this.broadcastToAll({
-            type: 'slots_update',
-            slots: currentSlots
-          });
-          
-          // Отправляем состояние камер только если жестко необходимо (не здесь)
-        }
-        break;
-        
-      case 'select_slot':
-        // Пользователь выбирает слот
-        if (data.slotNumber !== undefined) {
-          const slotNumber = Number(data.slotNumber);
-          const success = slotManager.assignSlot(userId, slotNumber);
-          
-          // Отправляем уведомление только если слот занят
-          if (!success) {
-            this.sendToUser(userId, {
-              type: 'slot_busy',
-              slotNumber
-            });
-          }
-        }
-        break;
-        
-      case 'release_slot':
-        // Пользователь освобождает слот
-        slotManager.releaseUserSlot(userId);
-        break;
-        
-      case 'camera_state_change':
-        // Изменение состояния камеры
-        if (data.enabled !== undefined) {
-          const isEnabled = Boolean(data.enabled);
-          cameraManager.setCameraState(userId, isEnabled);
-        }
-        break;
-        
-      case 'pong':
-        // Пользователь отвечает на ping
-        // Активность уже отмечена в начале метода
-        break;
+    this.cancelSeatHold(userId);
+    this.heldSeats.set(userId, setTimeout(() => {
+      this.heldSeats.delete(userId);
+      console.log(`Пользователь ${userId} не вернулся за ${this.resumeGracePeriod / 1000} секунд, место освобождено`);
+      this.releaseUserResources(userId);
+    }, this.resumeGracePeriod));
+    
+    console.log(`Место пользователя ${userId} придержано на ${this.resumeGracePeriod / 1000} секунд`);
+  }
+  
+  /**
+   * Отменить освобождение придержанного места
+   * @param userId Идентификатор пользователя
+   * @returns true, если место пользователя было придержано
+   */
+  private cancelSeatHold(userId: string): boolean {
+    const timer = this.heldSeats.get(userId);
+    if (!timer) {
+      return false;
+    }
+    
+    clearTimeout(timer);
+    this.heldSeats.delete(userId);
+    return true;
+  }
+  
+  /**
+   * Проверить, придержано ли место отключившегося пользователя
+   * @param userId Идентификатор пользователя
+   */
+  isSeatHeld(userId: string): boolean {
+    return this.heldSeats.has(userId);
+  }
+  
+  /**
+   * Остановить проверку активности пользователя без соединений
+   * @param userId Идентификатор пользователя
+   */
+  private stopActivityTracking(userId: string): void {
+    // Удаляем таймер проверки активности
+    const checker = this.activityCheckers.get(userId);
+    if (checker) {
+      clearInterval(checker);
+      this.activityCheckers.delete(userId);
+    }
+    
+    // Удаляем информацию об активности
+    this.lastActivityTime.delete(userId);
+  }
+  
+  /**
+   * Освободить ресурсы пользователя без соединений: таймеры, камеру, состояние и слот в его комнате
+   * @param userId Идентификатор пользователя
+   */
+  private releaseUserResources(userId: string): void {
+    this.cancelSeatHold(userId);
+    this.stopActivityTracking(userId);
+    
+    const room = roomManager.getUserRoom(userId);
+    if (room) {
+      // Удаляем информацию о состоянии камеры
+      room.cameraManager.removeCameraState(userId);
       
-      case 'kill_player':
-        // Пользователь (ведущий) отмечает игрока как убитого
-        if (data.targetUserId) {
-          const success = playerStateManager.markPlayerAsKilled(userId, data.targetUserId);
-          if (!success) {
-            this.sendToUser(userId, {
-              type: 'operation_failed',
-              operation: 'kill_player',
-              message: 'Только ведущий может отмечать игроков как убитых'
-            });
-          }
-        }
-        break;
-        
-      case 'revive_player':
-        // Пользователь (ведущий) отмечает игрока как живого
-        if (data.targetUserId) {
-          const success = playerStateManager.markPlayerAsAlive(userId, data.targetUserId);
-          if (!success) {
-            this.sendToUser(userId, {
-              type: 'operation_failed',
-              operation: 'revive_player',
-              message: 'Только ведущий может отмечать игроков как живых'
-            });
-          }
-        }
-        break;
-        
-      case 'reset_player_states':
-        // Пользователь (ведущий) сбрасывает все состояния игроков
-        const success = playerStateManager.resetAllPlayerStates(userId);
-        if (!success) {
-          this.sendToUser(userId, {
-            type: 'operation_failed',
-            operation: 'reset_player_states',
-            message: 'Только ведущий может сбрасывать состояния игроков'
-          });
-        }
-        break;
-        
-      case 'shuffle_users':
-        // Перемешивание пользователей по слотам (только для ведущего)
-        console.log(`Пользователь ${userId} запросил перемешивание пользователей`);
-        const shuffleSuccess = slotManager.shuffleAllUsers(userId);
-        
-        if (shuffleSuccess) {
-          console.log(`Пользователи успешно перемешаны администратором ${userId}`);
-        } else {
-          console.log(`Ошибка при перемешивании: пользователь ${userId} не имеет прав ведущего`);
-          // Оповещаем пользователя об ошибке (опционально)
-          this.sendToUser(userId, {
-            type: 'error',
-            message: 'Только ведущий может перемешивать пользователей'
-          });
-        }
-        break;
-        
-      case 'rename_user':
-        // Пользователь (ведущий) изменяет имя другого пользователя для отображения
-        // Проверяем, что текущий пользователь - ведущий (слот 12)
-        const isHostSlot = slotManager.getUserSlot(userId) === 12;
-        
-        if (isHostSlot && data.targetUserId && data.newName) {
-          console.log(`Ведущий ${userId} изменяет имя пользователя ${data.targetUserId} на ${data.newName}`);
-          
-          // Проверяем, что targetUserId существует в слотах
-          const targetSlot = slotManager.getUserSlot(data.targetUserId);
-          if (!targetSlot) {
-            console.log(`Пользователь ${data.targetUserId} не найден в слотах`);
-            this.sendToUser(userId, {
-              type: 'operation_failed',
-              operation: 'rename_user',
-              message: 'Пользователь не найден'
-            });
-            break;
-          }
-          
-          // Вместо создания нового ID и переназначения слотов,
-          // просто рассылаем всем клиентам уведомление о новом отображаемом имени
-          // и продолжаем использовать тот же ID пользователя для всей внутренней логики
-          
-          // Отправляем broadcast о новом отображаемом имени
-          this.broadcastToAll({
-            type: 'display_name_update',
-            userId: data.targetUserId,
-            displayName: data.newName
-          });
-          
-          console.log(`Имя пользователя ${data.targetUserId} изменено на ${data.newName} (только отображение)`);
-          
-          // Отправляем уведомление об успехе
-          this.sendToUser(userId, {
-            type: 'rename_success',
-            userId: data.targetUserId,
-            displayName: data.newName
-          });
-        } else {
-          // Если пользователь не ведущий или не указано имя/целевой пользователь
-          this.sendToUser(userId, {
-            type: 'operation_failed',
-            operation: 'rename_user',
-            message: 'Только ведущий может изменять имена участников'
-          });
-        }
-        break;
-        
-      case 'get_player_states':
-        // Запрос текущих состояний игроков
-        console.log(`Пользователь ${userId} запросил текущие состояния игроков`);
-        // Отправляем состояния конкретному пользователю
-        playerStateManager.sendPlayerStatesToUser(userId);
-        break;
-        
-      default:
-        console.log(`Получено неизвестное сообщение от ${userId}: ${data.type}`);
+      // Очищаем информацию о состоянии игрока (убит/жив)
+      room.playerStateManager.clearPlayerState(userId);
+      
+      // Освобождаем слот
+      room.slotManager.releaseUserSlot(userId);
+      
+      // Роль и назначенное ведущим имя действуют, пока за пользователем сохраняется место
+      room.slotManager.unbindUserRole(userId);
+      room.slotManager.clearDisplayName(userId);
     }
+    
+    // Выходим из комнаты (пустая комната закрывается)
+    roomManager.leaveRoom(userId);
   }
   
   /**
@@ -568,16 +672,6 @@ export class ConnectionManager {
    * @param ws WebSocket соединение
    */
   private setupEventHandlers(userId: string, ws: WebSocket): void {
-    // Обработчик входящих сообщений
-    ws.on('message', (message: string) => {
-      try {
-        const data = JSON.parse(message.toString()) as WebSocketMessage;
-        this.handleMessage(userId, data);
-      } catch (error) {
-        console.error(`Ошибка обработки сообщения от ${userId}:`, error);
-      }
-    });
-    
     // Обработчик закрытия соединения
     ws.on('close', () => {
       console.log(`Соединение закрыто для ${userId}`);
@@ -589,80 +683,6 @@ export class ConnectionManager {
       console.error(`Ошибка в соединении для ${userId}:`, error);
       this.disconnectUser(userId, ws);
     });
-    
-    // Подписываемся на события изменения слотов
-    const slotsListener = (slots: SlotInfo[]) => {
-      if (ws.readyState === WebSocket.OPEN) {
-        try {
-          ws.send(JSON.stringify({
-            type: 'slots_update',
-            slots
-          }));
-        } catch (error) {
-          console.error(`Ошибка отправки обновления слотов пользователю ${userId}:`, error);
-        }
-      }
-    };
-    
-    // Больше не используем массовые обновления состояний камер
-    // Заменено на индивидуальные обновления
-    const cameraStatesListener = (cameraStates: Record<string, boolean>) => {
-      // Функция оставлена для совместимости, но не выполняет никакой логики
-      // Все обновления происходят через индивидуальные сообщения individual_camera_update
-    };
-    
-    // Слушатель для обновления состояния конкретной камеры
-    // В новой архитектуре мы подписываемся ТОЛЬКО на обновления для собственного пользователя
-    const ownCameraStateChangedListener = (changedUserId: string, isEnabled: boolean) => {
-      if (ws.readyState === WebSocket.OPEN) {
-        try {
-          // В этот обработчик попадают только события для текущего пользователя,
-          // но для безопасности все равно проверяем, что это именно его событие
-          if (changedUserId === userId) {
-            ws.send(JSON.stringify({
-              type: 'individual_camera_update',
-              userId: changedUserId,
-              enabled: isEnabled
-            }));
-            
-            console.log(`Отправлено индивидуальное обновление состояния СВОЕЙ камеры для ${changedUserId} (${isEnabled}) клиенту ${userId}`);
-          }
-        } catch (error) {
-          console.error(`Ошибка отправки обновления состояния камеры ${changedUserId} пользователю ${userId}:`, error);
-        }
-      }
-    };
-    
-    // Слушатель для обновления состояний игроков (убит/жив)
-    const playerStatesListener = (playerStates: PlayerStates) => {
-      if (ws.readyState === WebSocket.OPEN) {
-        try {
-          ws.send(JSON.stringify({
-            type: 'player_states_update',
-            playerStates
-          }));
-          console.log(`Отправлено обновление состояний игроков пользователю ${userId}`);
-        } catch (error) {
-          console.error(`Ошибка отправки обновления состояний игроков пользователю ${userId}:`, error);
-        }
-      }
-    };
-    
-    // Регистрируем обработчики событий
-    globalEvents.on("slots_updated", slotsListener);
-    globalEvents.on("camera_states_updated", cameraStatesListener);
-    // Подписываемся только на специфичный эвент для конкретного пользователя
-    globalEvents.on("camera_state_changed_for_" + userId, ownCameraStateChangedListener);
-    // Подписываемся на события обновления состояний игроков
-    globalEvents.on("player_states_updated", playerStatesListener);
-    
-    // При закрытии соединения отписываемся от событий
-    ws.on('close', () => {
-      globalEvents.off("slots_updated", slotsListener);
-      globalEvents.off("camera_states_updated", cameraStatesListener);
-      globalEvents.off("camera_state_changed_for_" + userId, ownCameraStateChangedListener);
-      globalEvents.off("player_states_updated", playerStatesListener);
-    });
   }
   
   /**
@@ -679,15 +699,16 @@ export class ConnectionManager {
     
     // Создаем новый таймер проверки активности
     const checker = setInterval(() => {
-      if (this.isUserInactive(userId)) {
+      const room = roomManager.getUserRoom(userId);
+      if (room && this.isUserInactive(userId)) {
         console.log(`Соединение неактивно более ${this.inactivityTimeout / 1000} секунд для ${userId}`);
         
         // Временно помечаем как неактивного, но НЕ освобождаем слоты и не удаляем соединение
         // Это позволит пользователю вернуться к своему слоту, когда вкладка снова станет активной
-        console.log(`Соединение помечено как неактивное для ${userId}, но слот ${slotManager.getUserSlot(userId)} сохранен`);
+        console.log(`Соединение помечено как неактивное для ${userId}, но слот ${room.slotManager.getUserSlot(userId)} сохранен`);
         
         // Выключаем камеру при неактивности
-        cameraManager.disableCamera(userId);
+        room.cameraManager.disableCamera(userId);
       }
     }, 5000); // Проверяем каждые 5 секунд
     
@@ -757,25 +778,8 @@ export class ConnectionManager {
         } else {
           this.connections.delete(userId);
           
-          // Если соединений нет, очищаем все ресурсы пользователя
-          // Удаляем таймер проверки активности
-          const checker = this.activityCheckers.get(userId);
-          if (checker) {
-            clearInterval(checker);
-            this.activityCheckers.delete(userId);
-          }
-          
-          // Удаляем информацию об активности
-          this.lastActivityTime.delete(userId);
-          
-          // Удаляем информацию о состоянии камеры
-          cameraManager.removeCameraState(userId);
-          
-          // Очищаем информацию о состоянии игрока (убит/жив)
-          playerStateManager.clearPlayerState(userId);
-          
-          // Освобождаем слот
-          slotManager.releaseUserSlot(userId);
+          // Если соединений нет, придерживаем место до возвращения пользователя
+          this.holdUserSeat(userId);
           
           console.log(`[Пульс] Полностью отключен пользователь ${userId}`);
         }
@@ -824,4 +828,67 @@ export class ConnectionManager {
 }
 
 // Создаем глобальный экземпляр менеджера соединений
-export const connectionManager = new ConnectionManager();
\ No newline at end of file
+export const connectionManager = new ConnectionManager();
+
+/**
+ * Зарегистрировать служебные команды соединения: проверку связи и регистрацию пользователя
+ * @param dispatcher Диспетчер команд
+ */
+export function registerConnectionCommands(dispatcher: CommandDispatcher): void {
+  // Клиент проверяет соединение - отвечаем без логирования (активность отмечает диспетчер)
+  dispatcher.registerConnectionCommand('_heartbeat', ({ ws }) => {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify({ type: '_heartbeat_response' }));
+    }
+  });
+  
+  // Ответы на ping нужны только для отметки активности
+  dispatcher.registerConnectionCommand('pong', () => {});
+  dispatcher.registerConnectionCommand('_pong', () => {});
+  
+  dispatcher.registerConnectionCommand('register', ({ ws, userId: currentUserId, message }) => {
+    const userId = message.userId;
+    if (currentUserId && currentUserId !== userId) {
+      console.warn(`Соединение ${currentUserId} пытается зарегистрироваться как ${userId}, запрос проигнорирован`);
+      return 'Соединение уже зарегистрировано другим участником';
+    }
+    
+    // Комната и роль берутся только из удостоверения, выданного этому идентификатору вместе с токеном LiveKit
+    const claim = sessionManager.verifySession(message.session, userId);
+    if (!claim) {
+      console.warn(`Регистрация ${userId} с недействительным удостоверением отклонена`);
+      return 'Удостоверение участника недействительно';
+    }
+    
+    // Уже подключенного участника новое удостоверение не лишает его роли
+    const currentRoom = roomManager.getUserRoom(userId);
+    if (currentRoom && connectionManager.isUserConnected(userId) && currentRoom.slotManager.getUserRole(userId) !== claim.role) {
+      console.warn(`Регистрация ${userId} с ролью ${claim.role} отклонена: участник уже подключен с другой ролью`);
+      return 'Участник уже подключен с другой ролью';
+    }
+    
+    sessionManager.completeReservation(userId);
+    
+    const room = connectionManager.registerConnection(userId, ws, claim.roomId, claim.role, claim.accountId ?? null);
+    console.log(`Пользователь зарегистрирован: ${userId} (комната ${room.id})`);
+    
+    // Инициализируем состояние камеры (выключена по умолчанию)
+    room.cameraManager.initializeUserCamera(userId);
+    
+    // Приглашение с придержанным слотом сажает игрока на этот слот
+    const invite = message.invite ? inviteManager.verifyInvite(message.invite) : null;
+    const claimedSeat = invite && invite.roomId === room.id && invite.seat !== null &&
+      room.slotManager.claimReservedSlot(userId, invite.seat, invite.inviteId);
+    
+    // Назначаем слот для пользователя (автоматически назначается слот по роли)
+    const assignedSlot = claimedSeat ? invite.seat : room.slotManager.assignFirstAvailableSlot(userId);
+    
+    if (assignedSlot) {
+      console.log(`Автоматически назначен слот ${assignedSlot} для ${userId}`);
+    } else if (room.slotManager.isUserSpectator(userId)) {
+      console.log(`Зритель ${userId} смотрит игру без слота`);
+    } else {
+      console.warn(`Не удалось найти свободный слот для ${userId}`);
+    }
+  });
+}
@@ -36,6 +36,14 @@ export class EventEmitter {
     return this;
   }
 
+  /**
+   * Отписать всех слушателей всех событий
+   */
+  removeAllListeners(): this {
+    this.listeners = {};
+    return this;
+  }
+
   /**
    * Вызвать событие
    * @param event Имя события
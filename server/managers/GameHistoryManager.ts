@@ -0,0 +1,153 @@
+import {
+  Game,
+  GameScoreSheet,
+  GameSessionState,
+  InsertGameFoul,
+  InsertGameNightAction,
+  InsertGameVote,
+  NightSummary,
+  VotingState
+} from '@shared/schema';
+import { storage } from '../storage';
+import type { GameRoom } from './GameRoom';
+
+/**
+ * Менеджер истории игры - записывает голоса, ночные действия и фолы текущей игры
+ * и сохраняет завершенную игру в хранилище
+ */
+export class GameHistoryManager {
+  // Голоса всех голосований текущей игры
+  private votes: InsertGameVote[] = [];
+
+  // Ночные действия, принятые к рассвету
+  private nightActions: InsertGameNightAction[] = [];
+
+  // Фолы в порядке выдачи
+  private fouls: InsertGameFoul[] = [];
+
+  constructor(private readonly room: GameRoom) {
+    console.log('GameHistoryManager: Инициализирован');
+
+    this.room.events.on('roles_dealt', () => {
+      this.clearHistory();
+    });
+
+    this.room.events.on('game_phase_changed', (session: GameSessionState) => {
+      if (session.phase === 'lobby') {
+        this.clearHistory();
+      }
+    });
+
+    this.room.events.on('votes_tallied', (voting: VotingState) => {
+      this.recordVotes(voting);
+    });
+
+    this.room.events.on('night_resolved', (night: number, summary: NightSummary) => {
+      summary.actions.forEach(({ actorSlot, role, action, targetSlots, result }) => {
+        this.nightActions.push({ night, actorSlot, role, action, targetSlots, result: result ?? null });
+      });
+    });
+
+    this.room.events.on('foul_added', (userId: string, fouls: number) => {
+      const slotNumber = this.room.slotManager.getUserSlot(userId);
+      if (slotNumber !== undefined) {
+        this.fouls.push({
+          round: this.room.gameSessionManager.getSessionState().round,
+          slotNumber,
+          foulNumber: fouls,
+          createdAt: new Date()
+        });
+      }
+    });
+
+    this.room.events.on('foul_removed', (userId: string) => {
+      // Снятый фол - исправление ошибки ведущего, поэтому убираем последнюю запись игрока
+      const slotNumber = this.room.slotManager.getUserSlot(userId);
+      const index = this.fouls.map(foul => foul.slotNumber).lastIndexOf(slotNumber ?? -1);
+      if (index !== -1) {
+        this.fouls.splice(index, 1);
+      }
+    });
+  }
+
+  /**
+   * Записать завершенную игру в хранилище
+   * @param sheet Итоговая таблица игры
+   * @returns Сохраненная игра
+   */
+  saveGame(sheet: GameScoreSheet): Promise<Game> {
+    const participants = sheet.scores.map(score => {
+      const record = this.room.playerStateManager.getStatusRecord(score.userId);
+      return {
+        accountId: score.accountId,
+        playerName: score.playerName,
+        slotNumber: score.slotNumber,
+        role: score.role,
+        status: record?.status ?? 'alive',
+        statusReason: record?.reason ?? null,
+        fouls: this.room.playerStateManager.getFouls(score.userId),
+        won: score.won,
+        winPoints: score.winPoints,
+        extraPoints: score.extraPoints,
+        penaltyPoints: score.penaltyPoints,
+        bestMovePoints: score.bestMovePoints,
+        total: score.total
+      };
+    });
+
+    return storage.saveGame({
+      game: {
+        rulesetId: sheet.rulesetId,
+        winner: sheet.winner,
+        rounds: sheet.round,
+        finishedAt: new Date(sheet.finishedAt)
+      },
+      participants,
+      votes: [...this.votes],
+      nightActions: [...this.nightActions],
+      fouls: [...this.fouls]
+    });
+  }
+
+  /**
+   * Обновить баллы игроков записанной игры
+   * @param sheet Итоговая таблица с записанной игрой
+   */
+  async updatePoints(sheet: GameScoreSheet): Promise<void> {
+    if (sheet.gameId === null) {
+      return;
+    }
+
+    await storage.updateParticipantPoints(
+      sheet.gameId,
+      sheet.scores.map(({ slotNumber, extraPoints, total }) => ({ slotNumber, extraPoints, total }))
+    );
+  }
+
+  /**
+   * Записать голоса закрытого голосования
+   * @param voting Состояние голосования на момент подсчета
+   */
+  private recordVotes(voting: VotingState): void {
+    const round = this.room.gameSessionManager.getSessionState().round;
+
+    if (voting.stage === 'lift_vote') {
+      Object.entries(voting.liftVotes).forEach(([voterSlot, lift]) => {
+        this.votes.push({ round, stage: voting.stage, voterSlot: Number(voterSlot), targetSlot: null, lift });
+      });
+    } else {
+      Object.entries(voting.votes).forEach(([voterSlot, targetSlot]) => {
+        this.votes.push({ round, stage: voting.stage, voterSlot: Number(voterSlot), targetSlot, lift: null });
+      });
+    }
+  }
+
+  /**
+   * Очистить историю перед новой игрой
+   */
+  private clearHistory(): void {
+    this.votes = [];
+    this.nightActions = [];
+    this.fouls = [];
+  }
+}
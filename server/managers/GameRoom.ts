@@ -0,0 +1,64 @@
+import { EventEmitter } from './EventEmitter';
+import { SlotManager } from './SlotManager';
+import { CameraManager } from './CameraManager';
+import { RoleManager } from './RoleManager';
+import { GameSessionManager } from './GameSessionManager';
+import { PlayerStateManager } from './PlayerStateManager';
+import { NightActionManager } from './NightActionManager';
+import { VotingManager } from './VotingManager';
+import { SpeechTimerManager } from './SpeechTimerManager';
+import { BestMoveManager } from './BestMoveManager';
+import { GameHistoryManager } from './GameHistoryManager';
+import { ScoringManager } from './ScoringManager';
+import { RoomStateManager } from './RoomStateManager';
+
+/**
+ * Игровая комната - отдельный стол со своими слотами, камерами и игровой сессией.
+ * Менеджеры комнаты общаются через события комнаты и не видят другие комнаты
+ */
+export class GameRoom {
+  // События комнаты (slots_updated, game_phase_changed и т.д.)
+  readonly events = new EventEmitter();
+
+  readonly slotManager: SlotManager;
+  readonly cameraManager: CameraManager;
+  readonly roleManager: RoleManager;
+  readonly gameSessionManager: GameSessionManager;
+  readonly playerStateManager: PlayerStateManager;
+  readonly nightActionManager: NightActionManager;
+  readonly votingManager: VotingManager;
+  readonly speechTimerManager: SpeechTimerManager;
+  readonly bestMoveManager: BestMoveManager;
+  readonly gameHistoryManager: GameHistoryManager;
+  readonly scoringManager: ScoringManager;
+  readonly roomStateManager: RoomStateManager;
+
+  constructor(readonly id: string) {
+    // Порядок создания определяет порядок подписки менеджеров на события комнаты
+    this.slotManager = new SlotManager(this);
+    this.cameraManager = new CameraManager(this);
+    this.roleManager = new RoleManager(this);
+    this.gameSessionManager = new GameSessionManager(this);
+    this.playerStateManager = new PlayerStateManager(this);
+    this.nightActionManager = new NightActionManager(this);
+    this.votingManager = new VotingManager(this);
+    this.speechTimerManager = new SpeechTimerManager(this);
+    this.bestMoveManager = new BestMoveManager(this);
+    this.gameHistoryManager = new GameHistoryManager(this);
+    this.scoringManager = new ScoringManager(this);
+    this.roomStateManager = new RoomStateManager(this);
+
+    console.log(`GameRoom: Создана комната ${id}`);
+  }
+
+  /**
+   * Остановить таймеры комнаты и отписать менеджеров от ее событий перед удалением
+   */
+  dispose(): void {
+    this.slotManager.dispose();
+    this.cameraManager.dispose();
+    this.speechTimerManager.dispose();
+    this.events.removeAllListeners();
+    console.log(`GameRoom: Закрыта комната ${this.id}`);
+  }
+}
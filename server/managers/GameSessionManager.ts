@@ -0,0 +1,312 @@
+import { GamePhase, GameResult, GameSessionState, GameWinner, GAME_PHASE_TRANSITIONS } from '@shared/schema';
+import { DEFAULT_RULESET_ID, getRuleset, Ruleset, RULESETS } from '@shared/rulesets';
+import { getRoleTeam } from '@shared/roles';
+import { connectionManager } from './ConnectionManager';
+import { ServerMessage } from '@shared/protocol';
+import type { GameRoom } from './GameRoom';
+import type { CommandDispatcher } from './CommandDispatcher';
+
+// Инициатор автоматического завершения игры, когда выбывание произошло без участия ведущего
+const SERVER_INITIATOR = 'server';
+
+/**
+ * Менеджер игровой сессии - хранит текущую фазу игры и управляет переходами между фазами
+ */
+export class GameSessionManager {
+  // Текущая фаза игры
+  private phase: GamePhase = 'lobby';
+
+  // Номер игрового дня
+  private round = 0;
+
+  // Время начала текущей фазы
+  private phaseStartedAt = Date.now();
+
+  // Итог завершенной игры
+  private result: GameResult | null = null;
+
+  // Выбранный набор правил
+  private rulesetId: string = DEFAULT_RULESET_ID;
+
+  // Идет оповещение о смене фазы (выбывания в обработчиках проверяются после него)
+  private isApplyingPhase = false;
+  private pendingWinCheck: string | null = null;
+
+  constructor(private readonly room: GameRoom) {
+    console.log('GameSessionManager: Инициализирован');
+
+    // Условия победы проверяются после каждого выбывания
+    this.room.events.on('player_eliminated', (userId: string, hostId?: string) => {
+      const initiator = hostId || SERVER_INITIATOR;
+      if (this.isApplyingPhase) {
+        this.pendingWinCheck = initiator;
+      } else {
+        this.checkWinCondition(initiator);
+      }
+    });
+  }
+
+  /**
+   * Получить текущее состояние сессии для отправки клиентам
+   */
+  getSessionState(): GameSessionState {
+    return {
+      phase: this.phase,
+      round: this.round,
+      phaseStartedAt: this.phaseStartedAt,
+      result: this.result,
+      rulesetId: this.rulesetId
+    };
+  }
+
+  /**
+   * Получить текущую фазу
+   */
+  getPhase(): GamePhase {
+    return this.phase;
+  }
+
+  /**
+   * Получить выбранный набор правил
+   */
+  getRuleset(): Ruleset {
+    return getRuleset(this.rulesetId);
+  }
+
+  /**
+   * Выбрать набор правил (только для ведущего и только в лобби)
+   * @param hostId ID ведущего
+   * @param rulesetId Идентификатор набора правил
+   */
+  setRuleset(hostId: string, rulesetId: string): boolean {
+    if (!this.room.slotManager.isUserHost(hostId)) {
+      console.log(`Пользователь ${hostId} не является ведущим и не может менять правила`);
+      return false;
+    }
+
+    if (this.phase !== 'lobby' || !(rulesetId in RULESETS)) {
+      console.log(`Нельзя выбрать правила ${rulesetId} в фазе ${this.phase}`);
+      return false;
+    }
+
+    this.rulesetId = rulesetId;
+    console.log(`Ведущий ${hostId} выбрал правила ${rulesetId}`);
+
+    this.broadcastSessionState();
+    this.room.events.emit('ruleset_changed', this.getRuleset());
+
+    return true;
+  }
+
+  /**
+   * Получить фазы, в которые можно перейти из текущей с учетом правил
+   * Если правила запрещают голосование в первый день, из первого дня сразу наступает ночь
+   */
+  getAvailableTransitions(): GamePhase[] {
+    const ruleset = this.getRuleset();
+    return GAME_PHASE_TRANSITIONS[this.phase].filter(phase =>
+      ruleset.votingOnFirstDay || this.round !== 1 || (phase !== 'nominations' && phase !== 'voting')
+    );
+  }
+
+  /**
+   * Проверить, допустим ли переход из текущей фазы в указанную
+   * @param nextPhase Фаза, в которую нужно перейти
+   */
+  canTransitionTo(nextPhase: GamePhase): boolean {
+    return this.getAvailableTransitions().includes(nextPhase);
+  }
+
+  /**
+   * Перевести игру в указанную фазу (только для ведущего)
+   * @param hostId ID ведущего
+   * @param nextPhase Новая фаза
+   * @returns true если переход выполнен
+   */
+  changePhase(hostId: string, nextPhase: GamePhase): boolean {
+    if (!this.room.slotManager.isUserHost(hostId)) {
+      console.log(`Пользователь ${hostId} не является ведущим и не может менять фазу игры`);
+      return false;
+    }
+
+    if (!this.canTransitionTo(nextPhase)) {
+      console.log(`Недопустимый переход фазы: ${this.phase} -> ${nextPhase}`);
+      return false;
+    }
+
+    this.applyPhase(nextPhase, hostId);
+    console.log(`Ведущий ${hostId} перевел игру в фазу ${nextPhase} (день ${this.round})`);
+
+    return true;
+  }
+
+  /**
+   * Перейти к следующей фазе по умолчанию (только для ведущего)
+   * @param hostId ID ведущего
+   */
+  advancePhase(hostId: string): boolean {
+    const [nextPhase] = this.getAvailableTransitions();
+    return this.changePhase(hostId, nextPhase);
+  }
+
+  /**
+   * Сбросить сессию в лобби (только для ведущего)
+   * @param hostId ID ведущего
+   */
+  resetSession(hostId: string): boolean {
+    if (!this.room.slotManager.isUserHost(hostId)) {
+      console.log(`Пользователь ${hostId} не является ведущим и не может сбросить игру`);
+      return false;
+    }
+
+    this.applyPhase('lobby', hostId);
+    console.log(`Игровая сессия сброшена ведущим ${hostId}`);
+
+    return true;
+  }
+
+  /**
+   * Проверить условия победы и завершить игру, если они выполнены
+   * Команды ролей берутся из shared/roles.ts. Мирные побеждают, когда не осталось ни мафии, ни маньяка;
+   * мафия - когда маньяка нет, а мафии не меньше, чем остальных; маньяк - когда мафии нет и он остался один на один
+   * @param initiatorId ID ведущего, чье действие привело к выбыванию
+   * @returns Победившая команда или null, если игра продолжается
+   */
+  checkWinCondition(initiatorId: string = SERVER_INITIATOR): GameWinner | null {
+    if (this.phase === 'lobby' || this.phase === 'game_over' || !this.room.roleManager.hasRoles()) {
+      return null;
+    }
+
+    const living: Record<GameWinner, number> = { mafia: 0, civilians: 0, maniac: 0 };
+    this.room.roleManager.getAssignments().forEach(({ userId, role }) => {
+      if (this.room.playerStateManager.isPlayerAlive(userId)) {
+        living[getRoleTeam(role)]++;
+      }
+    });
+
+    let winner: GameWinner | null = null;
+    if (living.mafia === 0 && living.maniac === 0) {
+      winner = 'civilians';
+    } else if (living.maniac === 0 && living.mafia >= living.civilians) {
+      winner = 'mafia';
+    } else if (living.mafia === 0 && living.maniac >= living.civilians) {
+      winner = 'maniac';
+    }
+
+    if (winner) {
+      console.log(`Игра окончена: победа ${winner} (мафия ${living.mafia}, маньяк ${living.maniac}, мирные ${living.civilians})`);
+      this.result = {
+        winner,
+        roles: this.room.roleManager.getAssignments(),
+        round: this.round,
+        finishedAt: Date.now()
+      };
+      this.applyPhase('game_over', initiatorId);
+    }
+
+    return winner;
+  }
+
+  /**
+   * Отправить состояние сессии всем клиентам
+   */
+  broadcastSessionState(): void {
+    const message: ServerMessage = {
+      type: 'game_phase_update',
+      session: this.getSessionState()
+    };
+
+    connectionManager.broadcastToRoom(this.room.id, message);
+  }
+
+  /**
+   * Отправить состояние сессии конкретному клиенту
+   * @param userId ID пользователя
+   */
+  sendSessionStateToUser(userId: string): void {
+    connectionManager.sendToUser(userId, {
+      type: 'game_phase_update',
+      session: this.getSessionState()
+    });
+  }
+
+  /**
+   * Применить новую фазу и оповестить клиентов и другие модули
+   * @param nextPhase Новая фаза
+   * @param hostId ID ведущего, инициировавшего переход
+   */
+  private applyPhase(nextPhase: GamePhase, hostId: string): void {
+    const previousPhase = this.phase;
+
+    // Новый игровой день начинается с обсуждения, а возврат в лобби начинает отсчет заново
+    if (nextPhase === 'day_discussion') {
+      this.round++;
+    } else if (nextPhase === 'lobby') {
+      this.round = 0;
+      this.result = null;
+    }
+
+    this.phase = nextPhase;
+    this.phaseStartedAt = Date.now();
+
+    this.isApplyingPhase = true;
+    try {
+      this.broadcastSessionState();
+      this.room.events.emit('game_phase_changed', this.getSessionState(), previousPhase, hostId);
+    } finally {
+      this.isApplyingPhase = false;
+    }
+
+    // Выбывание на рассвете или в голосовании проверяем, когда все модули обработали смену фазы
+    if (this.pendingWinCheck) {
+      const initiatorId = this.pendingWinCheck;
+      this.pendingWinCheck = null;
+      this.checkWinCondition(initiatorId);
+    }
+  }
+}
+
+/**
+ * Зарегистрировать команды фаз игры
+ * @param dispatcher Диспетчер команд
+ */
+export function registerGameSessionCommands(dispatcher: CommandDispatcher): void {
+  // Ведущий переводит игру в указанную фазу
+  dispatcher.register('change_game_phase', {
+    access: 'host',
+    deniedMessage: 'Только ведущий может менять фазу игры',
+    handle: ({ userId, room, message }) =>
+      room.gameSessionManager.changePhase(userId, message.phase) ? null : 'Недопустимый переход фазы'
+  });
+  
+  // Ведущий переводит игру в следующую фазу по умолчанию
+  dispatcher.register('advance_game_phase', {
+    access: 'host',
+    deniedMessage: 'Только ведущий может менять фазу игры',
+    handle: ({ userId, room }) =>
+      room.gameSessionManager.advancePhase(userId) ? null : 'Недопустимый переход фазы'
+  });
+  
+  // Ведущий возвращает игру в лобби
+  dispatcher.register('reset_game_session', {
+    access: 'host',
+    deniedMessage: 'Только ведущий может сбросить игру',
+    handle: ({ userId, room }) => {
+      room.gameSessionManager.resetSession(userId);
+    }
+  });
+  
+  // Ведущий выбирает набор правил перед игрой
+  dispatcher.register('set_ruleset', {
+    access: 'host',
+    deniedMessage: 'Правила может выбрать только ведущий',
+    handle: ({ userId, room, message }) =>
+      room.gameSessionManager.setRuleset(userId, message.rulesetId) ? null : 'Правила можно выбрать только до начала игры'
+  });
+  
+  dispatcher.register('get_game_session', {
+    handle: ({ userId, room }) => {
+      room.gameSessionManager.sendSessionStateToUser(userId);
+    }
+  });
+}
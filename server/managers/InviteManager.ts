@@ -0,0 +1,239 @@
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import { InvitePayload, InviteRole } from '@shared/schema';
+import { loadSigningSecret, signPayload, verifySignedPayload } from '../signing';
+import { roomManager } from './RoomManager';
+import { connectionManager } from './ConnectionManager';
+import { globalEvents } from './EventEmitter';
+import type { CommandDispatcher } from './CommandDispatcher';
+
+// Срок действия приглашения (24 часа)
+const INVITE_TTL = 24 * 60 * 60 * 1000;
+
+// Минимальная длина пароля комнаты
+const MIN_PASSWORD_LENGTH = 4;
+
+/**
+ * Параметры приглашения, которые выбирает ведущий
+ */
+export interface InviteOptions {
+  passwordRequired: boolean;
+  role: InviteRole | null;
+  seat: number | null;
+}
+
+/**
+ * Подтверждение доступа к комнате при получении токена LiveKit
+ */
+export interface RoomAccessProof {
+  password?: string;
+  invite?: string;
+}
+
+/**
+ * Менеджер приглашений - подписывает ссылки-приглашения в комнаты
+ * и хранит пароли комнат
+ */
+export class InviteManager {
+  // Ключ подписи приглашений (без общего ключа приглашения перестают действовать после перезапуска сервера)
+  private secret = loadSigningSecret('INVITE_SECRET');
+
+  // Пароли комнат (ID комнаты -> соль и хеш scrypt)
+  private roomPasswords = new Map<string, { salt: string; hash: string }>();
+
+  // Отозванные приглашения (ID приглашения -> до какого времени помнить отзыв)
+  private revokedInvites = new Map<string, number>();
+
+  constructor() {
+    console.log('InviteManager: Инициализирован');
+
+    // Закрытая комната теряет пароль вместе с остальным состоянием
+    globalEvents.on('room_closed', (roomId: string) => {
+      this.roomPasswords.delete(roomId);
+    });
+  }
+
+  /**
+   * Создать приглашение в комнату ведущего и отправить его ведущему
+   * @param hostId ID ведущего
+   * @param options Параметры приглашения
+   * @returns Текст ошибки или null, если приглашение создано
+   */
+  createInvite(hostId: string, options: InviteOptions): string | null {
+    const room = roomManager.getUserRoom(hostId);
+    if (!room || !room.slotManager.isUserHost(hostId)) {
+      return 'Только ведущий может приглашать в комнату';
+    }
+
+    if (options.passwordRequired && !this.isPasswordProtected(room.id)) {
+      return 'Сначала задайте пароль комнаты';
+    }
+
+    const payload: InvitePayload = {
+      inviteId: randomBytes(8).toString('hex'),
+      roomId: room.id,
+      passwordRequired: options.passwordRequired,
+      role: options.role,
+      seat: options.seat,
+      expiresAt: Date.now() + INVITE_TTL
+    };
+
+    if (payload.seat !== null) {
+      if (payload.role === 'spectator') {
+        return 'Зрителю не нужен слот за столом';
+      }
+      if (!room.slotManager.reserveSlot(payload.seat, payload.inviteId, payload.expiresAt)) {
+        return `Слот ${payload.seat} нельзя придержать: он занят, уже придержан или не существует`;
+      }
+    }
+
+    console.log(`Ведущий ${hostId} создал приглашение в комнату ${room.id}`);
+    connectionManager.sendToUser(hostId, {
+      type: 'invite_created',
+      invite: signPayload(payload, this.secret),
+      payload
+    });
+
+    return null;
+  }
+
+  /**
+   * Проверить подпись и срок действия приглашения
+   * @param token Приглашение из ссылки
+   * @returns Содержимое приглашения или null, если приглашение недействительно
+   */
+  verifyInvite(token: string): InvitePayload | null {
+    const payload = verifySignedPayload<InvitePayload>(token, this.secret);
+    return payload && payload.expiresAt > Date.now() && !this.revokedInvites.has(payload.inviteId) ? payload : null;
+  }
+
+  /**
+   * Отозвать приглашение: оно перестает давать доступ, роль и придержанный слот
+   * @param hostId ID ведущего
+   * @param inviteId ID приглашения
+   * @returns Текст ошибки или null, если приглашение отозвано
+   */
+  revokeInvite(hostId: string, inviteId: string): string | null {
+    const room = roomManager.getUserRoom(hostId);
+    if (!room || !room.slotManager.isUserHost(hostId)) {
+      return 'Только ведущий может отзывать приглашения';
+    }
+
+    // Отзыв достаточно помнить, пока приглашение не истекло бы само
+    const now = Date.now();
+    this.revokedInvites.forEach((forgetAt, revokedId) => {
+      if (forgetAt <= now) {
+        this.revokedInvites.delete(revokedId);
+      }
+    });
+    this.revokedInvites.set(inviteId, now + INVITE_TTL);
+
+    const seat = room.slotManager.releaseReservation(inviteId);
+    console.log(`Ведущий ${hostId} отозвал приглашение ${inviteId}${seat !== undefined ? ` (слот ${seat} освобожден)` : ''}`);
+    connectionManager.sendToUser(hostId, { type: 'invite_revoked', inviteId });
+
+    return null;
+  }
+
+  /**
+   * Задать или снять пароль комнаты ведущего
+   * @param hostId ID ведущего
+   * @param password Новый пароль (null или пустая строка снимает пароль)
+   * @returns Текст ошибки или null, если пароль изменен
+   */
+  setRoomPassword(hostId: string, password: string | null): string | null {
+    const room = roomManager.getUserRoom(hostId);
+    if (!room || !room.slotManager.isUserHost(hostId)) {
+      return 'Только ведущий может менять пароль комнаты';
+    }
+
+    if (password) {
+      if (password.length < MIN_PASSWORD_LENGTH) {
+        return `Пароль комнаты должен быть не короче ${MIN_PASSWORD_LENGTH} символов`;
+      }
+
+      const salt = randomBytes(16).toString('hex');
+      this.roomPasswords.set(room.id, { salt, hash: scryptSync(password, salt, 32).toString('hex') });
+      console.log(`Ведущий ${hostId} задал пароль комнаты ${room.id}`);
+    } else {
+      this.roomPasswords.delete(room.id);
+      console.log(`Ведущий ${hostId} снял пароль комнаты ${room.id}`);
+    }
+
+    connectionManager.broadcastToRoom(room.id, {
+      type: 'room_password_update',
+      passwordProtected: this.isPasswordProtected(room.id)
+    });
+    roomManager.scheduleRoomsUpdate();
+
+    return null;
+  }
+
+  /**
+   * Проверить, закрыта ли комната паролем
+   * @param roomId ID комнаты
+   */
+  isPasswordProtected(roomId: string): boolean {
+    return this.roomPasswords.has(roomId);
+  }
+
+  /**
+   * Проверить доступ к комнате: открытая комната доступна всем, закрытая - по паролю
+   * или по приглашению в эту комнату, которое не требует пароля
+   * @param roomId ID комнаты
+   * @param proof Пароль и/или приглашение
+   */
+  checkAccess(roomId: string, proof: RoomAccessProof): boolean {
+    const stored = this.roomPasswords.get(roomId);
+    if (!stored) {
+      return true;
+    }
+
+    if (proof.password) {
+      const hash = scryptSync(proof.password, stored.salt, 32);
+      if (timingSafeEqual(hash, Buffer.from(stored.hash, 'hex'))) {
+        return true;
+      }
+    }
+
+    if (proof.invite) {
+      const invite = this.verifyInvite(proof.invite);
+      return !!invite && invite.roomId === roomId && !invite.passwordRequired;
+    }
+
+    return false;
+  }
+}
+
+// Создаем глобальный экземпляр менеджера приглашений
+export const inviteManager = new InviteManager();
+
+/**
+ * Зарегистрировать команды приглашений и пароля комнаты
+ * @param dispatcher Диспетчер команд
+ */
+export function registerInviteCommands(dispatcher: CommandDispatcher): void {
+  // Ведущий создает ссылку-приглашение в свою комнату
+  dispatcher.register('create_invite', {
+    access: 'host',
+    deniedMessage: 'Только ведущий может приглашать в комнату',
+    handle: ({ userId, message }) => inviteManager.createInvite(userId, {
+      passwordRequired: message.passwordRequired ?? false,
+      role: message.role ?? null,
+      seat: message.seat ?? null
+    })
+  });
+  
+  // Ведущий отзывает приглашение и снимает придержанный за ним слот
+  dispatcher.register('revoke_invite', {
+    access: 'host',
+    deniedMessage: 'Только ведущий может отзывать приглашения',
+    handle: ({ userId, message }) => inviteManager.revokeInvite(userId, message.inviteId)
+  });
+  
+  // Ведущий задает или снимает пароль комнаты (null снимает пароль)
+  dispatcher.register('set_room_password', {
+    access: 'host',
+    deniedMessage: 'Только ведущий может менять пароль комнаты',
+    handle: ({ userId, message }) => inviteManager.setRoomPassword(userId, message.password || null)
+  });
+}
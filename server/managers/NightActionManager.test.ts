@@ -0,0 +1,89 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import type { WebSocket } from 'ws';
+import { DEFAULT_ROOM_ID, PlayerRole } from '@shared/schema';
+import { ServerMessage } from '@shared/protocol';
+import { registerConnectionCommands } from './ConnectionManager';
+import { commandDispatcher } from './CommandDispatcher';
+import { sessionManager } from './SessionManager';
+import { roomManager } from './RoomManager';
+import type { GameRoom } from './GameRoom';
+
+const HOST_ID = 'Host-night';
+const PLAYER_IDS = Array.from({ length: 10 }, (_, index) => `player-${index + 1}`);
+
+// Сообщения, полученные каждым участником
+const received = new Map<string, ServerMessage[]>();
+
+/**
+ * Подключить участника через команду register, как это делает клиент
+ */
+function connect(userId: string, role: 'host' | 'player'): void {
+  const messages: ServerMessage[] = [];
+  received.set(userId, messages);
+  // Только члены сокета, которыми пользуется сервер: новый член сломает тест при проверке типов
+  const socket: Pick<WebSocket, 'readyState' | 'send' | 'on' | 'close'> = {
+    readyState: 1,
+    send: (data: string) => messages.push(JSON.parse(data)),
+    on: () => ws,
+    close: () => {}
+  };
+  const ws = socket as unknown as WebSocket;
+
+  commandDispatcher.dispatch(ws, JSON.stringify({
+    type: 'register',
+    userId,
+    session: sessionManager.issueSession(userId, DEFAULT_ROOM_ID, role)
+  }));
+}
+
+const checkResultsOf = (userId: string) =>
+  (received.get(userId) || []).flatMap(message => message.type === 'night_action_result' ? [message.result] : []);
+
+describe('NightActionManager: проверка шерифа', () => {
+  let room: GameRoom;
+  // Игроки с нужными ролями после раздачи
+  const players = {} as Record<PlayerRole, string>;
+  const slotOf = (userId: string) => room.slotManager.getUserSlot(userId)!;
+
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    registerConnectionCommands(commandDispatcher);
+
+    connect(HOST_ID, 'host');
+    PLAYER_IDS.forEach(userId => connect(userId, 'player'));
+    room = roomManager.getRoom(DEFAULT_ROOM_ID)!;
+
+    // Городские правила со столом из 10 игроков раздают и шерифа, и любовницу
+    expect(room.gameSessionManager.setRuleset(HOST_ID, 'city')).toBe(true);
+    for (const phase of ['role_dealing', 'acquaintance_night', 'day_discussion', 'night'] as const) {
+      expect(room.gameSessionManager.changePhase(HOST_ID, phase)).toBe(true);
+    }
+    room.roleManager.getAssignments().forEach(({ userId, role }) => {
+      players[role] = userId;
+    });
+  });
+
+  it('сообщает результат проверки только на рассвете', () => {
+    const sheriffId = players.sheriff;
+    expect(room.nightActionManager.submitAction(sheriffId, 'sheriff_check', [slotOf(players.mafia)])).toBeNull();
+
+    expect(checkResultsOf(sheriffId)).toEqual([{ action: 'sheriff_check', targetSlots: [slotOf(players.mafia)] }]);
+
+    expect(room.gameSessionManager.changePhase(HOST_ID, 'day_discussion')).toBe(true);
+
+    expect(checkResultsOf(sheriffId)).toContainEqual({ action: 'sheriff_check', targetSlots: [slotOf(players.mafia)], result: true });
+  });
+
+  it('не сообщает результат шерифу, к которому пришла любовница', () => {
+    const sheriffId = players.sheriff;
+    expect(room.gameSessionManager.changePhase(HOST_ID, 'night')).toBe(true);
+    received.get(sheriffId)!.splice(0);
+
+    expect(room.nightActionManager.submitAction(sheriffId, 'sheriff_check', [slotOf(players.don)])).toBeNull();
+    expect(room.nightActionManager.submitAction(players.lover, 'lover_visit', [slotOf(sheriffId)])).toBeNull();
+    expect(room.gameSessionManager.changePhase(HOST_ID, 'day_discussion')).toBe(true);
+
+    expect(checkResultsOf(sheriffId)).toEqual([{ action: 'sheriff_check', targetSlots: [slotOf(players.don)] }]);
+  });
+});
@@ -0,0 +1,264 @@
+import {
+  GamePhase,
+  GameSessionState,
+  NightActionRecord,
+  NightActionResult,
+  NightActionType,
+  NightOutcome,
+  NightSummary
+} from '@shared/schema';
+import { getAbility } from '@shared/roles';
+import { NightParticipant, NightSubmission, resolveNight } from '@shared/nightResolver';
+import type { GameRoom } from './GameRoom';
+import type { CommandDispatcher } from './CommandDispatcher';
+import { connectionManager } from './ConnectionManager';
+
+// Слот ведущего не может быть целью ночных действий
+const HOST_SLOT = 12;
+
+/**
+ * Менеджер ночных действий - принимает действия ролей по их описаниям из shared/roles.ts,
+ * разрешает ночь на рассвете и только тогда отправляет исполнителям результаты проверок
+ */
+export class NightActionManager {
+  // Действия текущей ночи (ID исполнителя -> тип действия -> выбор и результат)
+  private actions = new Map<string, Map<NightActionType, NightActionResult>>();
+
+  constructor(private readonly room: GameRoom) {
+    console.log('NightActionManager: Инициализирован');
+
+    this.room.events.on('game_phase_changed', (session: GameSessionState, previousPhase: GamePhase, hostId: string) => {
+      if (session.phase === 'night' && previousPhase !== 'night') {
+        this.clearNightActions();
+      } else if (previousPhase === 'night' && session.phase === 'day_discussion') {
+        // Ночь после N-го дня имеет номер N, а на рассвете уже начался следующий день
+        this.resolveDawn(hostId, session.round - 1);
+      } else if (session.phase === 'lobby') {
+        this.clearNightActions();
+      }
+    });
+  }
+
+  /**
+   * Принять ночное действие игрока
+   * @param userId ID игрока
+   * @param action Тип действия
+   * @param targetSlots Слоты целей
+   * @returns Текст ошибки или null, если действие принято
+   */
+  submitAction(userId: string, action: NightActionType, targetSlots: number[]): string | null {
+    if (this.room.gameSessionManager.getPhase() !== 'night') {
+      return 'Ночные действия доступны только ночью';
+    }
+
+    const role = this.room.roleManager.getRole(userId);
+    const ability = role ? getAbility(role, action) : undefined;
+    if (!role || !ability) {
+      return 'Это действие недоступно для вашей роли';
+    }
+
+    if (!this.room.playerStateManager.isPlayerAlive(userId)) {
+      return 'Выбывшие игроки не совершают ночных действий';
+    }
+
+    const uniqueTargets = Array.from(new Set(targetSlots));
+    if (uniqueTargets.length !== ability.targets) {
+      return `Для этого действия нужно выбрать целей: ${ability.targets}`;
+    }
+
+    const actorSlot = this.room.slotManager.getUserSlot(userId);
+    const targetUserIds: string[] = [];
+
+    for (const targetSlot of uniqueTargets) {
+      const targetUserId = this.room.slotManager.getSlotAssignments().get(targetSlot);
+      if (!targetUserId || targetSlot === HOST_SLOT) {
+        return 'В выбранном слоте нет игрока';
+      }
+
+      if (!this.room.playerStateManager.isPlayerAlive(targetUserId)) {
+        return 'Выбранный игрок уже выбыл из игры';
+      }
+
+      if (!ability.canTargetSelf && targetSlot === actorSlot) {
+        return 'Это действие нельзя направить на себя';
+      }
+
+      targetUserIds.push(targetUserId);
+    }
+
+    const actorActions = this.actions.get(userId) || new Map<NightActionType, NightActionResult>();
+    if (!ability.changeable && actorActions.has(action)) {
+      return 'Это действие уже совершено этой ночью';
+    }
+
+    const result: NightActionResult = { action, targetSlots: uniqueTargets };
+    if (ability.detects) {
+      const detects = ability.detects;
+      result.result = targetUserIds.some(targetUserId => {
+        const targetRole = this.room.roleManager.getRole(targetUserId);
+        return !!targetRole && detects.includes(targetRole);
+      });
+    }
+
+    actorActions.set(action, result);
+    this.actions.set(userId, actorActions);
+
+    // Результат проверки исполнитель узнает только на рассвете: коханка может заблокировать его этой ночью
+    connectionManager.sendToUser(userId, {
+      type: 'night_action_result',
+      result: { action, targetSlots: uniqueTargets }
+    });
+
+    console.log(`Принято ночное действие ${action} от ${userId} по слотам ${uniqueTargets.join(', ')}`);
+    this.sendSummaryToHost();
+
+    return null;
+  }
+
+  /**
+   * Получить сводку текущей ночи
+   */
+  getSummary(): NightSummary {
+    const actions: NightActionRecord[] = [];
+    this.actions.forEach((actorActions, actorId) => {
+      const role = this.room.roleManager.getRole(actorId);
+      if (!role) {
+        return;
+      }
+      actorActions.forEach(result => {
+        actions.push({
+          ...result,
+          actorSlot: this.room.slotManager.getUserSlot(actorId) ?? 0,
+          role
+        });
+      });
+    });
+
+    return {
+      actions: actions.sort((a, b) => a.actorSlot - b.actorSlot),
+      outcome: this.resolveOutcome()
+    };
+  }
+
+  /**
+   * Отправить сводку ночи ведущему
+   */
+  sendSummaryToHost(): void {
+    const hostId = this.room.slotManager.getSlotAssignments().get(HOST_SLOT);
+    if (hostId) {
+      connectionManager.sendToUser(hostId, {
+        type: 'night_summary',
+        summary: this.getSummary()
+      });
+    }
+  }
+
+  /**
+   * Разрешить принятые действия живых игроков
+   */
+  private resolveOutcome(): NightOutcome {
+    const participants: NightParticipant[] = this.room.roleManager.getAssignments()
+      .filter(({ userId }) => this.room.playerStateManager.isPlayerAlive(userId))
+      .map(({ userId, role }) => ({
+        userId,
+        role,
+        slotNumber: this.room.slotManager.getUserSlot(userId) ?? 0
+      }));
+
+    const submissions: NightSubmission[] = [];
+    this.actions.forEach((actorActions, actorId) => {
+      actorActions.forEach(({ action, targetSlots }) => {
+        submissions.push({ actorId, action, targetSlots });
+      });
+    });
+
+    return resolveNight(participants, submissions);
+  }
+
+  /**
+   * Разрешить ночь на рассвете
+   * @param hostId ID ведущего, начавшего день
+   * @param night Номер ночи
+   */
+  private resolveDawn(hostId: string, night: number): void {
+    const summary = this.getSummary();
+    const outcome = summary.outcome;
+    this.room.events.emit('night_resolved', night, summary);
+    const killedSlots: number[] = [];
+
+    outcome.killedSlots.forEach(slot => {
+      const victimId = this.room.slotManager.getSlotAssignments().get(slot);
+      if (victimId) {
+        console.log(`На рассвете убит игрок в слоте ${slot}`);
+        this.room.playerStateManager.markPlayerAsKilled(hostId, victimId, 'night_shot');
+        killedSlots.push(slot);
+      }
+    });
+
+    if (killedSlots.length === 0) {
+      console.log('Ночью никто не убит');
+    }
+
+    connectionManager.broadcastToRoom(this.room.id, {
+      type: 'night_result',
+      killedSlots,
+      savedSlots: outcome.savedSlots
+    });
+
+    this.sendCheckResults(outcome.blockedSlots);
+    this.clearNightActions();
+  }
+
+  /**
+   * Отправить результаты проверок исполнителям, которых этой ночью не заблокировали
+   * @param blockedSlots Заблокированные слоты из итога ночи
+   */
+  private sendCheckResults(blockedSlots: number[]): void {
+    this.actions.forEach((actorActions, actorId) => {
+      const actorSlot = this.room.slotManager.getUserSlot(actorId);
+      if (actorSlot !== undefined && blockedSlots.includes(actorSlot)) {
+        console.log(`Проверка игрока в слоте ${actorSlot} заблокирована`);
+        return;
+      }
+
+      actorActions.forEach(result => {
+        if (result.result !== undefined) {
+          connectionManager.sendToUser(actorId, { type: 'night_action_result', result });
+        }
+      });
+    });
+  }
+
+  /**
+   * Очистить действия текущей ночи
+   */
+  private clearNightActions(): void {
+    this.actions.clear();
+  }
+}
+
+/**
+ * Зарегистрировать команды ночной фазы
+ * @param dispatcher Диспетчер команд
+ */
+export function registerNightActionCommands(dispatcher: CommandDispatcher): void {
+  // Игрок совершает ночное действие своей роли (targetSlot - сокращение для одной цели)
+  dispatcher.register('night_action', {
+    access: 'player',
+    handle: ({ userId, room, message }) => {
+      const targetSlots = message.targetSlots ?? (message.targetSlot !== undefined ? [message.targetSlot] : null);
+      if (!targetSlots) {
+        return 'Не выбрана цель ночного действия';
+      }
+      return room.nightActionManager.submitAction(userId, message.action, targetSlots);
+    }
+  });
+  
+  dispatcher.register('get_night_summary', {
+    access: 'host',
+    deniedMessage: 'Сводка ночи доступна только ведущему',
+    handle: ({ room }) => {
+      room.nightActionManager.sendSummaryToHost();
+    }
+  });
+}
@@ -1,43 +1,99 @@
-import { PlayerStates } from "../../shared/schema";
-import { WebSocketMessage } from "./ConnectionManager";
-import { connectionManager } from "./ConnectionManager";
-import { globalEvents } from "./EventEmitter";
+import {
+  GameSessionState,
+  PlayerStates,
+  PlayerStatus,
+  PlayerStatusReason,
+  PlayerStatusRecord
+} from "../../shared/schema";
+import type { GameRoom } from "./GameRoom";
+import type { CommandDispatcher } from "./CommandDispatcher";
+
+// Слот ведущего (ведущий не выбывает из игры)
+const HOST_SLOT = 12;
 
 /**
- * Менеджер состояний игроков (убит/жив)
+ * Менеджер состояний игроков (статус выбывания, фолы)
  */
 export class PlayerStateManager {
-  private killedPlayers = new Map<string, boolean>();
+  // Записи о выбывших игроках (живых игроков здесь нет)
+  private statuses = new Map<string, PlayerStatusRecord>();
+
+  // Количество фолов игроков
+  private fouls = new Map<string, number>();
 
-  constructor() {
+  // Игроки, пропускающие следующую речь
+  private silencedPlayers = new Map<string, boolean>();
+
+  constructor(private readonly room: GameRoom) {
     console.log('Инициализация PlayerStateManager');
+
+    // Возврат в лобби начинает новую игру с чистыми статусами и фолами
+    this.room.events.on('game_phase_changed', (session: GameSessionState) => {
+      if (session.phase === 'lobby') {
+        this.statuses.clear();
+        this.fouls.clear();
+        this.silencedPlayers.clear();
+        this.broadcastPlayerStates();
+      }
+    });
   }
 
   /**
    * Отметить игрока как убитого
    * @param hostId ID пользователя-ведущего
    * @param userId ID пользователя, которого нужно пометить как убитого
+   * @param reason Причина (по умолчанию - решение ведущего)
    * @returns true если операция успешна
    */
-  markPlayerAsKilled(hostId: string, userId: string): boolean {
+  markPlayerAsKilled(hostId: string, userId: string, reason: PlayerStatusReason = 'host'): boolean {
+    return this.eliminatePlayer(hostId, userId, 'killed', reason);
+  }
+
+  /**
+   * Отметить игрока как выбывшего с указанным статусом
+   * @param hostId ID пользователя-ведущего
+   * @param userId ID игрока
+   * @param status Статус выбывания
+   * @param reason Причина
+   * @returns true если операция успешна (false - не ведущий, цель не живой игрок за столом или игра окончена)
+   */
+  eliminatePlayer(
+    hostId: string,
+    userId: string,
+    status: PlayerStatusRecord['status'],
+    reason: PlayerStatusReason
+  ): boolean {
     // Проверка, является ли пользователь ведущим
-    if (!this.isUserHost(hostId)) {
-      console.log(`Пользователь ${hostId} не является ведущим и не может отметить игрока как убитого`);
+    if (!this.room.slotManager.isUserHost(hostId)) {
+      console.log(`Пользователь ${hostId} не является ведущим и не может отметить игрока как выбывшего`);
+      return false;
+    }
+
+    // Выбыть может только живой игрок за столом (не ведущий и не зритель)
+    const slotNumber = this.room.slotManager.getUserSlot(userId);
+    if (slotNumber === undefined || slotNumber === HOST_SLOT) {
+      console.log(`Пользователь ${userId} не занимает место игрока и не может выбыть`);
+      return false;
+    }
+
+    // Повторное выбывание перезаписало бы причину и снова запустило бы проверку победы
+    if (!this.isPlayerAlive(userId)) {
+      console.log(`Игрок ${userId} уже выбыл из игры`);
       return false;
     }
 
-    // Ведущий не может быть убит
-    if (this.isUserHost(userId)) {
-      console.log(`Ведущий ${userId} не может быть отмечен как убитый`);
+    // После окончания игры состав не меняется
+    if (this.room.gameSessionManager.getPhase() === 'game_over') {
+      console.log(`Игра окончена, игрок ${userId} не может выбыть`);
       return false;
     }
 
-    // Отмечаем игрока как убитого
-    this.killedPlayers.set(userId, true);
-    console.log(`Игрок ${userId} отмечен как убитый ведущим ${hostId}`);
+    this.setStatus(userId, status, reason);
+    console.log(`Игрок ${userId} отмечен как ${status} (${reason}) ведущим ${hostId}`);
     
     // Отправляем обновление всем клиентам
     this.broadcastPlayerStates();
+    this.room.events.emit('player_eliminated', userId, hostId);
     
     return true;
   }
@@ -50,13 +106,13 @@ export class PlayerStateManager {
    */
   markPlayerAsAlive(hostId: string, userId: string): boolean {
     // Проверка, является ли пользователь ведущим
-    if (!this.isUserHost(hostId)) {
+    if (!this.room.slotManager.isUserHost(hostId)) {
       console.log(`Пользователь ${hostId} не является ведущим и не может отметить игрока как живого`);
       return false;
     }
 
-    // Удаляем пометку "убит"
-    this.killedPlayers.delete(userId);
+    // Удаляем запись о выбывании
+    this.statuses.delete(userId);
     console.log(`Игрок ${userId} отмечен как живой ведущим ${hostId}`);
     
     // Отправляем обновление всем клиентам
@@ -71,7 +127,150 @@ export class PlayerStateManager {
    * @returns true если игрок убит
    */
   isPlayerKilled(userId: string): boolean {
-    return this.killedPlayers.get(userId) === true;
+    return this.getPlayerStatus(userId) === 'killed';
+  }
+
+  /**
+   * Проверить, удален ли игрок за фолы
+   * @param userId ID пользователя
+   * @returns true если игрок удален
+   */
+  isPlayerRemoved(userId: string): boolean {
+    return this.getPlayerStatus(userId) === 'removed';
+  }
+
+  /**
+   * Проверить, остается ли игрок в игре (не выбыл ни по какой причине)
+   * @param userId ID пользователя
+   */
+  isPlayerAlive(userId: string): boolean {
+    return !this.statuses.has(userId);
+  }
+
+  /**
+   * Получить статус игрока
+   * @param userId ID пользователя
+   */
+  getPlayerStatus(userId: string): PlayerStatus {
+    return this.statuses.get(userId)?.status ?? 'alive';
+  }
+
+  /**
+   * Получить запись о выбывании игрока
+   * @param userId ID пользователя
+   * @returns Запись или undefined, если игрок в игре
+   */
+  getStatusRecord(userId: string): PlayerStatusRecord | undefined {
+    return this.statuses.get(userId);
+  }
+
+  /**
+   * Проверить, пропускает ли игрок следующую речь
+   * @param userId ID пользователя
+   */
+  isPlayerSilenced(userId: string): boolean {
+    return this.silencedPlayers.get(userId) === true;
+  }
+
+  /**
+   * Получить количество фолов игрока
+   * @param userId ID пользователя
+   */
+  getFouls(userId: string): number {
+    return this.fouls.get(userId) || 0;
+  }
+
+  /**
+   * Выдать игроку фол
+   * Последствия берутся из набора правил: пропуск следующей речи и удаление из игры
+   * @param hostId ID пользователя-ведущего
+   * @param userId ID игрока
+   * @returns true если операция успешна
+   */
+  addFoul(hostId: string, userId: string): boolean {
+    if (!this.room.slotManager.isUserHost(hostId)) {
+      console.log(`Пользователь ${hostId} не является ведущим и не может выдавать фолы`);
+      return false;
+    }
+
+    if (this.room.slotManager.isUserHost(userId) || this.isPlayerRemoved(userId) || this.room.gameSessionManager.getPhase() === 'game_over') {
+      return false;
+    }
+
+    const { foulsToSilence, foulsToRemove } = this.room.gameSessionManager.getRuleset();
+    const fouls = this.getFouls(userId) + 1;
+    this.fouls.set(userId, fouls);
+    console.log(`Игрок ${userId} получил фол (${fouls})`);
+
+    if (fouls === foulsToSilence && fouls < foulsToRemove) {
+      this.silencedPlayers.set(userId, true);
+      console.log(`Игрок ${userId} пропускает следующую речь`);
+    } else if (fouls >= foulsToRemove) {
+      this.silencedPlayers.delete(userId);
+      this.setStatus(userId, 'removed', 'fouls');
+      console.log(`Игрок ${userId} удален из игры за ${fouls} фола`);
+    }
+
+    this.broadcastPlayerStates();
+    this.room.events.emit('foul_added', userId, fouls);
+    if (fouls >= foulsToRemove) {
+      this.room.events.emit('player_eliminated', userId, hostId);
+    }
+    return true;
+  }
+
+  /**
+   * Снять с игрока фол (исправление ошибки ведущего)
+   * Последствия фолов отменяются, если их количество опустилось ниже порога
+   * @param hostId ID пользователя-ведущего
+   * @param userId ID игрока
+   * @returns true если операция успешна
+   */
+  removeFoul(hostId: string, userId: string): boolean {
+    if (!this.room.slotManager.isUserHost(hostId)) {
+      console.log(`Пользователь ${hostId} не является ведущим и не может снимать фолы`);
+      return false;
+    }
+
+    const fouls = this.getFouls(userId);
+    if (fouls === 0) {
+      return false;
+    }
+
+    const { foulsToSilence, foulsToRemove } = this.room.gameSessionManager.getRuleset();
+
+    if (fouls - 1 === 0) {
+      this.fouls.delete(userId);
+    } else {
+      this.fouls.set(userId, fouls - 1);
+    }
+
+    if (fouls - 1 < foulsToRemove && this.statuses.get(userId)?.reason === 'fouls') {
+      this.statuses.delete(userId);
+      // Возвращенный в игру игрок снова на пороге фолов и пропускает речь
+      if (foulsToSilence !== null && fouls - 1 >= foulsToSilence) {
+        this.silencedPlayers.set(userId, true);
+      }
+    }
+    if (foulsToSilence === null || fouls - 1 < foulsToSilence) {
+      this.silencedPlayers.delete(userId);
+    }
+
+    console.log(`С игрока ${userId} снят фол (${fouls - 1})`);
+    this.broadcastPlayerStates();
+    this.room.events.emit('foul_removed', userId, fouls - 1);
+    return true;
+  }
+
+  /**
+   * Отметить, что игрок пропустил речь из-за фолов
+   * @param userId ID игрока
+   */
+  consumeSilence(userId: string): void {
+    if (this.silencedPlayers.delete(userId)) {
+      console.log(`Игрок ${userId} пропустил речь из-за фолов`);
+      this.broadcastPlayerStates();
+    }
   }
 
   /**
@@ -79,56 +278,40 @@ export class PlayerStateManager {
    */
   getPlayerStates(): PlayerStates {
     // Преобразуем Map в объект для отправки клиентам
-    const killedPlayersObj: Record<string, boolean> = {};
-    this.killedPlayers.forEach((value, key) => {
-      killedPlayersObj[key] = value;
+    const statusesObj: Record<string, PlayerStatusRecord> = {};
+    this.statuses.forEach((value, key) => {
+      statusesObj[key] = value;
     });
     
     return {
-      killedPlayers: killedPlayersObj
+      statuses: statusesObj,
+      fouls: Object.fromEntries(this.fouls),
+      silencedPlayers: Object.fromEntries(this.silencedPlayers)
     };
   }
 
   /**
-   * Отправить состояния игроков всем клиентам
+   * Сообщить об изменении состояний игроков (клиенты получат его как изменение состояния стола)
    */
   broadcastPlayerStates(): void {
-    const playerStates = this.getPlayerStates();
-    const message: WebSocketMessage = {
-      type: "player_states_update",
-      playerStates
-    };
-    
-    // Отправляем через WebSocket
-    connectionManager.broadcastToAll(message);
-    
-    // Также отправляем через EventEmitter для обработчиков
-    globalEvents.emit("player_states_updated", playerStates);
-    
+    this.room.events.emit("player_states_updated", this.getPlayerStates());
     console.log('Отправлено обновление состояний игроков всем клиентам');
   }
 
   /**
-   * Отправить текущие состояния игроков конкретному клиенту
-   * @param userId ID пользователя
+   * Записать статус выбывания игрока с текущим днем и временем
+   * @param userId ID игрока
+   * @param status Статус выбывания
+   * @param reason Причина
    */
-  sendPlayerStatesToUser(userId: string): void {
-    const message: WebSocketMessage = {
-      type: "player_states_update",
-      playerStates: this.getPlayerStates()
-    };
-    
-    connectionManager.sendToUser(userId, message);
-    console.log(`Отправлено обновление состояний игроков пользователю ${userId}`);
-  }
-
-  /**
-   * Проверить, является ли пользователь ведущим
-   * @param userId ID пользователя
-   * @returns true, если пользователь - ведущий
-   */
-  private isUserHost(userId: string): boolean {
-    return userId.startsWith('Host-');
+  private setStatus(userId: string, status: PlayerStatusRecord['status'], reason: PlayerStatusReason): void {
+    this.statuses.set(userId, {
+      status,
+      reason,
+      round: this.room.gameSessionManager.getSessionState().round,
+      slotNumber: this.room.slotManager.getUserSlot(userId) ?? null,
+      timestamp: Date.now()
+    });
   }
 
   /**
@@ -138,13 +321,15 @@ export class PlayerStateManager {
    */
   resetAllPlayerStates(hostId: string): boolean {
     // Проверка, является ли пользователь ведущим
-    if (!this.isUserHost(hostId)) {
+    if (!this.room.slotManager.isUserHost(hostId)) {
       console.log(`Пользователь ${hostId} не является ведущим и не может сбросить состояния игроков`);
       return false;
     }
 
-    // Сбрасываем все отметки
-    this.killedPlayers.clear();
+    // Сбрасываем все отметки и фолы
+    this.statuses.clear();
+    this.fouls.clear();
+    this.silencedPlayers.clear();
     console.log(`Все состояния игроков сброшены ведущим ${hostId}`);
     
     // Отправляем обновление всем клиентам
@@ -158,13 +343,66 @@ export class PlayerStateManager {
    * @param userId ID пользователя
    */
   clearPlayerState(userId: string): void {
-    if (this.killedPlayers.has(userId)) {
-      this.killedPlayers.delete(userId);
+    // Живой игрок, ушедший посреди игры, остается в списке как покинувший игру
+    const phase = this.room.gameSessionManager.getPhase();
+    if (this.isPlayerAlive(userId) && this.room.roleManager.getRole(userId) && phase !== 'lobby' && phase !== 'game_over') {
+      this.silencedPlayers.delete(userId);
+      this.setStatus(userId, 'left', 'disconnected');
+      console.log(`Игрок ${userId} покинул игру`);
+      this.broadcastPlayerStates();
+      this.room.events.emit('player_eliminated', userId);
+      return;
+    }
+
+    const hadState = this.statuses.has(userId) || this.fouls.has(userId);
+    if (hadState) {
+      this.statuses.delete(userId);
+      this.fouls.delete(userId);
+      this.silencedPlayers.delete(userId);
       console.log(`Состояние удалено для отключившегося пользователя ${userId}`);
       this.broadcastPlayerStates();
     }
   }
 }
 
-// Экспортируем глобальный экземпляр менеджера
-export const playerStateManager = new PlayerStateManager();
\ No newline at end of file
+/**
+ * Зарегистрировать команды состояний игроков
+ * @param dispatcher Диспетчер команд
+ */
+export function registerPlayerStateCommands(dispatcher: CommandDispatcher): void {
+  dispatcher.register('kill_player', {
+    access: 'host',
+    deniedMessage: 'Только ведущий может отмечать игроков как убитых',
+    handle: ({ userId, room, message }) =>
+      room.playerStateManager.markPlayerAsKilled(userId, message.targetUserId) ? null : 'Не удалось отметить игрока как убитого'
+  });
+  
+  dispatcher.register('revive_player', {
+    access: 'host',
+    deniedMessage: 'Только ведущий может отмечать игроков как живых',
+    handle: ({ userId, room, message }) =>
+      room.playerStateManager.markPlayerAsAlive(userId, message.targetUserId) ? null : 'Не удалось вернуть игрока в игру'
+  });
+  
+  dispatcher.register('add_foul', {
+    access: 'host',
+    deniedMessage: 'Только ведущий может выдавать фолы',
+    handle: ({ userId, room, message }) =>
+      room.playerStateManager.addFoul(userId, message.targetUserId) ? null : 'Фол можно выдать только игроку в игре'
+  });
+  
+  dispatcher.register('remove_foul', {
+    access: 'host',
+    deniedMessage: 'Только ведущий может снимать фолы',
+    handle: ({ userId, room, message }) =>
+      room.playerStateManager.removeFoul(userId, message.targetUserId) ? null : 'У игрока нет фолов'
+  });
+  
+  dispatcher.register('reset_player_states', {
+    access: 'host',
+    deniedMessage: 'Только ведущий может сбрасывать состояния игроков',
+    handle: ({ userId, room }) => {
+      room.playerStateManager.resetAllPlayerStates(userId);
+    }
+  });
+}
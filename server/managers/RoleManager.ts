@@ -0,0 +1,193 @@
+import { PlayerRole, RoleAssignment, GameSessionState, GamePhase } from '@shared/schema';
+import { buildRoleDeck } from '@shared/rulesets';
+import type { GameRoom } from './GameRoom';
+import type { CommandDispatcher } from './CommandDispatcher';
+import { connectionManager } from './ConnectionManager';
+
+// Слот ведущего не участвует в раздаче
+const HOST_SLOT = 12;
+
+/**
+ * Менеджер ролей - тайно раздает роли игрокам и доставляет каждому только его роль
+ */
+export class RoleManager {
+  // Назначенные роли (ID пользователя -> роль)
+  private roles = new Map<string, PlayerRole>();
+
+  // Номер слота игрока на момент раздачи (ID пользователя -> номер слота)
+  private dealtSlots = new Map<string, number>();
+
+  constructor(private readonly room: GameRoom) {
+    console.log('RoleManager: Инициализирован');
+
+    // Раздаем роли при переходе в фазу раздачи и очищаем при возврате в лобби
+    this.room.events.on('game_phase_changed', (session: GameSessionState, previousPhase: GamePhase) => {
+      if (session.phase === 'role_dealing' && previousPhase !== 'role_dealing') {
+        this.dealRoles();
+      } else if (session.phase === 'lobby') {
+        this.clearRoles();
+      }
+    });
+  }
+
+  /**
+   * Повторно раздать роли (только для ведущего)
+   * @param hostId ID ведущего
+   * @returns true если роли розданы
+   */
+  redealRoles(hostId: string): boolean {
+    if (!this.room.slotManager.isUserHost(hostId)) {
+      console.log(`Пользователь ${hostId} не является ведущим и не может раздавать роли`);
+      return false;
+    }
+
+    return this.dealRoles();
+  }
+
+  /**
+   * Получить роль игрока
+   * @param userId ID пользователя
+   */
+  getRole(userId: string): PlayerRole | undefined {
+    return this.roles.get(userId);
+  }
+
+  /**
+   * Получить полную таблицу ролей, отсортированную по номеру слота
+   */
+  getAssignments(): RoleAssignment[] {
+    const assignments: RoleAssignment[] = [];
+
+    this.roles.forEach((role, userId) => {
+      assignments.push({
+        userId,
+        slotNumber: this.room.slotManager.getUserSlot(userId) ?? this.dealtSlots.get(userId) ?? 0,
+        role
+      });
+    });
+
+    return assignments.sort((a, b) => a.slotNumber - b.slotNumber);
+  }
+
+  /**
+   * Проверить, розданы ли роли
+   */
+  hasRoles(): boolean {
+    return this.roles.size > 0;
+  }
+
+  /**
+   * Отправить пользователю то, что ему положено знать о ролях:
+   * игроку - только его роль, ведущему - всю таблицу
+   * @param userId ID пользователя
+   */
+  sendRoleInfoToUser(userId: string): void {
+    if (this.room.slotManager.isUserHost(userId)) {
+      connectionManager.sendToUser(userId, {
+        type: 'roles_table',
+        roles: this.getAssignments()
+      });
+      return;
+    }
+
+    const role = this.roles.get(userId);
+    connectionManager.sendToUser(userId, {
+      type: 'role_assigned',
+      role: role ?? null
+    });
+  }
+
+  /**
+   * Очистить все роли
+   */
+  clearRoles(): void {
+    if (this.roles.size === 0) {
+      return;
+    }
+
+    const previousPlayers = Array.from(this.roles.keys());
+    this.roles.clear();
+    this.dealtSlots.clear();
+    console.log('Роли игроков очищены');
+
+    // Сообщаем игрокам и ведущему, что ролей больше нет
+    previousPlayers.forEach(userId => this.sendRoleInfoToUser(userId));
+    this.sendTableToHost();
+  }
+
+  /**
+   * Раздать роли занятым слотам игроков (кроме ведущего)
+   * @returns true если роли розданы
+   */
+  private dealRoles(): boolean {
+    const players: Array<{ userId: string; slotNumber: number }> = [];
+
+    this.room.slotManager.getSlotAssignments().forEach((userId, slotNumber) => {
+      if (slotNumber !== HOST_SLOT && !this.room.slotManager.isUserHost(userId)) {
+        players.push({ userId, slotNumber });
+      }
+    });
+
+    if (players.length === 0) {
+      console.log('Нет игроков для раздачи ролей');
+      return false;
+    }
+
+    // Состав ролей берется из выбранного набора правил, затем колода перемешивается
+    const deck = buildRoleDeck(this.room.gameSessionManager.getRuleset(), players.length);
+    for (let i = deck.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [deck[i], deck[j]] = [deck[j], deck[i]];
+    }
+
+    this.roles.clear();
+    this.dealtSlots.clear();
+    players.forEach(({ userId, slotNumber }, index) => {
+      this.roles.set(userId, deck[index]);
+      this.dealtSlots.set(userId, slotNumber);
+    });
+
+    console.log(`Розданы роли для ${players.length} игроков`);
+
+    // Каждый игрок получает только свою роль
+    players.forEach(({ userId }) => this.sendRoleInfoToUser(userId));
+    this.sendTableToHost();
+
+    this.room.events.emit('roles_dealt', this.getAssignments());
+
+    return true;
+  }
+
+  /**
+   * Отправить полную таблицу ролей ведущему
+   */
+  private sendTableToHost(): void {
+    const hostId = this.room.slotManager.getSlotAssignments().get(HOST_SLOT);
+    if (hostId && this.room.slotManager.isUserHost(hostId)) {
+      this.sendRoleInfoToUser(hostId);
+    }
+  }
+}
+
+/**
+ * Зарегистрировать команды ролей
+ * @param dispatcher Диспетчер команд
+ */
+export function registerRoleCommands(dispatcher: CommandDispatcher): void {
+  // Ведущий повторно раздает роли (только во время фазы раздачи)
+  dispatcher.register('redeal_roles', {
+    access: 'host',
+    deniedMessage: 'Только ведущий может раздать роли заново',
+    handle: ({ userId, room }) =>
+      room.gameSessionManager.getPhase() === 'role_dealing' && room.roleManager.redealRoles(userId)
+        ? null
+        : 'Роли можно раздать заново только во время фазы раздачи'
+  });
+  
+  // Запрос собственной роли (ведущий получает всю таблицу)
+  dispatcher.register('get_my_role', {
+    handle: ({ userId, room }) => {
+      room.roleManager.sendRoleInfoToUser(userId);
+    }
+  });
+}
@@ -0,0 +1,179 @@
+import { DEFAULT_ROOM_ID, ROOM_SEAT_COUNT, RoomSummary } from '@shared/schema';
+import { GameRoom } from './GameRoom';
+import { connectionManager } from './ConnectionManager';
+import { inviteManager } from './InviteManager';
+import { globalEvents } from './EventEmitter';
+
+// Слот ведущего
+const HOST_SLOT = 12;
+
+// Задержка, за которую изменения комнат собираются в одно обновление списка столов
+const ROOMS_UPDATE_DELAY = 250;
+
+/**
+ * Менеджер комнат - создает игровые комнаты по запросу и помнит, в какой комнате каждый пользователь
+ */
+export class RoomManager {
+  // Открытые комнаты (ID комнаты -> комната)
+  private rooms = new Map<string, GameRoom>();
+
+  // Комната каждого подключенного пользователя (ID пользователя -> ID комнаты)
+  private userRooms = new Map<string, string>();
+
+  // Таймер отложенного обновления списка столов
+  private roomsUpdateTimer: NodeJS.Timeout | null = null;
+
+  constructor() {
+    console.log('RoomManager: Инициализирован');
+  }
+
+  /**
+   * Получить комнату или создать ее, если она еще не открыта
+   * @param roomId ID комнаты
+   */
+  getOrCreateRoom(roomId: string = DEFAULT_ROOM_ID): GameRoom {
+    let room = this.rooms.get(roomId);
+
+    if (!room) {
+      room = new GameRoom(roomId);
+      this.rooms.set(roomId, room);
+
+      // Рассадка и фаза игры видны в списке столов
+      room.events.on('slots_updated', () => this.scheduleRoomsUpdate());
+      room.events.on('game_phase_changed', () => this.scheduleRoomsUpdate());
+
+      globalEvents.emit('room_created', room);
+      this.scheduleRoomsUpdate();
+    }
+
+    return room;
+  }
+
+  /**
+   * Получить открытую комнату
+   * @param roomId ID комнаты
+   */
+  getRoom(roomId: string): GameRoom | undefined {
+    return this.rooms.get(roomId);
+  }
+
+  /**
+   * Получить все открытые комнаты
+   */
+  getRooms(): GameRoom[] {
+    return Array.from(this.rooms.values());
+  }
+
+  /**
+   * Получить комнату пользователя
+   * @param userId ID пользователя
+   */
+  getUserRoom(userId: string): GameRoom | undefined {
+    const roomId = this.userRooms.get(userId);
+    return roomId !== undefined ? this.rooms.get(roomId) : undefined;
+  }
+
+  /**
+   * Получить пользователей комнаты
+   * @param roomId ID комнаты
+   */
+  getRoomUserIds(roomId: string): string[] {
+    const userIds: string[] = [];
+
+    this.userRooms.forEach((userRoomId, userId) => {
+      if (userRoomId === roomId) {
+        userIds.push(userId);
+      }
+    });
+
+    return userIds;
+  }
+
+  /**
+   * Поместить пользователя в комнату (комната создается при необходимости)
+   * @param userId ID пользователя
+   * @param roomId ID комнаты
+   */
+  joinRoom(userId: string, roomId: string): GameRoom {
+    const room = this.getOrCreateRoom(roomId);
+    this.userRooms.set(userId, room.id);
+    console.log(`Пользователь ${userId} вошел в комнату ${room.id}`);
+    this.scheduleRoomsUpdate();
+    return room;
+  }
+
+  /**
+   * Убрать пользователя из комнаты. Пустая комната закрывается в любой фазе: сюда пользователь
+   * попадает только после того, как истекло время, на которое придерживалось его место
+   * @param userId ID пользователя
+   */
+  leaveRoom(userId: string): void {
+    const room = this.getUserRoom(userId);
+    this.userRooms.delete(userId);
+
+    if (!room) {
+      return;
+    }
+
+    console.log(`Пользователь ${userId} покинул комнату ${room.id}`);
+
+    if (this.getRoomUserIds(room.id).length === 0) {
+      this.rooms.delete(room.id);
+      room.dispose();
+      globalEvents.emit('room_closed', room.id);
+    }
+
+    this.scheduleRoomsUpdate();
+  }
+
+  /**
+   * Получить состояние комнаты для списка столов
+   * @param room Комната
+   */
+  getRoomSummary(room: GameRoom): RoomSummary {
+    const userIds = this.getRoomUserIds(room.id);
+    const hostId = room.slotManager.getSlotAssignments().get(HOST_SLOT);
+    // Зрители - участники с ролью зрителя; игроки, ждущие свободного слота, зрителями не считаются
+    const spectatorCount = userIds.filter(userId => room.slotManager.isUserSpectator(userId)).length;
+
+    return {
+      roomId: room.id,
+      // Ведущий считается присутствующим, пока его соединение активно или место придержано до его возвращения
+      hasHost: !!hostId && room.slotManager.isUserHost(hostId) &&
+        (connectionManager.isUserConnected(hostId) || connectionManager.isSeatHeld(hostId)),
+      occupiedSeats: room.slotManager.getOccupiedSlotsCount(),
+      seatCount: ROOM_SEAT_COUNT,
+      phase: room.gameSessionManager.getPhase(),
+      userCount: userIds.length,
+      spectatorCount,
+      passwordProtected: inviteManager.isPasswordProtected(room.id)
+    };
+  }
+
+  /**
+   * Получить состояние всех открытых комнат (по алфавиту)
+   */
+  getRoomSummaries(): RoomSummary[] {
+    return this.getRooms()
+      .map(room => this.getRoomSummary(room))
+      .sort((a, b) => a.roomId.localeCompare(b.roomId));
+  }
+
+  /**
+   * Запланировать рассылку списка столов: частые изменения (перемешивание, массовые переподключения)
+   * объединяются в одно событие rooms_updated
+   */
+  scheduleRoomsUpdate(): void {
+    if (this.roomsUpdateTimer) {
+      return;
+    }
+
+    this.roomsUpdateTimer = setTimeout(() => {
+      this.roomsUpdateTimer = null;
+      globalEvents.emit('rooms_updated', this.getRoomSummaries());
+    }, ROOMS_UPDATE_DELAY);
+  }
+}
+
+// Создаем глобальный экземпляр менеджера комнат
+export const roomManager = new RoomManager();
@@ -0,0 +1,137 @@
+import { PlayerStates, RoomStateDelta, RoomStateDocument, SlotInfo } from '@shared/schema';
+import { ServerMessage } from '@shared/protocol';
+import type { GameRoom } from './GameRoom';
+import type { CommandDispatcher } from './CommandDispatcher';
+import { connectionManager } from './ConnectionManager';
+
+/**
+ * Менеджер состояния стола - ведет единый документ со слотами, камерами и состояниями игроков.
+ * Изменения за такт рассылки объединяются и уходят клиентам комнаты одним изменением
+ * со следующей версией документа; клиент, заметивший пропуск версии, запрашивает полный снимок
+ */
+export class RoomStateManager {
+  // Версия документа: растет на единицу с каждым разосланным изменением
+  private version = 0;
+  // Последние разосланные состояния камер (по ним считается, какие камеры изменились)
+  private publishedCameraStates: Record<string, boolean> = {};
+  // Изменения, накопленные до ближайшего такта рассылки
+  private pendingDelta: RoomStateDelta | null = null;
+
+  constructor(private readonly room: GameRoom) {
+    // Менеджеры комнаты сообщают об изменениях событиями
+    this.room.events.on('slots_updated', (slots: SlotInfo[]) => this.publish({ slots }));
+    this.room.events.on('cameras_updated', (cameraStates: Record<string, boolean>) => this.publishCameraStates(cameraStates));
+    this.room.events.on('player_states_updated', (playerStates: PlayerStates) => this.publish({ playerStates }));
+
+    console.log('RoomStateManager: Инициализирован');
+  }
+
+  /**
+   * Получить текущую версию документа
+   */
+  getVersion(): number {
+    return this.version;
+  }
+
+  /**
+   * Получить текущее состояние стола
+   */
+  getDocument(): RoomStateDocument {
+    return {
+      slots: this.room.slotManager.getAllSlotAssignments(),
+      cameraStates: this.room.cameraManager.getAllCameraStates(),
+      playerStates: this.room.playerStateManager.getPlayerStates()
+    };
+  }
+
+  /**
+   * Получить сообщение с полным снимком состояния стола
+   */
+  getSnapshotMessage(): ServerMessage {
+    return {
+      type: 'room_state_snapshot',
+      version: this.version,
+      state: this.getDocument()
+    };
+  }
+
+  /**
+   * Отправить полный снимок состояния стола конкретному пользователю
+   * @param userId ID пользователя
+   */
+  sendSnapshotToUser(userId: string): void {
+    connectionManager.sendToUser(userId, this.getSnapshotMessage());
+    console.log(`Отправлен снимок состояния стола версии ${this.version} пользователю ${userId}`);
+  }
+
+  /**
+   * Разослать изменение камер: только камеры, состояние которых отличается от разосланного
+   * @param cameraStates Текущие состояния всех камер
+   */
+  private publishCameraStates(cameraStates: Record<string, boolean>): void {
+    const changes: Record<string, boolean | null> = {};
+
+    Object.entries(cameraStates).forEach(([userId, isEnabled]) => {
+      if (this.publishedCameraStates[userId] !== isEnabled) {
+        changes[userId] = isEnabled;
+      }
+    });
+    Object.keys(this.publishedCameraStates).forEach(userId => {
+      if (!(userId in cameraStates)) {
+        changes[userId] = null;
+      }
+    });
+
+    this.publishedCameraStates = { ...cameraStates };
+    if (Object.keys(changes).length > 0) {
+      this.publish({ cameraStates: changes });
+    }
+  }
+
+  /**
+   * Добавить изменение документа к рассылке ближайшего такта
+   * @param delta Изменение
+   */
+  private publish(delta: RoomStateDelta): void {
+    const pending = this.pendingDelta ?? {};
+
+    // Слоты и состояния игроков приходят целиком - остается последнее, камеры дополняют друг друга
+    this.pendingDelta = {
+      ...pending,
+      ...delta,
+      ...(delta.cameraStates && { cameraStates: { ...pending.cameraStates, ...delta.cameraStates } })
+    };
+    connectionManager.queueRoomUpdate(this.room.id, 'room_state_delta', () => this.takeDeltaMessage());
+  }
+
+  /**
+   * Забрать накопленные изменения как сообщение со следующей версией документа
+   */
+  private takeDeltaMessage(): ServerMessage | null {
+    const delta = this.pendingDelta;
+    if (!delta) {
+      return null;
+    }
+
+    this.pendingDelta = null;
+    this.version += 1;
+    return {
+      type: 'room_state_delta',
+      version: this.version,
+      delta
+    };
+  }
+}
+
+/**
+ * Зарегистрировать команды состояния стола
+ * @param dispatcher Диспетчер команд
+ */
+export function registerRoomStateCommands(dispatcher: CommandDispatcher): void {
+  // Клиент заметил пропуск версии (или только подключил модуль) и запрашивает полный снимок
+  dispatcher.register('get_room_state', {
+    handle: ({ userId, room }) => {
+      room.roomStateManager.sendSnapshotToUser(userId);
+    }
+  });
+}
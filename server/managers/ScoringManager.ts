@@ -0,0 +1,245 @@
+import { GamePhase, GameScoreSheet, GameSessionState, PlayerScore, getIdentityName } from '@shared/schema';
+import { getRoleTeam } from '@shared/roles';
+import type { GameRoom } from './GameRoom';
+import type { CommandDispatcher } from './CommandDispatcher';
+import { connectionManager } from './ConnectionManager';
+
+/**
+ * Менеджер подсчета баллов - после окончания игры считает баллы по выбранному набору правил,
+ * записывает игру в хранилище и принимает дополнительные баллы от ведущего
+ */
+export class ScoringManager {
+  // Итоговая таблица последней игры (null до окончания игры)
+  private sheet: GameScoreSheet | null = null;
+
+  constructor(private readonly room: GameRoom) {
+    console.log('ScoringManager: Инициализирован');
+
+    this.room.events.on('game_phase_changed', (session: GameSessionState, previousPhase: GamePhase, hostId: string) => {
+      if (session.phase === 'game_over' && previousPhase !== 'game_over') {
+        this.buildScoreSheet(session);
+      } else if (session.phase === 'lobby' && this.sheet) {
+        // Неутвержденные итоги утверждаются автоматически при возврате в лобби
+        if (!this.sheet.finalized) {
+          this.finalizeScores(hostId);
+        }
+        this.sheet = null;
+        this.broadcastScoreSheet();
+      }
+    });
+  }
+
+  /**
+   * Получить итоговую таблицу последней игры
+   */
+  getScoreSheet(): GameScoreSheet | null {
+    return this.sheet;
+  }
+
+  /**
+   * Назначить игроку дополнительные баллы (только для ведущего, до утверждения итогов)
+   * @param hostId ID ведущего
+   * @param slotNumber Слот игрока
+   * @param points Дополнительные баллы
+   * @returns Текст ошибки или null, если баллы назначены
+   */
+  setExtraPoints(hostId: string, slotNumber: number, points: number): string | null {
+    if (!this.room.slotManager.isUserHost(hostId)) {
+      return 'Только ведущий может назначать дополнительные баллы';
+    }
+
+    if (!this.sheet || this.sheet.finalized) {
+      return 'Дополнительные баллы назначаются только до утверждения итогов игры';
+    }
+
+    const maxExtraPoints = this.room.gameSessionManager.getRuleset().scoring.maxExtraPoints;
+    if (isNaN(points) || points < 0 || points > maxExtraPoints) {
+      return `Дополнительные баллы должны быть от 0 до ${maxExtraPoints}`;
+    }
+
+    const score = this.sheet.scores.find(entry => entry.slotNumber === slotNumber);
+    if (!score) {
+      return 'В выбранном слоте нет игрока этой игры';
+    }
+
+    score.extraPoints = roundPoints(points);
+    score.total = this.calculateTotal(score);
+
+    console.log(`Ведущий ${hostId} назначил слоту ${slotNumber} дополнительные баллы: ${score.extraPoints}`);
+    this.broadcastScoreSheet();
+
+    return null;
+  }
+
+  /**
+   * Утвердить итоги игры: дополнительные баллы фиксируются и записываются в хранилище
+   * @param hostId ID ведущего
+   * @returns true, если итоги утверждены
+   */
+  finalizeScores(hostId: string): boolean {
+    if (!this.room.slotManager.isUserHost(hostId) || !this.sheet || this.sheet.finalized) {
+      return false;
+    }
+
+    const sheet = this.sheet;
+    sheet.finalized = true;
+    console.log(`Ведущий ${hostId} утвердил итоги игры`);
+    this.broadcastScoreSheet();
+
+    // Если игра еще записывается, баллы обновятся после записи
+    if (sheet.gameId !== null) {
+      this.savePoints(sheet);
+    }
+
+    return true;
+  }
+
+  /**
+   * Отправить итоговую таблицу всем клиентам
+   */
+  broadcastScoreSheet(): void {
+    connectionManager.broadcastToRoom(this.room.id, {
+      type: 'score_update',
+      sheet: this.sheet
+    });
+  }
+
+  /**
+   * Отправить итоговую таблицу одному пользователю
+   * @param userId ID пользователя
+   */
+  sendScoreSheetToUser(userId: string): void {
+    connectionManager.sendToUser(userId, {
+      type: 'score_update',
+      sheet: this.sheet
+    });
+  }
+
+  /**
+   * Посчитать баллы всех игроков после окончания игры
+   * @param session Состояние сессии с итогом игры
+   */
+  private buildScoreSheet(session: GameSessionState): void {
+    if (!session.result) {
+      return;
+    }
+
+    const rules = this.room.gameSessionManager.getRuleset().scoring;
+    const winner = session.result.winner;
+    const bestMoveVictimId = this.room.bestMoveManager.getVictimId();
+    const mafiaHits = this.room.bestMoveManager.countMafiaHits();
+
+    const scores = session.result.roles.map(({ userId, slotNumber, role }) => {
+      const won = getRoleTeam(role) === winner;
+      const penaltyPoints = this.room.playerStateManager.getFouls(userId) * rules.foulPenalty +
+        (this.room.playerStateManager.isPlayerRemoved(userId) ? rules.removalPenalty : 0);
+      const bestMovePoints = userId === bestMoveVictimId && mafiaHits !== null
+        ? rules.bestMovePoints[mafiaHits] ?? 0
+        : 0;
+
+      const score: PlayerScore = {
+        userId,
+        // Имя вошедшего игрока совпадает с никнеймом его учетной записи (это проверяется при выдаче токена)
+        accountId: this.room.slotManager.getUserAccountId(userId),
+        playerName: getIdentityName(userId),
+        slotNumber,
+        role,
+        won,
+        winPoints: won ? rules.winPoints : rules.lossPoints,
+        extraPoints: 0,
+        penaltyPoints: roundPoints(penaltyPoints),
+        bestMovePoints,
+        total: 0
+      };
+      score.total = this.calculateTotal(score);
+      return score;
+    });
+
+    this.sheet = {
+      rulesetId: session.rulesetId,
+      winner,
+      round: session.result.round,
+      finishedAt: session.result.finishedAt,
+      scores: scores.sort((a, b) => a.slotNumber - b.slotNumber),
+      finalized: false,
+      gameId: null
+    };
+
+    console.log(`Подсчитаны баллы игры: ${scores.map(score => `${score.slotNumber}: ${score.total}`).join(', ')}`);
+    this.broadcastScoreSheet();
+    this.recordGame(this.sheet);
+  }
+
+  /**
+   * Записать завершенную игру в хранилище
+   * @param sheet Итоговая таблица игры
+   */
+  private recordGame(sheet: GameScoreSheet): void {
+    this.room.gameHistoryManager.saveGame(sheet).then(game => {
+      sheet.gameId = game.id;
+      console.log(`Игра записана в хранилище (игра ${game.id})`);
+
+      if (sheet.finalized) {
+        this.savePoints(sheet);
+      }
+      if (this.sheet === sheet) {
+        this.broadcastScoreSheet();
+      }
+    }).catch(error => {
+      console.error('Ошибка записи игры в хранилище:', error);
+    });
+  }
+
+  /**
+   * Записать утвержденные баллы в хранилище
+   * @param sheet Итоговая таблица записанной игры
+   */
+  private savePoints(sheet: GameScoreSheet): void {
+    this.room.gameHistoryManager.updatePoints(sheet).catch(error => {
+      console.error(`Ошибка сохранения баллов игры ${sheet.gameId}:`, error);
+    });
+  }
+
+  /**
+   * Посчитать сумму баллов игрока
+   * @param score Баллы игрока
+   */
+  private calculateTotal(score: PlayerScore): number {
+    return roundPoints(score.winPoints + score.extraPoints + score.bestMovePoints - score.penaltyPoints);
+  }
+}
+
+/**
+ * Округлить баллы до сотых, чтобы не накапливать ошибку дробных сумм
+ * @param points Баллы
+ */
+function roundPoints(points: number): number {
+  return Math.round(points * 100) / 100;
+}
+
+/**
+ * Зарегистрировать команды итогов игры
+ * @param dispatcher Диспетчер команд
+ */
+export function registerScoringCommands(dispatcher: CommandDispatcher): void {
+  // Ведущий назначает игроку дополнительные баллы после игры
+  dispatcher.register('set_extra_points', {
+    access: 'host',
+    deniedMessage: 'Только ведущий может назначать дополнительные баллы',
+    handle: ({ userId, room, message }) => room.scoringManager.setExtraPoints(userId, message.slotNumber, message.points)
+  });
+  
+  // Ведущий сохраняет итоги игры
+  dispatcher.register('finalize_scores', {
+    access: 'host',
+    deniedMessage: 'Сохранить итоги может только ведущий',
+    handle: ({ userId, room }) =>
+      room.scoringManager.finalizeScores(userId) ? null : 'Итоги сохраняются только после окончания игры'
+  });
+  
+  dispatcher.register('get_score_sheet', {
+    handle: ({ userId, room }) => {
+      room.scoringManager.sendScoreSheetToUser(userId);
+    }
+  });
+}
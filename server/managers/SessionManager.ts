@@ -0,0 +1,163 @@
+import { SessionRole } from '@shared/schema';
+import { loadSigningSecret, signPayload, verifySignedPayload } from '../signing';
+import { roomManager } from './RoomManager';
+import { inviteManager } from './InviteManager';
+
+// Срок действия удостоверения (совпадает со сроком токена LiveKit)
+const SESSION_TTL = 24 * 60 * 60 * 1000;
+
+// Сколько идентификатор придерживается за получившим удостоверение до регистрации WebSocket (1 минута)
+const RESERVATION_TTL = 60 * 1000;
+
+/**
+ * Подписанное удостоверение участника: кто он, в какой комнате и с какой ролью
+ */
+export interface SessionClaim {
+  userId: string;
+  roomId: string;
+  role: SessionRole;
+  // Учетная запись вошедшего пользователя (null - гость)
+  accountId: number | null;
+  expiresAt: number;
+}
+
+/**
+ * Удостоверение, выданное, но еще не предъявленное при регистрации WebSocket
+ */
+interface SessionReservation {
+  roomId: string;
+  role: SessionRole;
+  expiresAt: number;
+}
+
+/**
+ * Менеджер сессий - выдает при входе подписанное удостоверение с ролью,
+ * по которому сервер, а не префикс идентификатора, определяет права участника
+ */
+export class SessionManager {
+  // Ключ подписи удостоверений
+  private secret = loadSigningSecret('SESSION_SECRET');
+  // Выданные, но еще не предъявленные удостоверения (ID пользователя -> комната и роль)
+  private reservations = new Map<string, SessionReservation>();
+
+  constructor() {
+    console.log('SessionManager: Инициализирован');
+  }
+
+  /**
+   * Определить роль входящего в комнату: приглашение с ролью задает ее само,
+   * а роль ведущего выдается, только если в комнате нет другого ведущего и ее не ждет
+   * другой получивший удостоверение ведущего
+   * @param roomId ID комнаты
+   * @param requestedRole Роль, выбранная на экране входа
+   * @param invite Приглашение из ссылки
+   * @returns Роль или null, если ведущий в комнате уже есть
+   */
+  resolveRole(roomId: string, requestedRole: SessionRole, invite?: string): SessionRole | null {
+    const invitePayload = invite ? inviteManager.verifyInvite(invite) : null;
+    if (invitePayload && invitePayload.roomId === roomId && invitePayload.role) {
+      return invitePayload.role;
+    }
+
+    if (requestedRole === 'host') {
+      const room = roomManager.getRoom(roomId);
+      if (room && roomManager.getRoomSummary(room).hasHost) {
+        return null;
+      }
+      if (this.getActiveReservations().some(([, reservation]) => reservation.roomId === roomId && reservation.role === 'host')) {
+        return null;
+      }
+    }
+
+    return requestedRole;
+  }
+
+  /**
+   * Проверить, занят ли идентификатор: его владелец уже в комнате (подключен или его место придержано)
+   * или только что получил удостоверение и еще не подключился
+   * @param userId ID пользователя
+   */
+  isIdentityTaken(userId: string): boolean {
+    return !!roomManager.getUserRoom(userId) || this.getActiveReservations().some(([reservedId]) => reservedId === userId);
+  }
+
+  /**
+   * Выдать удостоверение участнику и придержать за ним идентификатор и роль до регистрации WebSocket.
+   * Вызывается сразу после resolveRole, без ожидания между ними, чтобы роль ведущего не получили двое
+   * @param userId ID пользователя (идентификатор LiveKit)
+   * @param roomId ID комнаты
+   * @param role Роль участника
+   * @param accountId Учетная запись вошедшего пользователя (null - гость)
+   */
+  issueSession(userId: string, roomId: string, role: SessionRole, accountId: number | null = null): string {
+    const claim: SessionClaim = {
+      userId,
+      roomId,
+      role,
+      accountId,
+      expiresAt: Date.now() + SESSION_TTL
+    };
+
+    this.reservations.set(userId, { roomId, role, expiresAt: Date.now() + RESERVATION_TTL });
+
+    console.log(`Выдано удостоверение ${userId} (комната ${roomId}, роль ${role})`);
+    return signPayload(claim, this.secret);
+  }
+
+  /**
+   * Проверить удостоверение, предъявленное при регистрации WebSocket
+   * @param token Удостоверение
+   * @param userId ID пользователя, который его предъявил
+   * @returns Содержимое удостоверения или null, если оно подделано, истекло или выдано другому пользователю
+   */
+  verifySession(token: string, userId: string): SessionClaim | null {
+    const claim = verifySignedPayload<SessionClaim>(token, this.secret);
+    if (!claim || claim.userId !== userId || claim.expiresAt <= Date.now()) {
+      return null;
+    }
+
+    return claim;
+  }
+
+  /**
+   * Проверить удостоверение, с которым участник возвращается после перезагрузки страницы.
+   * Вернуться можно только в ту же комнату и только пока его место еще не освобождено
+   * @param token Удостоверение, сохраненное вкладкой
+   * @param userId ID пользователя, который его предъявил
+   * @param roomId ID комнаты, в которую он входит
+   * @returns Содержимое удостоверения или null, если вернуться на прежнее место нельзя
+   */
+  resumeSession(token: string, userId: string, roomId: string): SessionClaim | null {
+    const claim = this.verifySession(token, userId);
+    if (!claim || claim.roomId !== roomId || roomManager.getUserRoom(userId)?.id !== roomId) {
+      return null;
+    }
+
+    console.log(`Пользователь ${userId} возвращается в комнату ${roomId} с ролью ${claim.role}`);
+    return claim;
+  }
+
+  /**
+   * Снять бронь идентификатора: владелец удостоверения подключился, дальше его присутствие видно по комнате
+   * @param userId ID пользователя
+   */
+  completeReservation(userId: string): void {
+    this.reservations.delete(userId);
+  }
+
+  /**
+   * Получить неистекшие брони, попутно забыв истекшие
+   */
+  private getActiveReservations(): [string, SessionReservation][] {
+    const now = Date.now();
+    this.reservations.forEach((reservation, userId) => {
+      if (reservation.expiresAt <= now) {
+        this.reservations.delete(userId);
+      }
+    });
+    return Array.from(this.reservations.entries());
+  }
+}
+
+// Создаем глобальный экземпляр менеджера сессий
+export const sessionManager = new SessionManager();
@@ -1,9 +1,10 @@
-import { SlotInfo } from '@shared/schema';
-import { globalEvents } from './EventEmitter';
+import { SessionRole, SlotInfo } from '@shared/schema';
+import type { GameRoom } from './GameRoom';
+import type { CommandDispatcher } from './CommandDispatcher';
+import { connectionManager } from './ConnectionManager';
 
 // Константы для слотов
 const HOST_SLOT = 12;
-const HOST_PREFIX = 'Host-';
 const PLAYER_PREFIX = 'Player-';
 
 /**
@@ -16,25 +17,128 @@ export class SlotManager {
   // Обратная карта для быстрого доступа (ID пользователя -> номер слота)
   private userSlots = new Map<string, number>();
   
+  // Роли подключенных участников из подписанных удостоверений (ID пользователя -> роль)
+  private userRoles = new Map<string, SessionRole>();
+  
+  // Учетные записи вошедших участников из удостоверений (ID пользователя -> ID учетной записи)
+  private userAccounts = new Map<string, number>();
+  
+  // Имена, которые ведущий назначил участникам для отображения (ID пользователя -> имя)
+  private displayNames = new Map<string, string>();
+  
+  // Слоты, придержанные за приглашенными игроками (номер слота -> приглашение и время окончания брони)
+  private reservedSlots = new Map<number, { inviteId: string; expiresAt: number }>();
+  
   // Максимальное количество слотов
   private readonly maxSlots = 12;
   
-  constructor() {
+  // Таймер периодической проверки целостности
+  private integrityTimer: NodeJS.Timeout;
+  
+  constructor(private readonly room: GameRoom) {
     console.log('SlotManager: Инициализирован');
     
     // Проверка целостности данных каждые 30 секунд
-    setInterval(() => {
+    this.integrityTimer = setInterval(() => {
       this.validateIntegrity();
     }, 30000);
   }
   
+  /**
+   * Остановить периодическую проверку (при закрытии комнаты)
+   */
+  dispose(): void {
+    clearInterval(this.integrityTimer);
+  }
+  
+  /**
+   * Закрепить за пользователем роль из его удостоверения
+   * @param userId ID пользователя
+   * @param role Роль участника
+   */
+  bindUserRole(userId: string, role: SessionRole): void {
+    this.userRoles.set(userId, role);
+  }
+  
+  /**
+   * Закрепить за пользователем учетную запись из его удостоверения
+   * @param userId ID пользователя
+   * @param accountId ID учетной записи (null - гость)
+   */
+  bindUserAccount(userId: string, accountId: number | null): void {
+    if (accountId === null) {
+      this.userAccounts.delete(userId);
+    } else {
+      this.userAccounts.set(userId, accountId);
+    }
+  }
+  
+  /**
+   * Забыть роль и учетную запись отключившегося пользователя
+   * @param userId ID пользователя
+   */
+  unbindUserRole(userId: string): void {
+    this.userRoles.delete(userId);
+    this.userAccounts.delete(userId);
+  }
+  
+  /**
+   * Получить учетную запись пользователя
+   * @param userId ID пользователя
+   * @returns ID учетной записи или null для гостя
+   */
+  getUserAccountId(userId: string): number | null {
+    return this.userAccounts.get(userId) ?? null;
+  }
+  
+  /**
+   * Получить роль пользователя (без удостоверения - игрок)
+   * @param userId ID пользователя
+   */
+  getUserRole(userId: string): SessionRole {
+    return this.userRoles.get(userId) ?? 'player';
+  }
+  
   /**
    * Проверить, является ли пользователь ведущим
    * @param userId ID пользователя
-   * @returns true, если пользователь - ведущий
+   * @returns true, если удостоверение пользователя дает роль ведущего
    */
   isUserHost(userId: string): boolean {
-    return userId.startsWith(HOST_PREFIX);
+    return this.getUserRole(userId) === 'host';
+  }
+  
+  /**
+   * Проверить, является ли пользователь зрителем
+   * @param userId ID пользователя
+   * @returns true, если пользователь - зритель (слоты ему не назначаются)
+   */
+  isUserSpectator(userId: string): boolean {
+    return this.getUserRole(userId) === 'spectator';
+  }
+  
+  /**
+   * Запомнить имя, назначенное участнику ведущим, чтобы повторить его вернувшемуся клиенту
+   * @param userId ID пользователя
+   * @param displayName Отображаемое имя
+   */
+  setDisplayName(userId: string, displayName: string): void {
+    this.displayNames.set(userId, displayName);
+  }
+  
+  /**
+   * Забыть отображаемое имя ушедшего пользователя
+   * @param userId ID пользователя
+   */
+  clearDisplayName(userId: string): void {
+    this.displayNames.delete(userId);
+  }
+  
+  /**
+   * Получить все назначенные ведущим имена
+   */
+  getDisplayNames(): Map<string, string> {
+    return this.displayNames;
   }
   
   /**
@@ -74,6 +178,12 @@ export class SlotManager {
       return false;
     }
     
+    // Зритель только смотрит и не садится за стол
+    if (this.isUserSpectator(userId)) {
+      console.error(`Зритель ${userId} не может занимать слот ${slotNumber}`);
+      return false;
+    }
+    
     // Проверяем, является ли пользователь ведущим
     const isHost = this.isUserHost(userId);
     
@@ -89,6 +199,12 @@ export class SlotManager {
       return false;
     }
     
+    // Придержанный слот занимается только по приглашению (claimReservedSlot)
+    if (this.isSlotReserved(slotNumber)) {
+      console.error(`Слот ${slotNumber} придержан для приглашенного игрока`);
+      return false;
+    }
+    
     // Особый случай: если это ведущий, просящий слот 12
     if (slotNumber === HOST_SLOT && isHost) {
       console.log(`Ведущий ${userId} запрашивает слот ${HOST_SLOT}`);
@@ -133,7 +249,7 @@ export class SlotManager {
     console.log(`Назначен слот ${slotNumber} пользователю ${userId}`);
     
     // Отправляем событие об обновлении слотов
-    globalEvents.emit("slots_updated", this.getAllSlotAssignments());
+    this.room.events.emit("slots_updated", this.getAllSlotAssignments());
     
     return true;
   }
@@ -168,7 +284,7 @@ export class SlotManager {
     console.log(`Освобожден слот ${slotNumber} пользователя ${userId}`);
     
     // Отправляем событие об обновлении слотов
-    globalEvents.emit("slots_updated", this.getAllSlotAssignments());
+    this.room.events.emit("slots_updated", this.getAllSlotAssignments());
     
     return true;
   }
@@ -185,6 +301,11 @@ export class SlotManager {
       return existingSlot;
     }
     
+    // Зрителю слот не назначается
+    if (this.isUserSpectator(userId)) {
+      return undefined;
+    }
+    
     // Проверяем роль пользователя
     const isHost = this.isUserHost(userId);
     
@@ -192,7 +313,7 @@ export class SlotManager {
       // Ведущему назначаем специальный слот 12
       console.log(`Автоматическое назначение слота для ведущего: ${userId}`);
       
-      // Проверяем, есть ли уже ведущий в комнате (любой пользователь с префиксом Host-)
+      // Проверяем, есть ли уже ведущий в комнате (любой пользователь с ролью ведущего)
       const currentHostExists = Array.from(this.userSlots.keys()).some(id => 
         this.isUserHost(id) && id !== userId
       );
@@ -224,7 +345,7 @@ export class SlotManager {
       // Важно: обычные игроки НЕ МОГУТ занять слот ведущего (12),
       // даже если он свободен
       for (let i = 1; i < HOST_SLOT; i++) {
-        if (!this.slotAssignments.has(i)) {
+        if (!this.slotAssignments.has(i) && !this.isSlotReserved(i)) {
           console.log(`Автоматически назначен слот ${i} для ${userId}`);
           this.assignSlot(userId, i);
           return i;
@@ -237,6 +358,74 @@ export class SlotManager {
     }
   }
   
+  /**
+   * Придержать свободный слот за приглашенным игроком
+   * @param slotNumber Номер слота
+   * @param inviteId ID приглашения, по которому слот можно занять
+   * @param expiresAt Время окончания брони (окончание срока приглашения)
+   * @returns true, если слот придержан
+   */
+  reserveSlot(slotNumber: number, inviteId: string, expiresAt: number): boolean {
+    if (slotNumber < 1 || slotNumber >= HOST_SLOT || this.slotAssignments.has(slotNumber) || this.isSlotReserved(slotNumber)) {
+      return false;
+    }
+    
+    this.reservedSlots.set(slotNumber, { inviteId, expiresAt });
+    console.log(`Слот ${slotNumber} придержан для приглашенного игрока`);
+    return true;
+  }
+  
+  /**
+   * Занять придержанный слот по приглашению
+   * @param userId Идентификатор пользователя
+   * @param slotNumber Номер слота из приглашения
+   * @param inviteId ID приглашения
+   * @returns true, если слот назначен
+   */
+  claimReservedSlot(userId: string, slotNumber: number, inviteId: string): boolean {
+    if (!this.isSlotReserved(slotNumber) || this.reservedSlots.get(slotNumber)?.inviteId !== inviteId) {
+      return false;
+    }
+    
+    this.reservedSlots.delete(slotNumber);
+    return this.assignSlot(userId, slotNumber);
+  }
+  
+  /**
+   * Снять бронь слота, придержанного по приглашению (приглашение отозвано)
+   * @param inviteId ID приглашения
+   * @returns Номер освобожденного слота или undefined, если брони не было
+   */
+  releaseReservation(inviteId: string): number | undefined {
+    for (const [slotNumber, reservation] of Array.from(this.reservedSlots.entries())) {
+      if (reservation.inviteId === inviteId) {
+        this.reservedSlots.delete(slotNumber);
+        console.log(`Бронь слота ${slotNumber} по приглашению снята`);
+        return slotNumber;
+      }
+    }
+    
+    return undefined;
+  }
+  
+  /**
+   * Проверить, придержан ли слот (просроченная бронь снимается)
+   * @param slotNumber Номер слота
+   */
+  private isSlotReserved(slotNumber: number): boolean {
+    const reservation = this.reservedSlots.get(slotNumber);
+    if (!reservation) {
+      return false;
+    }
+    
+    if (reservation.expiresAt <= Date.now()) {
+      this.reservedSlots.delete(slotNumber);
+      return false;
+    }
+    
+    return true;
+  }
+  
   /**
    * Проверить и исправить целостность данных в слотах
    */
@@ -264,7 +453,7 @@ export class SlotManager {
     
     // Если были исправления, отправляем обновление
     if (needsUpdate) {
-      globalEvents.emit("slots_updated", this.getAllSlotAssignments());
+      this.room.events.emit("slots_updated", this.getAllSlotAssignments());
     }
   }
   
@@ -359,6 +548,12 @@ export class SlotManager {
     
     // Проверка на слот ведущего уже выполнена выше
     
+    // Ведущий может посадить игрока и на придержанный слот - бронь приглашения при этом снимается
+    if (this.isSlotReserved(targetSlot)) {
+      this.reservedSlots.delete(targetSlot);
+      console.log(`Ведущий ${hostId} занял придержанный слот ${targetSlot}, бронь приглашения снята`);
+    }
+    
     // Проверяем, не занят ли целевой слот другим пользователем
     const currentOccupant = this.slotAssignments.get(targetSlot);
     if (currentOccupant && currentOccupant !== userIdToMove) {
@@ -379,7 +574,7 @@ export class SlotManager {
     this.validateIntegrity();
     
     // Отправляем событие об изменении слотов
-    globalEvents.emit("slots_updated", this.getAllSlotAssignments());
+    this.room.events.emit("slots_updated", this.getAllSlotAssignments());
     
     return true;
   }
@@ -450,12 +645,88 @@ export class SlotManager {
     this.validateIntegrity();
     
     // Отправляем событие об обновлении
-    globalEvents.emit("slots_updated", this.getAllSlotAssignments());
+    this.room.events.emit("slots_updated", this.getAllSlotAssignments());
     
     console.log('Перемешивание пользователей завершено');
     return true;
   }
 }
 
-// Создаем глобальный экземпляр менеджера слотов
-export const slotManager = new SlotManager();
\ No newline at end of file
+/**
+ * Зарегистрировать команды слотов и имен участников
+ * @param dispatcher Диспетчер команд
+ */
+export function registerSlotCommands(dispatcher: CommandDispatcher): void {
+  // Пользователь выбирает слот (зрители за стол не садятся)
+  dispatcher.register('select_slot', {
+    access: 'player',
+    deniedMessage: 'Зрители не могут занимать слоты',
+    handle: ({ userId, room, message }) => {
+      if (!room.slotManager.assignSlot(userId, message.slotNumber)) {
+        return 'Слот занят или недоступен';
+      }
+      console.log(`Пользователь ${userId} выбрал слот ${message.slotNumber}`);
+    }
+  });
+  
+  // Пользователь освобождает слот
+  dispatcher.register('release_slot', {
+    handle: ({ userId, room }) => {
+      if (room.slotManager.releaseUserSlot(userId)) {
+        console.log(`Пользователь ${userId} освободил слот`);
+      }
+    }
+  });
+  
+  // Ведущий перемещает пользователя в другой слот (обновление слотов уйдет через событие slots_updated)
+  dispatcher.register('move_user', {
+    access: 'host',
+    deniedMessage: 'Только ведущий может перемещать пользователей',
+    handle: ({ userId, room, message }) => {
+      if (!room.slotManager.moveUserToSlot(userId, message.userIdToMove, message.targetSlot)) {
+        return 'Не удалось выполнить перемещение пользователя';
+      }
+      console.log(`Ведущий ${userId} переместил пользователя ${message.userIdToMove} в слот ${message.targetSlot}`);
+    }
+  });
+  
+  // Ведущий случайно перемешивает пользователей по слотам
+  dispatcher.register('shuffle_users', {
+    access: 'host',
+    deniedMessage: 'Только ведущий может перемешивать пользователей',
+    handle: ({ userId, room }) => {
+      if (!room.slotManager.shuffleAllUsers(userId)) {
+        return 'Не удалось выполнить перемешивание пользователей';
+      }
+      console.log(`Ведущий ${userId} перемешал пользователей`);
+    }
+  });
+  
+  // Ведущий меняет отображаемое имя участника; ID пользователя для внутренней логики не меняется
+  dispatcher.register('rename_user', {
+    access: 'host',
+    deniedMessage: 'Только ведущий может изменять имена участников',
+    handle: ({ userId, room, message }) => {
+      const { targetUserId, newName } = message;
+      if (!room.slotManager.getUserSlot(targetUserId)) {
+        return 'Пользователь не найден';
+      }
+      
+      // Запоминаем имя для клиентов, которые подключатся позже, и рассылаем его всем
+      room.slotManager.setDisplayName(targetUserId, newName);
+      connectionManager.broadcastToRoom(room.id, {
+        type: 'display_name_update',
+        userId: targetUserId,
+        displayName: newName
+      });
+      console.log(`Ведущий ${userId} изменил имя пользователя ${targetUserId} на ${newName} (только отображение)`);
+      
+      connectionManager.sendToUser(userId, {
+        type: 'rename_success',
+        userId: targetUserId,
+        displayName: newName,
+        requestId: message.requestId
+      });
+    }
+  });
+}
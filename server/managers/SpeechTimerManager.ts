@@ -0,0 +1,428 @@
+import {
+  GamePhase,
+  GameSessionState,
+  PlayerStatusRecord,
+  SpeechTimerState,
+  SpeechType
+} from '@shared/schema';
+import { DEFAULT_RULESET_ID, Ruleset, RULESETS } from '@shared/rulesets';
+import type { GameRoom } from './GameRoom';
+import type { CommandDispatcher } from './CommandDispatcher';
+import { connectionManager } from './ConnectionManager';
+import { ServerMessage } from '@shared/protocol';
+
+// Слоты игроков за столом (12 - ведущий)
+const PLAYER_SLOTS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11];
+
+// Фазы, в которые ведущий может давать слово
+const SPEECH_PHASES: GamePhase[] = ['day_discussion', 'nominations', 'voting'];
+
+/**
+ * Менеджер таймера речей - ведет серверный отсчет времени выступлений
+ * и очередность выступлений игроков в течение дня
+ */
+export class SpeechTimerManager {
+  private status: SpeechTimerState['status'] = 'idle';
+  private speakerSlot: number | null = null;
+  private speechType: SpeechType = 'normal';
+  private durationMs = 0;
+  private remainingMs = 0;
+  private runningSince: number | null = null;
+
+  // Очередь выступлений текущего дня
+  private speakingOrder: number[] = [];
+
+  // Длительности речей (в секундах) из выбранного набора правил, ведущий может их изменить
+  private durations: Record<SpeechType, number> = { ...RULESETS[DEFAULT_RULESET_ID].speechDurations };
+
+  // Таймер окончания речи
+  private expiryTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly room: GameRoom) {
+    console.log('SpeechTimerManager: Инициализирован');
+
+    this.room.events.on('game_phase_changed', (session: GameSessionState, previousPhase: GamePhase) => {
+      if (session.phase === 'day_discussion' && previousPhase !== 'day_discussion') {
+        this.stopTimer();
+        this.buildSpeakingOrder(session.round);
+        this.broadcastTimerState();
+      } else if (session.phase === 'night' || session.phase === 'lobby' || session.phase === 'game_over') {
+        this.stopTimer();
+        this.speakingOrder = [];
+        this.broadcastTimerState();
+      }
+    });
+
+    this.room.events.on('ruleset_changed', (ruleset: Ruleset) => {
+      this.durations = { ...ruleset.speechDurations };
+      this.broadcastTimerState();
+    });
+  }
+
+  /**
+   * Получить состояние таймера для отправки клиентам
+   */
+  getTimerState(): SpeechTimerState {
+    return {
+      status: this.status,
+      speakerSlot: this.speakerSlot,
+      speechType: this.speechType,
+      durationMs: this.durationMs,
+      remainingMs: this.remainingMs,
+      runningSince: this.runningSince,
+      serverTime: Date.now(),
+      speakingOrder: [...this.speakingOrder],
+      durations: { ...this.durations }
+    };
+  }
+
+  /**
+   * Получить слот игрока, который сейчас выступает
+   * @returns Слот выступающего или null, если речи нет
+   */
+  getSpeakerSlot(): number | null {
+    return this.speakerSlot;
+  }
+
+  /**
+   * Запустить речь игрока (только для ведущего)
+   * Без указания слота слово получает следующий игрок из очереди дня
+   * @param hostId ID ведущего
+   * @param slotNumber Слот выступающего (необязательно)
+   * @param speechType Тип речи
+   * @returns Текст ошибки или null, если речь начата
+   */
+  startSpeech(hostId: string, slotNumber?: number, speechType: SpeechType = 'normal'): string | null {
+    if (!this.room.slotManager.isUserHost(hostId)) {
+      console.log(`Пользователь ${hostId} не является ведущим и не может запустить таймер`);
+      return 'Только ведущий может давать слово';
+    }
+
+    if (!(speechType in this.durations)) {
+      console.log(`Неизвестный тип речи: ${speechType}`);
+      return 'Неизвестный тип речи';
+    }
+
+    // Речи звучат только днем: в обсуждении, выдвижении и голосовании
+    const phase = this.room.gameSessionManager.getPhase();
+    if (!SPEECH_PHASES.includes(phase)) {
+      console.log(`Речь нельзя начать в фазе ${phase}`);
+      return 'Речь можно начать только днем';
+    }
+
+    if (slotNumber !== undefined) {
+      const slotError = this.validateSpeakerSlot(slotNumber, speechType);
+      if (slotError) {
+        return slotError;
+      }
+    }
+
+    const speakerSlot = slotNumber ?? this.takeNextSpeaker(speechType === 'normal');
+    if (speakerSlot === undefined) {
+      console.log('Очередь выступлений пуста');
+      return 'Очередь выступлений пуста';
+    }
+
+    // Игрок с тремя фолами пропускает свою обычную речь: слово ему не дается, а пропуск
+    // засчитывается, когда до него дойдет очередь (из очереди такие игроки уже пропущены)
+    const speakerId = this.room.slotManager.getSlotAssignments().get(speakerSlot);
+    if (speechType === 'normal' && speakerId && this.room.playerStateManager.isPlayerSilenced(speakerId)) {
+      console.log(`Игрок в слоте ${speakerSlot} лишен речи из-за фолов`);
+      return `Игрок в слоте ${speakerSlot} пропускает речь из-за фолов`;
+    }
+
+    // Выступивший вне очереди игрок из нее удаляется
+    this.speakingOrder = this.speakingOrder.filter(slot => slot !== speakerSlot);
+
+    this.clearExpiryTimer();
+    this.speakerSlot = speakerSlot;
+    this.speechType = speechType;
+    this.durationMs = this.durations[speechType] * 1000;
+    this.remainingMs = this.durationMs;
+    this.status = 'running';
+    this.runningSince = Date.now();
+    this.scheduleExpiry();
+
+    console.log(`Речь игрока в слоте ${speakerSlot} (${speechType}) начата`);
+    this.broadcastTimerState();
+
+    return null;
+  }
+
+  /**
+   * Поставить таймер на паузу (только для ведущего)
+   * @param hostId ID ведущего
+   */
+  pauseSpeech(hostId: string): boolean {
+    if (!this.room.slotManager.isUserHost(hostId) || this.status !== 'running' || this.runningSince === null) {
+      return false;
+    }
+
+    this.clearExpiryTimer();
+    this.remainingMs = Math.max(0, this.remainingMs - (Date.now() - this.runningSince));
+    this.runningSince = null;
+    this.status = 'paused';
+
+    this.broadcastTimerState();
+    return true;
+  }
+
+  /**
+   * Продолжить отсчет после паузы (только для ведущего)
+   * @param hostId ID ведущего
+   */
+  resumeSpeech(hostId: string): boolean {
+    if (!this.room.slotManager.isUserHost(hostId) || this.status !== 'paused') {
+      return false;
+    }
+
+    this.status = 'running';
+    this.runningSince = Date.now();
+    this.scheduleExpiry();
+
+    this.broadcastTimerState();
+    return true;
+  }
+
+  /**
+   * Остановить речь (только для ведущего)
+   * @param hostId ID ведущего
+   */
+  stopSpeech(hostId: string): boolean {
+    if (!this.room.slotManager.isUserHost(hostId)) {
+      return false;
+    }
+
+    this.stopTimer();
+    this.broadcastTimerState();
+    return true;
+  }
+
+  /**
+   * Изменить длительности речей (только для ведущего)
+   * @param hostId ID ведущего
+   * @param durations Новые длительности в секундах
+   */
+  setDurations(hostId: string, durations: Partial<Record<SpeechType, number>>): boolean {
+    if (!this.room.slotManager.isUserHost(hostId)) {
+      return false;
+    }
+
+    (Object.keys(this.durations) as SpeechType[]).forEach(type => {
+      const seconds = Number(durations[type]);
+      if (Number.isFinite(seconds) && seconds > 0) {
+        this.durations[type] = Math.round(seconds);
+      }
+    });
+
+    console.log(`Длительности речей изменены: ${JSON.stringify(this.durations)}`);
+    this.broadcastTimerState();
+    return true;
+  }
+
+  /**
+   * Отправить состояние таймера всем клиентам
+   */
+  broadcastTimerState(): void {
+    const message: ServerMessage = {
+      type: 'speech_timer_update',
+      timer: this.getTimerState()
+    };
+
+    connectionManager.broadcastToRoom(this.room.id, message);
+  }
+
+  /**
+   * Отправить состояние таймера конкретному клиенту
+   * @param userId ID пользователя
+   */
+  sendTimerStateToUser(userId: string): void {
+    connectionManager.sendToUser(userId, {
+      type: 'speech_timer_update',
+      timer: this.getTimerState()
+    });
+  }
+
+  /**
+   * Составить очередь выступлений дня
+   * Каждый следующий день начинает следующий по кругу слот, выбывшие пропускаются
+   * @param round Номер дня
+   */
+  private buildSpeakingOrder(round: number): void {
+    const openerIndex = Math.max(0, round - 1) % PLAYER_SLOTS.length;
+    const rotated = [...PLAYER_SLOTS.slice(openerIndex), ...PLAYER_SLOTS.slice(0, openerIndex)];
+
+    this.speakingOrder = rotated.filter(slot => this.isLivingSlot(slot));
+    console.log(`Очередь выступлений дня ${round}: ${this.speakingOrder.join(', ')}`);
+  }
+
+  /**
+   * Проверить слот, которому ведущий дает слово вне очереди
+   * @param slotNumber Слот выступающего
+   * @param speechType Тип речи
+   * @returns Текст ошибки или null, если игрок в слоте может выступить
+   */
+  private validateSpeakerSlot(slotNumber: number, speechType: SpeechType): string | null {
+    if (!PLAYER_SLOTS.includes(slotNumber)) {
+      return `Слот ${slotNumber} не является местом игрока`;
+    }
+
+    const speakerId = this.room.slotManager.getSlotAssignments().get(slotNumber);
+    if (!speakerId) {
+      return `Слот ${slotNumber} свободен`;
+    }
+
+    // Обычную речь и оправдание произносят только живые игроки
+    const record = this.room.playerStateManager.getStatusRecord(speakerId);
+    if (speechType !== 'last_words') {
+      return record ? `Игрок в слоте ${slotNumber} выбыл из игры` : null;
+    }
+
+    // Последнее слово - только у игрока, которого только что убили или заголосовали
+    if (!record) {
+      return `Игрок в слоте ${slotNumber} жив, последнее слово ему не положено`;
+    }
+    if (!this.isJustEliminated(record)) {
+      return `Игрок в слоте ${slotNumber} выбыл раньше и не может сказать последнее слово`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Проверить, что игрок выбыл только что: убит или заголосован в текущий день
+   * либо убит выстрелом прошедшей ночи
+   * @param record Запись о выбывании
+   */
+  private isJustEliminated(record: PlayerStatusRecord): boolean {
+    if (record.status !== 'killed' && record.status !== 'voted_out') {
+      return false;
+    }
+
+    const round = this.room.gameSessionManager.getSessionState().round;
+    return record.round === round || (record.reason === 'night_shot' && record.round === round - 1);
+  }
+
+  /**
+   * Взять следующего живого игрока из очереди
+   * @param skipSilenced Пропустить игроков, лишенных речи за фолы
+   */
+  private takeNextSpeaker(skipSilenced: boolean): number | undefined {
+    while (this.speakingOrder.length > 0) {
+      const slot = this.speakingOrder.shift()!;
+      if (!this.isLivingSlot(slot)) {
+        continue;
+      }
+
+      const userId = this.room.slotManager.getSlotAssignments().get(slot)!;
+      if (skipSilenced && this.room.playerStateManager.isPlayerSilenced(userId)) {
+        console.log(`Игрок в слоте ${slot} пропускает речь из-за фолов`);
+        this.room.playerStateManager.consumeSilence(userId);
+        continue;
+      }
+
+      return slot;
+    }
+    return undefined;
+  }
+
+  /**
+   * Проверить, что в слоте сидит живой игрок
+   * @param slotNumber Номер слота
+   */
+  private isLivingSlot(slotNumber: number): boolean {
+    const userId = this.room.slotManager.getSlotAssignments().get(slotNumber);
+    return !!userId && this.room.playerStateManager.isPlayerAlive(userId);
+  }
+
+  /**
+   * Остановить таймер речи (при закрытии комнаты)
+   */
+  dispose(): void {
+    this.stopTimer();
+  }
+
+  /**
+   * Запланировать окончание речи по истечении оставшегося времени
+   */
+  private scheduleExpiry(): void {
+    this.clearExpiryTimer();
+    this.expiryTimer = setTimeout(() => {
+      console.log(`Время речи игрока в слоте ${this.speakerSlot} истекло`);
+      this.stopTimer();
+      this.broadcastTimerState();
+    }, this.remainingMs);
+  }
+
+  /**
+   * Отменить запланированное окончание речи
+   */
+  private clearExpiryTimer(): void {
+    if (this.expiryTimer) {
+      clearTimeout(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+  }
+
+  /**
+   * Сбросить таймер в состояние ожидания
+   */
+  private stopTimer(): void {
+    this.clearExpiryTimer();
+    this.status = 'idle';
+    this.speakerSlot = null;
+    this.durationMs = 0;
+    this.remainingMs = 0;
+    this.runningSince = null;
+  }
+}
+
+/**
+ * Зарегистрировать команды таймера речи
+ * @param dispatcher Диспетчер команд
+ */
+export function registerSpeechTimerCommands(dispatcher: CommandDispatcher): void {
+  // Ведущий дает слово игроку (без слота - следующему по очереди)
+  dispatcher.register('start_speech', {
+    access: 'host',
+    deniedMessage: 'Только ведущий может давать слово',
+    handle: ({ userId, room, message }) =>
+      room.speechTimerManager.startSpeech(userId, message.slotNumber, message.speechType ?? 'normal')
+  });
+  
+  dispatcher.register('pause_speech', {
+    access: 'host',
+    deniedMessage: 'Только ведущий может управлять таймером речи',
+    handle: ({ userId, room }) =>
+      room.speechTimerManager.pauseSpeech(userId) ? null : 'Таймер речи не запущен'
+  });
+  
+  dispatcher.register('resume_speech', {
+    access: 'host',
+    deniedMessage: 'Только ведущий может управлять таймером речи',
+    handle: ({ userId, room }) =>
+      room.speechTimerManager.resumeSpeech(userId) ? null : 'Таймер речи не на паузе'
+  });
+  
+  dispatcher.register('stop_speech', {
+    access: 'host',
+    deniedMessage: 'Только ведущий может управлять таймером речи',
+    handle: ({ userId, room }) => {
+      room.speechTimerManager.stopSpeech(userId);
+    }
+  });
+  
+  dispatcher.register('set_speech_durations', {
+    access: 'host',
+    deniedMessage: 'Только ведущий может менять длительность речей',
+    handle: ({ userId, room, message }) => {
+      room.speechTimerManager.setDurations(userId, message.durations);
+    }
+  });
+  
+  dispatcher.register('get_speech_timer', {
+    handle: ({ userId, room }) => {
+      room.speechTimerManager.sendTimerStateToUser(userId);
+    }
+  });
+}
@@ -1,4 +1,5 @@
 import { AccessToken, VideoGrant } from 'livekit-server-sdk';
+import { DEFAULT_ROOM_ID, SessionRole } from '@shared/schema';
 
 /**
  * Интерфейс для результата генерации токена
@@ -36,10 +37,11 @@ export class TokenManager {
   /**
    * Сгенерировать токен для пользователя и комнаты
    * @param identity Идентификатор пользователя
-   * @param roomName Имя комнаты (по умолчанию 'default-room')
+   * @param roomName Имя комнаты (совпадает с ID игровой комнаты)
+   * @param role Роль участника, выданная сервером
    * @param ttl Время жизни токена в секундах (по умолчанию 24 часа)
    */
-  async generateToken(identity: string, roomName: string = 'mafialive-room', ttl: number = 3600 * 24): Promise<TokenResult> {
+  async generateToken(identity: string, roomName: string = DEFAULT_ROOM_ID, role: SessionRole = 'player', ttl: number = 3600 * 24): Promise<TokenResult> {
     if (!this.isConfigured()) {
       throw new Error('LiveKit API credentials are not configured');
     }
@@ -51,11 +53,11 @@ export class TokenManager {
         ttl,
       });
       
-      // Определяем права доступа
+      // Определяем права доступа (зритель только подписывается на треки игроков)
       const videoGrant: VideoGrant = {
         roomJoin: true,
         room: roomName,
-        canPublish: true,
+        canPublish: role !== 'spectator',
         canSubscribe: true,
         canPublishData: true,
       };
@@ -0,0 +1,482 @@
+import { GamePhase, GameSessionState, PlayerStatusReason, VotingStage, VotingState } from '@shared/schema';
+import type { GameRoom } from './GameRoom';
+import type { CommandDispatcher } from './CommandDispatcher';
+import { connectionManager } from './ConnectionManager';
+import { ServerMessage } from '@shared/protocol';
+
+// Слот ведущего не участвует в голосовании
+const HOST_SLOT = 12;
+
+/**
+ * Менеджер голосования - принимает выставления и голоса, считает итоги
+ * и проводит переголосование и подъем всех при равенстве голосов
+ */
+export class VotingManager {
+  private stage: VotingStage = 'nominations';
+
+  // Выставленные слоты в порядке выставления
+  private nominees: number[] = [];
+
+  // Кто кого выставил (ID выставившего -> выставленный слот)
+  private nominatedBy = new Map<string, number>();
+
+  // Кандидаты текущего голосования
+  private candidates: number[] = [];
+
+  // Голоса (ID голосующего -> слот кандидата)
+  private votes = new Map<string, number>();
+
+  // Голоса за подъем всех (ID голосующего -> поднять или нет)
+  private liftVotes = new Map<string, boolean>();
+
+  // Итог голосования
+  private eliminatedSlots: number[] = [];
+
+  constructor(private readonly room: GameRoom) {
+    console.log('VotingManager: Инициализирован');
+
+    this.room.events.on('game_phase_changed', (session: GameSessionState, previousPhase: GamePhase, hostId: string) => {
+      if (session.phase === 'day_discussion' || session.phase === 'lobby') {
+        this.resetVoting();
+      } else if (session.phase === 'voting' && previousPhase !== 'voting') {
+        this.startVoting(hostId);
+      } else if (previousPhase === 'voting' && session.phase !== 'voting') {
+        this.finishVoting();
+      }
+    });
+  }
+
+  /**
+   * Получить состояние голосования для отправки клиентам
+   */
+  getVotingState(): VotingState {
+    const nominatedBy: Record<number, number> = {};
+    this.nominatedBy.forEach((nomineeSlot, userId) => {
+      const slot = this.getPlayerSlot(userId);
+      if (slot !== undefined) {
+        nominatedBy[slot] = nomineeSlot;
+      }
+    });
+
+    const votes: Record<number, number> = {};
+    this.votes.forEach((candidateSlot, userId) => {
+      const slot = this.getPlayerSlot(userId);
+      if (slot !== undefined) {
+        votes[slot] = candidateSlot;
+      }
+    });
+
+    const liftVotes: Record<number, boolean> = {};
+    this.liftVotes.forEach((lift, userId) => {
+      const slot = this.getPlayerSlot(userId);
+      if (slot !== undefined) {
+        liftVotes[slot] = lift;
+      }
+    });
+
+    return {
+      stage: this.stage,
+      nominees: [...this.nominees],
+      nominatedBy,
+      candidates: [...this.candidates],
+      votes,
+      liftVotes,
+      eliminatedSlots: [...this.eliminatedSlots]
+    };
+  }
+
+  /**
+   * Выставить игрока на голосование
+   * Живой игрок может выставить одну кандидатуру за день во время своей речи, ведущий - любое количество в любой момент
+   * @param userId ID выставляющего
+   * @param targetSlot Выставляемый слот
+   * @returns Текст ошибки или null, если кандидатура принята
+   */
+  nominate(userId: string, targetSlot: number): string | null {
+    const phase = this.room.gameSessionManager.getPhase();
+    if (phase !== 'day_discussion' && phase !== 'nominations') {
+      return 'Выставлять кандидатуры можно только днем до голосования';
+    }
+
+    if (!this.room.gameSessionManager.getRuleset().votingOnFirstDay && this.room.gameSessionManager.getSessionState().round === 1) {
+      return 'По выбранным правилам в первый день голосования нет';
+    }
+
+    const isHost = this.room.slotManager.isUserHost(userId);
+    if (!isHost) {
+      if (!this.isLivingPlayer(userId)) {
+        return 'Выбывшие игроки не могут выставлять кандидатуры';
+      }
+      if (this.room.speechTimerManager.getSpeakerSlot() !== this.getPlayerSlot(userId)) {
+        return 'Выставить кандидатуру можно только во время своей речи';
+      }
+      if (this.nominatedBy.has(userId)) {
+        return 'Вы уже выставили кандидатуру сегодня';
+      }
+    }
+
+    const targetUserId = this.room.slotManager.getSlotAssignments().get(targetSlot);
+    if (!targetUserId || !this.isLivingPlayer(targetUserId)) {
+      return 'Выставить можно только живого игрока';
+    }
+
+    if (this.nominees.includes(targetSlot)) {
+      return 'Этот игрок уже выставлен';
+    }
+
+    this.nominees.push(targetSlot);
+    if (!isHost) {
+      this.nominatedBy.set(userId, targetSlot);
+    }
+
+    console.log(`Игрок в слоте ${targetSlot} выставлен пользователем ${userId}`);
+    this.broadcastVotingState();
+
+    return null;
+  }
+
+  /**
+   * Проголосовать за кандидата
+   * @param userId ID голосующего
+   * @param targetSlot Слот кандидата
+   * @returns Текст ошибки или null, если голос принят
+   */
+  castVote(userId: string, targetSlot: number): string | null {
+    if (this.stage !== 'voting' && this.stage !== 'revote') {
+      return 'Сейчас нет голосования';
+    }
+
+    if (!this.isLivingPlayer(userId)) {
+      return 'Голосовать могут только живые игроки';
+    }
+
+    if (this.votes.has(userId)) {
+      return 'Вы уже проголосовали';
+    }
+
+    if (!this.candidates.includes(targetSlot)) {
+      return 'Этот игрок не участвует в голосовании';
+    }
+
+    this.votes.set(userId, targetSlot);
+    console.log(`Пользователь ${userId} проголосовал за слот ${targetSlot}`);
+    this.broadcastVotingState();
+
+    return null;
+  }
+
+  /**
+   * Проголосовать за подъем всех кандидатов
+   * @param userId ID голосующего
+   * @param lift true - поднять всех, false - оставить
+   * @returns Текст ошибки или null, если голос принят
+   */
+  castLiftVote(userId: string, lift: boolean): string | null {
+    if (this.stage !== 'lift_vote') {
+      return 'Сейчас нет голосования за подъем всех';
+    }
+
+    if (!this.isLivingPlayer(userId)) {
+      return 'Голосовать могут только живые игроки';
+    }
+
+    if (this.liftVotes.has(userId)) {
+      return 'Вы уже проголосовали';
+    }
+
+    this.liftVotes.set(userId, lift);
+    this.broadcastVotingState();
+
+    return null;
+  }
+
+  /**
+   * Закрыть текущее голосование и подвести итог (только для ведущего)
+   * @param hostId ID ведущего
+   */
+  closeVoting(hostId: string): boolean {
+    if (!this.room.slotManager.isUserHost(hostId)) {
+      console.log(`Пользователь ${hostId} не является ведущим и не может закрыть голосование`);
+      return false;
+    }
+
+    if (this.stage === 'voting' || this.stage === 'revote') {
+      this.tallyVotes(hostId);
+      return true;
+    }
+
+    if (this.stage === 'lift_vote') {
+      this.tallyLiftVotes(hostId);
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Начать переголосование после оправдательных речей (только для ведущего)
+   * @param hostId ID ведущего
+   */
+  startRevote(hostId: string): boolean {
+    if (!this.room.slotManager.isUserHost(hostId) || this.stage !== 'tie_speeches') {
+      return false;
+    }
+
+    this.stage = 'revote';
+    this.votes.clear();
+    console.log(`Переголосование между слотами ${this.candidates.join(', ')}`);
+    this.broadcastVotingState();
+
+    return true;
+  }
+
+  /**
+   * Отправить состояние голосования всем клиентам в ближайший такт рассылки
+   * (голоса, поданные за один такт, уходят одним сообщением)
+   */
+  broadcastVotingState(): void {
+    connectionManager.queueRoomUpdate(this.room.id, 'voting_update', (): ServerMessage => ({
+      type: 'voting_update',
+      voting: this.getVotingState()
+    }));
+  }
+
+  /**
+   * Отправить состояние голосования конкретному клиенту
+   * @param userId ID пользователя
+   */
+  sendVotingStateToUser(userId: string): void {
+    connectionManager.sendToUser(userId, {
+      type: 'voting_update',
+      voting: this.getVotingState()
+    });
+  }
+
+  /**
+   * Начать голосование по выставленным кандидатурам
+   * @param hostId ID ведущего
+   */
+  private startVoting(hostId: string): void {
+    // Выбывшие после выставления кандидаты в голосовании не участвуют
+    this.candidates = this.nominees.filter(slot => {
+      const userId = this.room.slotManager.getSlotAssignments().get(slot);
+      return !!userId && this.isLivingPlayer(userId);
+    });
+    this.votes.clear();
+    this.liftVotes.clear();
+    this.eliminatedSlots = [];
+
+    if (this.candidates.length === 0) {
+      console.log('Голосование не проводится: нет кандидатов');
+      this.stage = 'finished';
+    } else if (this.candidates.length === 1) {
+      // Единственный кандидат покидает стол без голосования
+      console.log(`Единственный кандидат ${this.candidates[0]} покидает стол без голосования`);
+      this.eliminate(hostId, this.candidates, 'single_candidate');
+    } else {
+      this.stage = 'voting';
+    }
+
+    this.broadcastVotingState();
+  }
+
+  /**
+   * Завершить незакрытое голосование при выходе из фазы голосования:
+   * голоса ночью и после игры не принимаются и никого не исключают
+   */
+  private finishVoting(): void {
+    if (this.stage === 'finished') {
+      return;
+    }
+
+    console.log(`Голосование на этапе ${this.stage} завершено без итога: фаза голосования окончена`);
+    this.stage = 'finished';
+    this.broadcastVotingState();
+  }
+
+  /**
+   * Подсчитать голоса основного голосования или переголосования
+   * Не проголосовавшие отдают голос последнему кандидату
+   * @param hostId ID ведущего
+   */
+  private tallyVotes(hostId: string): void {
+    const lastCandidate = this.candidates[this.candidates.length - 1];
+    this.getLivingPlayers().forEach(userId => {
+      if (!this.votes.has(userId)) {
+        this.votes.set(userId, lastCandidate);
+      }
+    });
+    this.room.events.emit('votes_tallied', this.getVotingState());
+
+    const tally = new Map<number, number>();
+    this.votes.forEach(candidateSlot => {
+      tally.set(candidateSlot, (tally.get(candidateSlot) || 0) + 1);
+    });
+
+    const maxVotes = Math.max(...Array.from(tally.values()));
+    const leaders = this.candidates.filter(slot => tally.get(slot) === maxVotes);
+
+    console.log(`Итог голосования: ${JSON.stringify(Object.fromEntries(tally))}`);
+
+    const { tieBreak } = this.room.gameSessionManager.getRuleset();
+
+    if (leaders.length === 1) {
+      this.eliminate(hostId, leaders, 'vote');
+    } else if (tieBreak === 'nobody' || (tieBreak === 'revote_then_nobody' && this.stage === 'revote')) {
+      // По правилам при равенстве никто не покидает стол
+      console.log(`Равенство голосов между слотами ${leaders.join(', ')}: никто не выбывает`);
+      this.candidates = leaders;
+      this.eliminatedSlots = [];
+      this.stage = 'finished';
+    } else if (this.stage === 'voting') {
+      // Первое равенство - оправдательные речи и переголосование между лидерами
+      this.candidates = leaders;
+      this.stage = 'tie_speeches';
+    } else {
+      // Повторное равенство - голосование за подъем всех
+      this.candidates = leaders;
+      this.liftVotes.clear();
+      this.stage = 'lift_vote';
+    }
+
+    this.broadcastVotingState();
+  }
+
+  /**
+   * Подсчитать голоса за подъем всех
+   * Всех поднимают, если "за" больше половины живых игроков
+   * @param hostId ID ведущего
+   */
+  private tallyLiftVotes(hostId: string): void {
+    this.room.events.emit('votes_tallied', this.getVotingState());
+
+    const livingCount = this.getLivingPlayers().length;
+    let liftCount = 0;
+    this.liftVotes.forEach(lift => {
+      if (lift) {
+        liftCount++;
+      }
+    });
+
+    if (liftCount > livingCount / 2) {
+      this.eliminate(hostId, this.candidates, 'lift_vote');
+    } else {
+      console.log(`Подъем всех не состоялся (${liftCount} из ${livingCount})`);
+      this.eliminatedSlots = [];
+      this.stage = 'finished';
+    }
+
+    this.broadcastVotingState();
+  }
+
+  /**
+   * Удалить из игры игроков по итогам голосования
+   * @param hostId ID ведущего
+   * @param slots Выбывающие слоты
+   * @param reason Каким голосованием решено выбывание
+   */
+  private eliminate(hostId: string, slots: number[], reason: PlayerStatusReason): void {
+    this.eliminatedSlots = [...slots];
+    this.stage = 'finished';
+
+    slots.forEach(slot => {
+      const userId = this.room.slotManager.getSlotAssignments().get(slot);
+      if (userId) {
+        console.log(`По итогам голосования выбывает слот ${slot}`);
+        this.room.playerStateManager.eliminatePlayer(hostId, userId, 'voted_out', reason);
+      }
+    });
+  }
+
+  /**
+   * Сбросить голосование в начале нового дня
+   */
+  private resetVoting(): void {
+    this.stage = 'nominations';
+    this.nominees = [];
+    this.nominatedBy.clear();
+    this.candidates = [];
+    this.votes.clear();
+    this.liftVotes.clear();
+    this.eliminatedSlots = [];
+
+    this.broadcastVotingState();
+  }
+
+  /**
+   * Получить ID всех живых игроков за столом (без ведущего)
+   */
+  private getLivingPlayers(): string[] {
+    const players: string[] = [];
+    this.room.slotManager.getSlotAssignments().forEach((userId, slotNumber) => {
+      if (slotNumber !== HOST_SLOT && this.isLivingPlayer(userId)) {
+        players.push(userId);
+      }
+    });
+    return players;
+  }
+
+  /**
+   * Проверить, что пользователь - живой игрок за столом
+   * @param userId ID пользователя
+   */
+  private isLivingPlayer(userId: string): boolean {
+    const slot = this.room.slotManager.getUserSlot(userId);
+    return slot !== undefined && slot !== HOST_SLOT &&
+      !this.room.slotManager.isUserHost(userId) && this.room.playerStateManager.isPlayerAlive(userId);
+  }
+
+  /**
+   * Получить слот пользователя
+   * @param userId ID пользователя
+   */
+  private getPlayerSlot(userId: string): number | undefined {
+    return this.room.slotManager.getUserSlot(userId);
+  }
+}
+
+/**
+ * Зарегистрировать команды голосования
+ * @param dispatcher Диспетчер команд
+ */
+export function registerVotingCommands(dispatcher: CommandDispatcher): void {
+  // Игрок выставляет кандидатуру на голосование
+  dispatcher.register('nominate', {
+    access: 'player',
+    handle: ({ userId, room, message }) => room.votingManager.nominate(userId, message.targetSlot)
+  });
+  
+  // Игрок голосует за кандидата
+  dispatcher.register('cast_vote', {
+    access: 'player',
+    handle: ({ userId, room, message }) => room.votingManager.castVote(userId, message.targetSlot)
+  });
+  
+  // Игрок голосует за подъем всех кандидатов
+  dispatcher.register('cast_lift_vote', {
+    access: 'player',
+    handle: ({ userId, room, message }) => room.votingManager.castLiftVote(userId, message.lift)
+  });
+  
+  // Ведущий закрывает голосование и подводит итог
+  dispatcher.register('close_voting', {
+    access: 'host',
+    deniedMessage: 'Только ведущий может закрыть голосование',
+    handle: ({ userId, room }) =>
+      room.votingManager.closeVoting(userId) ? null : 'Нет идущего голосования'
+  });
+  
+  // Ведущий начинает переголосование после оправдательных речей
+  dispatcher.register('start_revote', {
+    access: 'host',
+    deniedMessage: 'Переголосование может начать только ведущий',
+    handle: ({ userId, room }) =>
+      room.votingManager.startRevote(userId) ? null : 'Переголосование начинается только после оправдательных речей'
+  });
+  
+  dispatcher.register('get_voting_state', {
+    handle: ({ userId, room }) => {
+      room.votingManager.sendVotingStateToUser(userId);
+    }
+  });
+}
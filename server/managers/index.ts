@@ -5,4 +5,18 @@ export * from './EventEmitter';
 export * from './SlotManager';
 export * from './CameraManager';
 export * from './ConnectionManager';
-export * from './TokenManager';
\ No newline at end of file
+export * from './TokenManager';
+export * from './GameSessionManager';
+export * from './RoleManager';
+export * from './NightActionManager';
+export * from './VotingManager';
+export * from './SpeechTimerManager';
+export * from './BestMoveManager';
+export * from './ScoringManager';
+export * from './GameHistoryManager';
+export * from './GameRoom';
+export * from './RoomManager';
+export * from './InviteManager';
+export * from './SessionManager';
+export * from './CommandDispatcher';
+export * from './RoomStateManager';
\ No newline at end of file
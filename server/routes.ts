@@ -1,14 +1,28 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
+import { setupAuth } from "./auth";
 import { AccessToken, VideoGrant } from "livekit-server-sdk";
 import { WebSocketServer } from "ws";
 import { WebSocket } from "ws";
-import { slotManager } from "./managers/SlotManager";
-import { cameraManager } from "./managers/CameraManager";
-import { connectionManager, WebSocketMessage } from "./managers/ConnectionManager";
+import { connectionManager, registerConnectionCommands } from "./managers/ConnectionManager";
+import { roomManager } from "./managers/RoomManager";
+import { inviteManager, registerInviteCommands } from "./managers/InviteManager";
+import { commandDispatcher } from "./managers/CommandDispatcher";
+import { registerSlotCommands } from "./managers/SlotManager";
+import { registerCameraCommands } from "./managers/CameraManager";
+import { registerPlayerStateCommands } from "./managers/PlayerStateManager";
+import { registerRoomStateCommands } from "./managers/RoomStateManager";
+import { registerGameSessionCommands } from "./managers/GameSessionManager";
+import { registerRoleCommands } from "./managers/RoleManager";
+import { registerNightActionCommands } from "./managers/NightActionManager";
+import { registerVotingCommands } from "./managers/VotingManager";
+import { registerSpeechTimerCommands } from "./managers/SpeechTimerManager";
+import { registerBestMoveCommands } from "./managers/BestMoveManager";
+import { registerScoringCommands } from "./managers/ScoringManager";
+import { sessionManager } from "./managers/SessionManager";
 import { globalEvents } from "./managers/EventEmitter";
-import { SlotInfo } from "@shared/schema";
+import { SlotInfo, DEFAULT_ROOM_ID, ROOM_SEAT_COUNT, RoomSummary, isValidRoomId, isSessionRole, getIdentityName, toUserProfile } from "@shared/schema";
 
 // LiveKit настройки
 const LIVEKIT_API_KEY = process.env.LIVEKIT_API_KEY;
@@ -16,6 +30,9 @@ const LIVEKIT_API_SECRET = process.env.LIVEKIT_API_SECRET;
 const LIVEKIT_URL = 'wss://mafia.nyavkin.site/'; // URL сервера LiveKit со слешем в конце
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Учетные записи: регистрация, вход и профиль (/api/register, /api/login, /api/logout, /api/user)
+  setupAuth(app);
+  
   // API endpoints
   app.get('/api/healthcheck', (req, res) => {
     res.json({ 
@@ -28,28 +45,97 @@ export async function registerRoutes(app: Express): Promise<Server> {
       },
       connections: connectionManager.getConnectionCount(),
       users: connectionManager.getUserCount(),
-      slots: slotManager.getOccupiedSlotsCount()
+      rooms: roomManager.getRooms().length,
+      slots: roomManager.getRooms().reduce((count, room) => count + room.slotManager.getOccupiedSlotsCount(), 0)
     });
   });
   
-  // Эндпоинт для проверки наличия ведущего в комнате
+  // Эндпоинт для проверки наличия ведущего в комнате (?room=ID, по умолчанию общая комната)
   app.get('/api/room-status', (req, res) => {
-    // Проверяем, есть ли уже ведущий в комнате
-    // Проверяем именно слот 12, а не просто префикс пользователей
-    const hostSlot = slotManager.getSlotAssignments().get(12);
-    const currentHostExists = !!hostSlot && slotManager.isUserHost(hostSlot);
+    const roomId = req.query.room ?? DEFAULT_ROOM_ID;
+    if (!isValidRoomId(roomId)) {
+      return res.status(400).json({ error: 'Invalid room id' });
+    }
     
-    // Дополнительно проверяем, активно ли соединение пользователя
-    const hostIsConnected = currentHostExists && 
-      connectionManager.getUserCount() > 0 && 
-      connectionManager.isUserConnected(hostSlot || '');
+    // Комната еще не открыта - в ней никого нет
+    const room = roomManager.getRoom(roomId);
+    const summary: RoomSummary = room ? roomManager.getRoomSummary(room) : {
+      roomId,
+      hasHost: false,
+      occupiedSeats: 0,
+      seatCount: ROOM_SEAT_COUNT,
+      phase: 'lobby',
+      userCount: 0,
+      spectatorCount: 0,
+      passwordProtected: false
+    };
     
     res.json({
-      hasHost: hostIsConnected, // Только если ведущий реально подключен
-      userCount: connectionManager.getUserCount(),
+      ...summary,
       timestamp: new Date().toISOString()
     });
   });
+  
+  // Список открытых столов
+  app.get('/api/rooms', (req, res) => {
+    res.json({ rooms: roomManager.getRoomSummaries() });
+  });
+  
+  // Поток обновлений списка столов (Server-Sent Events)
+  app.get('/api/rooms/stream', (req, res) => {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    });
+    
+    const sendRooms = (rooms: RoomSummary[]) => {
+      res.write(`data: ${JSON.stringify({ rooms })}\n\n`);
+    };
+    
+    // Текущее состояние сразу, дальше - только изменения
+    sendRooms(roomManager.getRoomSummaries());
+    globalEvents.on('rooms_updated', sendRooms);
+    
+    // Комментарий раз в 25 секунд не дает прокси закрыть простаивающее соединение
+    const keepAlive = setInterval(() => {
+      res.write(': keep-alive\n\n');
+    }, 25000);
+    
+    req.on('close', () => {
+      clearInterval(keepAlive);
+      globalEvents.off('rooms_updated', sendRooms);
+    });
+  });
+  // Клубный рейтинг по сохраненным играм
+  app.get('/api/rating', async (req, res) => {
+    try {
+      res.json({ rating: await storage.getRating() });
+    } catch (error) {
+      console.error('Ошибка получения рейтинга:', error);
+      res.status(500).json({ error: 'Failed to load rating' });
+    }
+  });
+  
+  // Сохраненная игра: игроки, голоса, ночные действия и фолы
+  app.get('/api/games/:id', async (req, res) => {
+    const gameId = Number(req.params.id);
+    if (isNaN(gameId)) {
+      return res.status(400).json({ error: 'Invalid game id' });
+    }
+    
+    try {
+      const record = await storage.getGameRecord(gameId);
+      if (!record) {
+        return res.status(404).json({ error: 'Game not found' });
+      }
+      res.json(record);
+    } catch (error) {
+      console.error(`Ошибка получения игры ${gameId}:`, error);
+      res.status(500).json({ error: 'Failed to load game' });
+    }
+  });
+  
 app.get("/debug/env", (req, res) => {
   res.json({
     LIVEKIT_API_KEY: process.env.LIVEKIT_API_KEY,
@@ -60,17 +146,51 @@ app.get("/debug/env", (req, res) => {
   app.get('/api/token', async (req, res) => {
     try {
       const identity = req.query.identity as string;
-      // Всегда используем default-room, как в вашем рабочем примере
-      const roomName = 'default-room';
+      // Комната LiveKit совпадает с игровой комнатой (?room=ID)
+      const roomName = req.query.room ?? DEFAULT_ROOM_ID;
       
       if (!identity) {
         return res.status(400).json({ error: 'Missing identity parameter' });
       }
       
+      if (!isValidRoomId(roomName)) {
+        return res.status(400).json({ error: 'Invalid room name' });
+      }
+      
+      // Удостоверение прошлой загрузки страницы возвращает участника на придержанное место с прежней ролью
+      const resumed = typeof req.query.resume === 'string' ? sessionManager.resumeSession(req.query.resume, identity, roomName) : null;
+      
+      // Чужой идентификатор, уже занятый в комнате, можно получить только с удостоверением прошлой загрузки
+      if (!resumed && sessionManager.isIdentityTaken(identity)) {
+        return res.status(409).json({ error: 'Identity already in use' });
+      }
+      
+      // Вошедший пользователь садится за стол только под никнеймом своей учетной записи
+      const account = req.isAuthenticated() ? toUserProfile(req.user) : null;
+      if (!resumed && account && getIdentityName(identity) !== account.nickname) {
+        return res.status(403).json({ error: 'Identity does not match account' });
+      }
+      const accountId = resumed ? resumed.accountId ?? null : account?.id ?? null;
+      
+      // Закрытая комната требует пароль или приглашение
+      const proof = { password: req.query.password as string | undefined, invite: req.query.invite as string | undefined };
+      if (!resumed && !inviteManager.checkAccess(roomName, proof)) {
+        return res.status(403).json({ error: 'Room password required' });
+      }
+      
+      // Роль выдает сервер: приглашение может ее задать, второго ведущего в комнате не будет
+      const role = resumed ? resumed.role : sessionManager.resolveRole(roomName, isSessionRole(req.query.role) ? req.query.role : 'player', proof.invite);
+      if (!role) {
+        return res.status(409).json({ error: 'Room already has a host' });
+      }
+      
       if (!LIVEKIT_API_KEY || !LIVEKIT_API_SECRET) {
         return res.status(500).json({ error: 'LiveKit API credentials are not configured' });
       }
       
+      // Удостоверение выдается сразу после выбора роли, чтобы между ними не вклинился другой запрос
+      const session = sessionManager.issueSession(identity, roomName, role, accountId);
+      
       console.log("Using LiveKit credentials - API Key:", LIVEKIT_API_KEY);
       
       // Создание токена доступа
@@ -79,11 +199,11 @@ app.get("/debug/env", (req, res) => {
         ttl: 3600 * 24, // 24 часа
       });
       
-      // Определяем права доступа
+      // Определяем права доступа (зритель только подписывается на треки игроков)
       const videoGrant: VideoGrant = {
         roomJoin: true,
         room: roomName,
-        canPublish: true,
+        canPublish: role !== 'spectator',
         canSubscribe: true,
         canPublishData: true,
       };
@@ -97,8 +217,14 @@ app.get("/debug/env", (req, res) => {
         
         console.log("Generated token for:", identity, "room:", roomName);
         
-        // Возвращаем токен в формате, который ожидает клиент
-        return res.json({ token: tokenString, identity, room: roomName });
+        // Возвращаем токен и удостоверение для регистрации WebSocket
+        return res.json({
+          token: tokenString,
+          identity,
+          room: roomName,
+          role,
+          session
+        });
       } catch (tokenError) {
         console.error('Error generating token:', tokenError);
         return res.status(500).json({ error: 'Failed to generate token' });
@@ -112,18 +238,51 @@ app.get("/debug/env", (req, res) => {
   // POST endpoint для токенов LiveKit
   app.post('/api/livekit/token', async (req, res) => {
     try {
-      const { identity, roomName } = req.body;
+      const { identity, roomName, password, invite, resume, role: requestedRole } = req.body;
       
       if (!identity) {
         return res.status(400).json({ error: 'Missing identity parameter' });
       }
       
-      const actualRoomName = roomName || 'default-room';
+      const actualRoomName = roomName || DEFAULT_ROOM_ID;
+      
+      if (!isValidRoomId(actualRoomName)) {
+        return res.status(400).json({ error: 'Invalid room name' });
+      }
+      
+      // Удостоверение прошлой загрузки страницы возвращает участника на придержанное место с прежней ролью
+      const resumed = typeof resume === 'string' ? sessionManager.resumeSession(resume, identity, actualRoomName) : null;
+      
+      // Чужой идентификатор, уже занятый в комнате, можно получить только с удостоверением прошлой загрузки
+      if (!resumed && sessionManager.isIdentityTaken(identity)) {
+        return res.status(409).json({ error: 'Identity already in use' });
+      }
+      
+      // Вошедший пользователь садится за стол только под никнеймом своей учетной записи
+      const account = req.isAuthenticated() ? toUserProfile(req.user) : null;
+      if (!resumed && account && getIdentityName(identity) !== account.nickname) {
+        return res.status(403).json({ error: 'Identity does not match account' });
+      }
+      const accountId = resumed ? resumed.accountId ?? null : account?.id ?? null;
+      
+      // Закрытая комната требует пароль или приглашение
+      if (!resumed && !inviteManager.checkAccess(actualRoomName, { password, invite })) {
+        return res.status(403).json({ error: 'Room password required' });
+      }
+      
+      // Роль выдает сервер: приглашение может ее задать, второго ведущего в комнате не будет
+      const role = resumed ? resumed.role : sessionManager.resolveRole(actualRoomName, isSessionRole(requestedRole) ? requestedRole : 'player', invite);
+      if (!role) {
+        return res.status(409).json({ error: 'Room already has a host' });
+      }
       
       if (!LIVEKIT_API_KEY || !LIVEKIT_API_SECRET) {
         return res.status(500).json({ error: 'LiveKit API credentials are not configured' });
       }
       
+      // Удостоверение выдается сразу после выбора роли, чтобы между ними не вклинился другой запрос
+      const session = sessionManager.issueSession(identity, actualRoomName, role, accountId);
+      
       console.log("Using LiveKit credentials for POST request - API Key:", LIVEKIT_API_KEY);
       
       // Создание токена доступа
@@ -132,11 +291,11 @@ app.get("/debug/env", (req, res) => {
         ttl: 3600 * 24, // 24 часа
       });
       
-      // Определяем права доступа
+      // Определяем права доступа (зритель только подписывается на треки игроков)
       const videoGrant: VideoGrant = {
         roomJoin: true,
         room: actualRoomName,
-        canPublish: true,
+        canPublish: role !== 'spectator',
         canSubscribe: true,
         canPublishData: true,
       };
@@ -150,8 +309,14 @@ app.get("/debug/env", (req, res) => {
         
         console.log("Generated token for POST request:", identity, "room:", actualRoomName);
         
-        // Возвращаем токен в формате, который ожидает клиент
-        return res.json({ token: tokenString, identity, room: actualRoomName });
+        // Возвращаем токен и удостоверение для регистрации WebSocket
+        return res.json({
+          token: tokenString,
+          identity,
+          room: actualRoomName,
+          role,
+          session
+        });
       } catch (tokenError) {
         console.error('Error generating token:', tokenError);
         return res.status(500).json({ error: 'Failed to generate token' });
@@ -168,260 +333,46 @@ app.get("/debug/env", (req, res) => {
   const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
   console.log('WebSocket server initialized on path /ws');
 
-  // Подписываемся на события обновления от менеджеров
-  globalEvents.on('slots_updated', (slotsData) => {
-    console.log('Получено событие slots_updated, отправляем обновление всем клиентам');
-    
-    // Используем данные из события вместо повторного запроса
-    const updateMessage: WebSocketMessage = {
-      type: 'slots_update',
-      slots: slotsData
-    };
-    
-    connectionManager.broadcastToAll(updateMessage);
-  });
-
-  globalEvents.on('cameras_updated', (cameraStates) => {
-    console.log('Получено событие cameras_updated, отправляем обновление всем клиентам');
-    
-    // Используем данные из события вместо повторного запроса
-    const updateMessage: WebSocketMessage = {
-      type: 'camera_states_update',
-      cameraStates: cameraStates
-    };
-    
-    connectionManager.broadcastToAll(updateMessage);
-  });
-
   // Периодическая проверка статуса
   setInterval(() => {
     // Логирование текущего состояния
-    console.log(`Периодическая проверка: соединения=${connectionManager.getConnectionCount()}, слоты=${slotManager.getOccupiedSlotsCount()}, присвоено=${slotManager.getOccupiedSlotsCount()}, камеры=${cameraManager.getActiveCamerasCount()}`);
+    console.log(`Периодическая проверка: соединения=${connectionManager.getConnectionCount()}, комнаты=${roomManager.getRooms().length}`);
     
-    // Отладка: показываем текущие назначения слотов
-    slotManager.logCurrentAssignments();
-    
-    // Активность соединений
-    console.log(`Активные соединения: ${connectionManager.getConnectionCount()}, активные слоты: ${slotManager.getOccupiedSlotsCount()}`);
-    
-    // Отправка периодических обновлений только при изменениях
-    // Используем тихие версии без обновления каждые 5 секунд
-    // broadcastSlotUpdate();
-    // broadcastCameraStates();
+    roomManager.getRooms().forEach(room => {
+      console.log(`Комната ${room.id}: слоты=${room.slotManager.getOccupiedSlotsCount()}, камеры=${room.cameraManager.getActiveCamerasCount()}`);
+      
+      // Отладка: показываем текущие назначения слотов
+      room.slotManager.logCurrentAssignments();
+    });
   }, 5000); // каждые 5 секунд
 
+  // Все команды клиентов проходят через единый диспетчер; модули регистрируют в нем свои обработчики.
+  // Закрытие и ошибки соединения обрабатывает ConnectionManager после регистрации пользователя
+  registerConnectionCommands(commandDispatcher);
+  registerSlotCommands(commandDispatcher);
+  registerCameraCommands(commandDispatcher);
+  registerPlayerStateCommands(commandDispatcher);
+  registerRoomStateCommands(commandDispatcher);
+  registerGameSessionCommands(commandDispatcher);
+  registerRoleCommands(commandDispatcher);
+  registerNightActionCommands(commandDispatcher);
+  registerVotingCommands(commandDispatcher);
+  registerSpeechTimerCommands(commandDispatcher);
+  registerBestMoveCommands(commandDispatcher);
+  registerScoringCommands(commandDispatcher);
+  registerInviteCommands(commandDispatcher);
+
   // Обработчик подключений WebSocket
   wss.on('connection', (ws: WebSocket) => {
-    let userId: string | null = null;
-    
-    // Обработка входящих сообщений
     ws.on('message', (message: Buffer | string) => {
-      try {
-        const messageStr = message.toString();
-        const data = JSON.parse(messageStr) as WebSocketMessage;
-        
-        // Обработка разных типов сообщений
-        switch(data.type) {
-          case 'register':
-            // Регистрация пользователя
-            userId = data.userId as string;
-            if (userId) {
-              // Регистрируем соединение для пользователя
-              connectionManager.registerConnection(userId, ws);
-              console.log(`Пользователь зарегистрирован: ${userId}`);
-              
-              // Инициализируем состояние камеры (выключена по умолчанию)
-              cameraManager.initializeUserCamera(userId);
-              
-              // Назначаем слот для пользователя (автоматически назначается слот по роли)
-              const assignedSlot = slotManager.assignFirstAvailableSlot(userId);
-              
-              if (assignedSlot) {
-                console.log(`Автоматически назначен слот ${assignedSlot} для ${userId}`);
-              } else {
-                console.warn(`Не удалось найти свободный слот для ${userId}`);
-              }
-            } else {
-              console.error('Ошибка: получен пустой userId при регистрации');
-            }
-            
-            // Отправляем состояние только новому пользователю вместо всех клиентов
-            sendInitialState(userId);
-            break;
-            
-          case 'select_slot':
-            // Пользователь выбирает слот
-            if (!userId) break;
-            
-            const selectedSlot = data.slotNumber as number;
-            const success = slotManager.assignSlot(userId, selectedSlot);
-            
-            if (success) {
-              console.log(`Пользователь ${userId} выбрал слот ${selectedSlot}`);
-              // broadcastSlotUpdate(); - не нужно, работает через событие slots_updated
-            } else {
-              // Слот занят или недоступен
-              connectionManager.sendToUser(userId, {
-                type: 'slot_busy',
-                slotNumber: selectedSlot
-              });
-            }
-            break;
-            
-          case 'release_slot':
-            // Пользователь освобождает слот
-            if (!userId) break;
-            
-            if (slotManager.releaseUserSlot(userId)) {
-              console.log(`Пользователь ${userId} освободил слот`);
-              // broadcastSlotUpdate(); - не нужно, работает через событие slots_updated
-            }
-            break;
-            
-          case 'camera_state_change':
-            // Обработка изменения состояния камеры
-            if (!userId) break;
-            
-            const isEnabled = Boolean(data.enabled);
-            cameraManager.setCameraState(userId, isEnabled);
-            
-            console.log(`Пользователь ${userId} ${isEnabled ? 'включил' : 'выключил'} камеру`);
-            
-            // Обновление состояния камер будет отправлено через событие cameras_updated
-            break;
-            
-          case 'move_user':
-            // Ведущий перемещает пользователя в другой слот
-            if (!userId) break;
-            
-            const userIdToMove = data.userIdToMove as string;
-            const targetSlot = Number(data.targetSlot);
-            
-            if (!userIdToMove || isNaN(targetSlot)) {
-              console.error('Некорректные параметры для перемещения пользователя');
-              break;
-            }
-            
-            const moveSuccess = slotManager.moveUserToSlot(userId, userIdToMove, targetSlot);
-            
-            if (moveSuccess) {
-              console.log(`Ведущий ${userId} успешно переместил пользователя ${userIdToMove} в слот ${targetSlot}`);
-              // Обновление слотов будет отправлено через событие slots_updated
-            } else {
-              console.log(`Ведущему ${userId} не удалось переместить пользователя ${userIdToMove} в слот ${targetSlot}`);
-              // Можно также отправить сообщение о неудаче конкретно этому ведущему
-              connectionManager.sendToUser(userId, {
-                type: 'move_failed',
-                userIdToMove,
-                targetSlot,
-                reason: 'Не удалось выполнить перемещение пользователя'
-              });
-            }
-            break;
-            
-          case 'shuffle_users':
-            // Ведущий запускает случайное перемешивание пользователей
-            if (!userId) break;
-            
-            console.log(`Пользователь ${userId} запросил перемешивание игроков`);
-            
-            const shuffleSuccess = slotManager.shuffleAllUsers(userId);
-            
-            if (shuffleSuccess) {
-              console.log(`Ведущий ${userId} успешно перемешал пользователей`);
-              // Обновление слотов будет отправлено через событие slots_updated
-            } else {
-              console.log(`Ведущему ${userId} не удалось перемешать пользователей`);
-              // Сообщение о неудаче
-              connectionManager.sendToUser(userId, {
-                type: 'shuffle_failed',
-                reason: 'Не удалось выполнить перемешивание пользователей'
-              });
-            }
-            break;
-            
-          case 'pong':
-          case '_pong':
-            // Клиент отвечает на ping - отмечаем активность
-            if (userId) {
-              connectionManager.markUserActivity(userId);
-            }
-            break;
-            
-          case '_heartbeat':
-            // Клиент отправляет проверку соединения - отвечаем и отмечаем активность
-            if (userId) {
-              connectionManager.markUserActivity(userId);
-              ws.send(JSON.stringify({ type: '_heartbeat_response' }));
-            }
-            break;
-        }
-      } catch (error) {
-        console.error('Ошибка обработки сообщения WebSocket:', error);
-      }
+      commandDispatcher.dispatch(ws, message.toString());
     });
     
-    // Обработка отключения
-    ws.on('close', () => {
-      if (userId) {
-        connectionManager.disconnectUser(userId, ws);
-        console.log(`Пользователь отключился: ${userId}`);
-      }
-    });
-    
-    // Обработка ошибок
+    // Ошибка до регистрации пользователя только логируется
     ws.on('error', (error) => {
       console.error('WebSocket ошибка:', error);
-      if (userId) {
-        connectionManager.disconnectUser(userId, ws);
-      }
     });
   });
   
-  // Функция для отправки обновления слотов всем подключенным клиентам
-  function broadcastSlotUpdate() {
-    const currentSlots = slotManager.getAllSlotAssignments();
-    
-    const updateMessage: WebSocketMessage = {
-      type: 'slots_update',
-      slots: currentSlots
-    };
-    
-    connectionManager.broadcastToAll(updateMessage);
-  }
-  
-  // Функция для отправки первоначального состояния слотов конкретному пользователю
-  function sendInitialState(userId: string) {
-    const currentSlots = slotManager.getAllSlotAssignments();
-    const currentCameraStates = cameraManager.getAllCameraStates();
-    
-    const slotsMessage: WebSocketMessage = {
-      type: 'slots_update',
-      slots: currentSlots
-    };
-    
-    const cameraMessage: WebSocketMessage = {
-      type: 'camera_states_update',
-      cameraStates: currentCameraStates
-    };
-    
-    // Отправляем только этому пользователю
-    console.log(`Отправлено первоначальное состояние клиенту ${userId}: ${currentSlots.length} слотов`);
-    connectionManager.sendToUser(userId, slotsMessage);
-    connectionManager.sendToUser(userId, cameraMessage);
-  }
-  
-  // Функция для отправки обновления состояния камер всем клиентам
-  function broadcastCameraStates() {
-    const currentCameraStates = cameraManager.getAllCameraStates();
-    
-    const updateMessage: WebSocketMessage = {
-      type: 'camera_states_update',
-      cameraStates: currentCameraStates
-    };
-    
-    connectionManager.broadcastToAll(updateMessage);
-  }
-
   return httpServer;
 }
@@ -0,0 +1,60 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * Получить ключ подписи из переменной окружения.
+ * Без заданного ключа используется случайный, и подписи перестают действовать после перезапуска сервера
+ * @param envName Имя переменной окружения
+ */
+export function loadSigningSecret(envName: string): string {
+  const secret = process.env[envName];
+  if (secret) {
+    return secret;
+  }
+
+  console.warn(`${envName} не задан, подписи действуют до перезапуска сервера`);
+  return randomBytes(32).toString('hex');
+}
+
+/**
+ * Подписать содержимое: base64url(JSON).подпись
+ * @param payload Подписываемое содержимое
+ * @param secret Ключ подписи
+ */
+export function signPayload(payload: object, secret: string): string {
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encodedPayload}.${hmac(encodedPayload, secret)}`;
+}
+
+/**
+ * Проверить подпись и прочитать содержимое
+ * @param token Подписанная строка
+ * @param secret Ключ подписи
+ * @returns Содержимое или null, если подпись не совпадает или строка повреждена
+ */
+export function verifySignedPayload<T>(token: string, secret: string): T | null {
+  const [encodedPayload, signature] = token.split('.');
+  if (!encodedPayload || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(hmac(encodedPayload, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(Buffer.from(encodedPayload, 'base64url').toString()) as T;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * HMAC-SHA256 подпись строки
+ * @param value Подписываемая строка
+ * @param secret Ключ подписи
+ */
+function hmac(value: string, secret: string): string {
+  return createHmac('sha256', secret).update(value).digest('base64url');
+}
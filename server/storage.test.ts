@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import type { GameParticipant } from '@shared/schema';
+import { buildRating } from './storage';
+
+let nextId = 1;
+
+/**
+ * Игрок сохраненной игры с баллами и исходом
+ */
+function participant(gameId: number, accountId: number | null, playerName: string, total: number, won: boolean): GameParticipant {
+  return {
+    id: nextId++,
+    gameId,
+    accountId,
+    playerName,
+    slotNumber: 1,
+    role: 'civilian',
+    status: 'alive',
+    statusReason: null,
+    fouls: 0,
+    won,
+    winPoints: total,
+    extraPoints: 0,
+    penaltyPoints: 0,
+    bestMovePoints: 0,
+    total
+  };
+}
+
+describe('buildRating', () => {
+  it('собирает игры вошедшего игрока по учетной записи под последним никнеймом', () => {
+    const rating = buildRating([
+      participant(2, 7, 'Новий нік', 1, true),
+      participant(1, 7, 'Старий нік', 0.5, false)
+    ]);
+
+    expect(rating).toEqual([{ accountId: 7, playerName: 'Новий нік', games: 2, wins: 1, points: 1.5 }]);
+  });
+
+  it('не смешивает гостя с учетной записью того же имени', () => {
+    const rating = buildRating([
+      participant(1, 7, 'Олена', 1, true),
+      participant(1, null, 'Олена', 0, false),
+      participant(2, null, 'Олена', 1, true)
+    ]);
+
+    expect(rating).toEqual([
+      { accountId: 7, playerName: 'Олена', games: 1, wins: 1, points: 1 },
+      { accountId: null, playerName: 'Олена', games: 2, wins: 1, points: 1 }
+    ]);
+  });
+});
@@ -1,21 +1,109 @@
-import { users, type User, type InsertUser } from "@shared/schema";
+import { and, eq } from "drizzle-orm";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import {
+  users,
+  games,
+  gameParticipants,
+  gameVotes,
+  gameNightActions,
+  gameFouls,
+  type User,
+  type InsertUser,
+  type UpdateProfile,
+  type Game,
+  type GameParticipant,
+  type GameVote,
+  type GameNightAction,
+  type GameFoul,
+  type GameRecord,
+  type NewGameRecord,
+  type RatingEntry
+} from "@shared/schema";
+import { createDatabase, createPool, type Database } from "./db";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
 
 // modify the interface with any CRUD methods
 // you might need
 
+/**
+ * Баллы игрока, которые меняются после записи игры (дополнительные баллы ведущего)
+ */
+export interface ParticipantPointsUpdate {
+  slotNumber: number;
+  extraPoints: number;
+  total: number;
+}
+
 export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUserProfile(id: number, profile: UpdateProfile): Promise<User | undefined>;
+  saveGame(record: NewGameRecord): Promise<Game>;
+  updateParticipantPoints(gameId: number, points: ParticipantPointsUpdate[]): Promise<void>;
+  getGameRecord(gameId: number): Promise<GameRecord | undefined>;
+  getRating(): Promise<RatingEntry[]>;
+  // Хранилище сессий входа (cookie)
+  sessionStore: session.Store;
+}
+
+/**
+ * Собрать рейтинг из баллов всех сохраненных игр (по убыванию суммы баллов).
+ * Игры вошедшего игрока суммируются по учетной записи под ее последним именем, игры гостя - по имени
+ * @param participants Игроки сохраненных игр
+ */
+export function buildRating(participants: GameParticipant[]): RatingEntry[] {
+  const rating = new Map<string, RatingEntry>();
+  // Последняя игра, из которой взято имя строки рейтинга
+  const nameGames = new Map<string, number>();
+
+  participants.forEach(participant => {
+    const key = participant.accountId !== null ? `account:${participant.accountId}` : `guest:${participant.playerName}`;
+    const entry = rating.get(key) || { accountId: participant.accountId, playerName: participant.playerName, games: 0, wins: 0, points: 0 };
+    entry.games++;
+    entry.wins += participant.won ? 1 : 0;
+    entry.points = Math.round((entry.points + participant.total) * 100) / 100;
+    if (participant.gameId >= (nameGames.get(key) ?? 0)) {
+      entry.playerName = participant.playerName;
+      nameGames.set(key, participant.gameId);
+    }
+    rating.set(key, entry);
+  });
+
+  return Array.from(rating.values()).sort((a, b) => b.points - a.points);
 }
 
+/**
+ * Хранилище в памяти (для разработки, когда DATABASE_URL не задан)
+ */
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private games: Map<number, Game>;
+  private participants: GameParticipant[];
+  private votes: GameVote[];
+  private nightActions: GameNightAction[];
+  private fouls: GameFoul[];
   currentId: number;
+  currentGameId: number;
+  currentRecordId: number;
+  sessionStore: session.Store;
 
   constructor() {
     this.users = new Map();
+    this.games = new Map();
+    this.participants = [];
+    this.votes = [];
+    this.nightActions = [];
+    this.fouls = [];
     this.currentId = 1;
+    this.currentGameId = 1;
+    this.currentRecordId = 1;
+    // Просроченные сессии удаляются раз в сутки
+    this.sessionStore = new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -30,10 +118,160 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.currentId++;
-    const user: User = { ...insertUser, id };
+    const user: User = { ...insertUser, nickname: insertUser.nickname ?? null, avatarUrl: null, id };
     this.users.set(id, user);
     return user;
   }
+
+  async updateUserProfile(id: number, profile: UpdateProfile): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) {
+      return undefined;
+    }
+
+    const updated: User = { ...user, ...profile };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  async saveGame(record: NewGameRecord): Promise<Game> {
+    const gameId = this.currentGameId++;
+    const game: Game = { ...record.game, id: gameId };
+    this.games.set(gameId, game);
+
+    record.participants.forEach(participant => {
+      this.participants.push({ ...participant, accountId: participant.accountId ?? null, statusReason: participant.statusReason ?? null, id: this.currentRecordId++, gameId });
+    });
+    record.votes.forEach(vote => {
+      this.votes.push({ ...vote, targetSlot: vote.targetSlot ?? null, lift: vote.lift ?? null, id: this.currentRecordId++, gameId });
+    });
+    record.nightActions.forEach(action => {
+      this.nightActions.push({ ...action, result: action.result ?? null, id: this.currentRecordId++, gameId });
+    });
+    record.fouls.forEach(foul => {
+      this.fouls.push({ ...foul, id: this.currentRecordId++, gameId });
+    });
+
+    return game;
+  }
+
+  async updateParticipantPoints(gameId: number, points: ParticipantPointsUpdate[]): Promise<void> {
+    points.forEach(({ slotNumber, extraPoints, total }) => {
+      const participant = this.participants.find(entry => entry.gameId === gameId && entry.slotNumber === slotNumber);
+      if (participant) {
+        participant.extraPoints = extraPoints;
+        participant.total = total;
+      }
+    });
+  }
+
+  async getGameRecord(gameId: number): Promise<GameRecord | undefined> {
+    const game = this.games.get(gameId);
+    if (!game) {
+      return undefined;
+    }
+
+    return {
+      game,
+      participants: this.participants.filter(entry => entry.gameId === gameId),
+      votes: this.votes.filter(entry => entry.gameId === gameId),
+      nightActions: this.nightActions.filter(entry => entry.gameId === gameId),
+      fouls: this.fouls.filter(entry => entry.gameId === gameId)
+    };
+  }
+
+  async getRating(): Promise<RatingEntry[]> {
+    return buildRating(this.participants);
+  }
+}
+
+/**
+ * Хранилище в Postgres через Drizzle
+ */
+export class DatabaseStorage implements IStorage {
+  private db: Database;
+  sessionStore: session.Store;
+
+  constructor(connectionString: string) {
+    const pool = createPool(connectionString);
+    this.db = createDatabase(pool);
+    this.sessionStore = new PostgresSessionStore({ pool, createTableIfMissing: true });
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async updateUserProfile(id: number, profile: UpdateProfile): Promise<User | undefined> {
+    const [user] = await this.db.update(users).set(profile).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  async saveGame(record: NewGameRecord): Promise<Game> {
+    return this.db.transaction(async (tx) => {
+      const [game] = await tx.insert(games).values(record.game).returning();
+
+      // Пустой список значений Drizzle не принимает, поэтому пустые записи пропускаем
+      if (record.participants.length > 0) {
+        await tx.insert(gameParticipants).values(record.participants.map(entry => ({ ...entry, gameId: game.id })));
+      }
+      if (record.votes.length > 0) {
+        await tx.insert(gameVotes).values(record.votes.map(entry => ({ ...entry, gameId: game.id })));
+      }
+      if (record.nightActions.length > 0) {
+        await tx.insert(gameNightActions).values(record.nightActions.map(entry => ({ ...entry, gameId: game.id })));
+      }
+      if (record.fouls.length > 0) {
+        await tx.insert(gameFouls).values(record.fouls.map(entry => ({ ...entry, gameId: game.id })));
+      }
+
+      return game;
+    });
+  }
+
+  async updateParticipantPoints(gameId: number, points: ParticipantPointsUpdate[]): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      for (const { slotNumber, extraPoints, total } of points) {
+        await tx.update(gameParticipants)
+          .set({ extraPoints, total })
+          .where(and(eq(gameParticipants.gameId, gameId), eq(gameParticipants.slotNumber, slotNumber)));
+      }
+    });
+  }
+
+  async getGameRecord(gameId: number): Promise<GameRecord | undefined> {
+    const [game] = await this.db.select().from(games).where(eq(games.id, gameId));
+    if (!game) {
+      return undefined;
+    }
+
+    const [participants, votes, nightActions, fouls] = await Promise.all([
+      this.db.select().from(gameParticipants).where(eq(gameParticipants.gameId, gameId)),
+      this.db.select().from(gameVotes).where(eq(gameVotes.gameId, gameId)),
+      this.db.select().from(gameNightActions).where(eq(gameNightActions.gameId, gameId)),
+      this.db.select().from(gameFouls).where(eq(gameFouls.gameId, gameId))
+    ]);
+
+    return { game, participants, votes, nightActions, fouls };
+  }
+
+  async getRating(): Promise<RatingEntry[]> {
+    return buildRating(await this.db.select().from(gameParticipants));
+  }
 }
 
-export const storage = new MemStorage();
+// Postgres используется, если задан DATABASE_URL, иначе - хранилище в памяти
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DatabaseStorage(process.env.DATABASE_URL)
+  : new MemStorage();
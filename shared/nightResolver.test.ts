@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { NightParticipant, NightSubmission, resolveNight } from './nightResolver';
+
+// Стол со всеми ночными ролями: у каждого игрока свой слот
+const participants: NightParticipant[] = [
+  { userId: 'mafia', slotNumber: 1, role: 'mafia' },
+  { userId: 'don', slotNumber: 2, role: 'don' },
+  { userId: 'doctor', slotNumber: 3, role: 'doctor' },
+  { userId: 'lover', slotNumber: 4, role: 'lover' },
+  { userId: 'maniac', slotNumber: 5, role: 'maniac' },
+  { userId: 'civilian', slotNumber: 6, role: 'civilian' },
+  { userId: 'sheriff', slotNumber: 7, role: 'sheriff' }
+];
+
+const shot = (actorId: string, slot: number): NightSubmission => ({ actorId, action: 'shot', targetSlots: [slot] });
+
+describe('resolveNight', () => {
+  it('убивает цель, согласованную мафией', () => {
+    const outcome = resolveNight(participants, [shot('mafia', 6), shot('don', 6)]);
+
+    expect(outcome).toEqual({ killedSlots: [6], savedSlots: [], blockedSlots: [] });
+  });
+
+  it('не убивает, если мафия выбрала разные цели', () => {
+    const outcome = resolveNight(participants, [shot('mafia', 6), shot('don', 7)]);
+
+    expect(outcome.killedSlots).toEqual([]);
+  });
+
+  it('не убивает, если выбрал только один член мафии', () => {
+    const outcome = resolveNight(participants, [shot('mafia', 6)]);
+
+    expect(outcome.killedSlots).toEqual([]);
+  });
+
+  it('спасает цель, которую лечит доктор', () => {
+    const outcome = resolveNight(participants, [
+      shot('mafia', 6),
+      shot('don', 6),
+      { actorId: 'doctor', action: 'heal', targetSlots: [6] }
+    ]);
+
+    expect(outcome).toEqual({ killedSlots: [], savedSlots: [6], blockedSlots: [] });
+  });
+
+  it('отменяет лечение доктора, к которому пришла любовница', () => {
+    const outcome = resolveNight(participants, [
+      shot('mafia', 6),
+      shot('don', 6),
+      { actorId: 'doctor', action: 'heal', targetSlots: [6] },
+      { actorId: 'lover', action: 'lover_visit', targetSlots: [3] }
+    ]);
+
+    expect(outcome).toEqual({ killedSlots: [6], savedSlots: [], blockedSlots: [3] });
+  });
+
+  it('не ждет выбора заблокированного члена мафии', () => {
+    const outcome = resolveNight(participants, [
+      shot('don', 6),
+      { actorId: 'lover', action: 'lover_visit', targetSlots: [1] }
+    ]);
+
+    expect(outcome).toEqual({ killedSlots: [6], savedSlots: [], blockedSlots: [1] });
+  });
+
+  it('блокирует проверку шерифа, к которому пришла любовница', () => {
+    const outcome = resolveNight(participants, [
+      { actorId: 'sheriff', action: 'sheriff_check', targetSlots: [1] },
+      { actorId: 'lover', action: 'lover_visit', targetSlots: [7] }
+    ]);
+
+    expect(outcome).toEqual({ killedSlots: [], savedSlots: [], blockedSlots: [7] });
+  });
+
+  it('добавляет жертву маньяка к жертве мафии', () => {
+    const outcome = resolveNight(participants, [
+      shot('mafia', 6),
+      shot('don', 6),
+      { actorId: 'maniac', action: 'maniac_kill', targetSlots: [7] }
+    ]);
+
+    expect(outcome.killedSlots).toEqual([6, 7]);
+  });
+
+  it('отбрасывает действия, которых у роли нет', () => {
+    const outcome = resolveNight(participants, [
+      shot('civilian', 7),
+      { actorId: 'sheriff', action: 'maniac_kill', targetSlots: [5] }
+    ]);
+
+    expect(outcome).toEqual({ killedSlots: [], savedSlots: [], blockedSlots: [] });
+  });
+});
@@ -0,0 +1,106 @@
+import { NightActionType, NightOutcome, PlayerRole } from './schema';
+import { getAbility, getRoleTeam, NightAbility } from './roles';
+
+/**
+ * Живой игрок за столом на момент разрешения ночи
+ */
+export interface NightParticipant {
+  userId: string;
+  slotNumber: number;
+  role: PlayerRole;
+}
+
+/**
+ * Выбор игрока этой ночью
+ */
+export interface NightSubmission {
+  actorId: string;
+  action: NightActionType;
+  targetSlots: number[];
+}
+
+/**
+ * Разрешить ночь: применить действия всех ролей в порядке приоритета их способностей
+ * Чистая функция - не зависит от состояния сервера
+ * @param participants Живые игроки с ролями
+ * @param submissions Действия, выбранные игроками
+ * @returns Итог ночи
+ */
+export function resolveNight(participants: NightParticipant[], submissions: NightSubmission[]): NightOutcome {
+  const byId = new Map(participants.map(participant => [participant.userId, participant]));
+
+  // Связываем каждое действие с декларацией способности, отбрасывая недопустимые
+  const resolved = submissions
+    .map(submission => {
+      const actor = byId.get(submission.actorId);
+      const ability = actor ? getAbility(actor.role, submission.action) : undefined;
+      return actor && ability ? { submission, actor, ability } : null;
+    })
+    .filter((entry): entry is { submission: NightSubmission; actor: NightParticipant; ability: NightAbility } => entry !== null);
+
+  const priorities = Array.from(new Set(resolved.map(entry => entry.ability.priority))).sort((a, b) => a - b);
+
+  const blocked = new Set<number>();
+  const protectedSlots = new Set<number>();
+  const killCandidates = new Set<number>();
+
+  for (const priority of priorities) {
+    // Заблокированные игроки на этом шаге уже не действуют
+    const active = resolved.filter(entry =>
+      entry.ability.priority === priority && !blocked.has(entry.actor.slotNumber)
+    );
+
+    // Действия команды группируются по команде и типу действия, остальные применяются по одному
+    const teamGroups = new Map<string, typeof active>();
+
+    for (const entry of active) {
+      if (entry.ability.requiresTeamAgreement) {
+        const key = `${getRoleTeam(entry.actor.role)}:${entry.ability.action}`;
+        teamGroups.set(key, [...(teamGroups.get(key) || []), entry]);
+        continue;
+      }
+      applyEffect(entry.ability, entry.submission.targetSlots);
+    }
+
+    teamGroups.forEach((entries, key) => {
+      const [team, action] = key.split(':');
+      // Все живые и не заблокированные члены команды с этой способностью должны выбрать одно и то же
+      const expectedActors = participants.filter(participant =>
+        getRoleTeam(participant.role) === team &&
+        !blocked.has(participant.slotNumber) &&
+        !!getAbility(participant.role, action as NightActionType)
+      );
+
+      const targetKeys = new Set(entries.map(entry => [...entry.submission.targetSlots].sort((a, b) => a - b).join(',')));
+      if (entries.length === expectedActors.length && targetKeys.size === 1) {
+        applyEffect(entries[0].ability, entries[0].submission.targetSlots);
+      }
+    });
+  }
+
+  function applyEffect(ability: NightAbility, targetSlots: number[]): void {
+    switch (ability.effect) {
+      case 'block':
+        targetSlots.forEach(slot => blocked.add(slot));
+        break;
+      case 'protect':
+        targetSlots.forEach(slot => protectedSlots.add(slot));
+        break;
+      case 'kill':
+        targetSlots.forEach(slot => killCandidates.add(slot));
+        break;
+      case 'check':
+        // Результат проверки незаблокированный исполнитель получает на рассвете, на итог ночи она не влияет
+        break;
+    }
+  }
+
+  const killedSlots = Array.from(killCandidates).filter(slot => !protectedSlots.has(slot)).sort((a, b) => a - b);
+  const savedSlots = Array.from(killCandidates).filter(slot => protectedSlots.has(slot)).sort((a, b) => a - b);
+
+  return {
+    killedSlots,
+    savedSlots,
+    blockedSlots: Array.from(blocked).sort((a, b) => a - b)
+  };
+}
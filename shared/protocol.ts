@@ -0,0 +1,248 @@
+import { z } from "zod";
+import {
+  GAME_PHASE_TRANSITIONS,
+  type BestMoveState,
+  type GamePhase,
+  type GameScoreSheet,
+  type GameSessionState,
+  type InvitePayload,
+  type InviteRole,
+  type NightActionResult,
+  type NightActionType,
+  type NightSummary,
+  type PlayerRole,
+  type RoleAssignment,
+  type RoomStateDelta,
+  type RoomStateDocument,
+  type SpeechTimerState,
+  type SpeechType,
+  type VotingState
+} from "./schema";
+import { RULESETS, type RulesetId } from "./rulesets";
+
+/*
+ * Протокол WebSocket: все сообщения клиента серверу и сервера клиенту.
+ * Входящие сообщения сервер проверяет схемами, исходящие типизированы теми же схемами
+ */
+
+// Перечисления из общих типов (список литералов сверяется с типом при компиляции)
+const gamePhaseSchema = z.enum(Object.keys(GAME_PHASE_TRANSITIONS) as [GamePhase, ...GamePhase[]]);
+const rulesetIdSchema = z.enum(Object.keys(RULESETS) as [RulesetId, ...RulesetId[]]);
+const nightActionTypeSchema = z.enum(
+  ['shot', 'don_check', 'sheriff_check', 'heal', 'maniac_kill', 'lover_visit'] as const satisfies readonly NightActionType[]
+);
+const speechTypeSchema = z.enum(['normal', 'defence', 'last_words'] as const satisfies readonly SpeechType[]);
+const inviteRoleSchema = z.enum(['player', 'spectator'] as const satisfies readonly InviteRole[]);
+
+const slotNumberSchema = z.number().int();
+// Длительность речи в секундах: не больше часа (большие значения переполняют таймер сервера)
+const speechSecondsSchema = z.number().min(1).max(3600);
+const userIdSchema = z.string().min(1);
+
+// Необязательный ID запроса в каждой команде; сервер возвращает его в ответе на команду
+const request = { requestId: z.string().min(1).max(64).optional() };
+
+// Сообщение без параметров
+const command = <T extends string>(type: T) => z.object({ type: z.literal(type), ...request });
+
+/**
+ * Сообщения клиента серверу
+ */
+export const clientMessageSchema = z.discriminatedUnion("type", [
+  // Служебные сообщения соединения
+  command('_heartbeat'),
+  command('pong'),
+  command('_pong'),
+
+  // Регистрация соединения: комнату и роль задает удостоверение, выданное с токеном LiveKit
+  z.object({
+    type: z.literal('register'),
+    ...request,
+    userId: userIdSchema,
+    roomId: z.string().optional(),
+    invite: z.string().optional(),
+    session: z.string().min(1)
+  }),
+
+  // Слоты и камеры
+  z.object({ type: z.literal('select_slot'), ...request, slotNumber: slotNumberSchema }),
+  command('release_slot'),
+  z.object({ type: z.literal('camera_state_change'), ...request, enabled: z.boolean() }),
+  z.object({ type: z.literal('move_user'), ...request, userIdToMove: userIdSchema, targetSlot: slotNumberSchema }),
+  command('shuffle_users'),
+  z.object({ type: z.literal('rename_user'), ...request, targetUserId: userIdSchema, newName: z.string().trim().min(1) }),
+
+  // Состояния игроков
+  z.object({ type: z.literal('kill_player'), ...request, targetUserId: userIdSchema }),
+  z.object({ type: z.literal('revive_player'), ...request, targetUserId: userIdSchema }),
+  z.object({ type: z.literal('add_foul'), ...request, targetUserId: userIdSchema }),
+  z.object({ type: z.literal('remove_foul'), ...request, targetUserId: userIdSchema }),
+  command('reset_player_states'),
+
+  // Полный снимок состояния стола (клиент заметил пропуск версии)
+  command('get_room_state'),
+
+  // Фазы игры и роли
+  z.object({ type: z.literal('change_game_phase'), ...request, phase: gamePhaseSchema }),
+  command('advance_game_phase'),
+  command('reset_game_session'),
+  z.object({ type: z.literal('set_ruleset'), ...request, rulesetId: rulesetIdSchema }),
+  command('get_game_session'),
+  command('redeal_roles'),
+  command('get_my_role'),
+
+  // Ночь (targetSlot - сокращение для одной цели)
+  z.object({
+    type: z.literal('night_action'),
+    ...request,
+    action: nightActionTypeSchema,
+    targetSlots: z.array(slotNumberSchema).optional(),
+    targetSlot: slotNumberSchema.optional()
+  }),
+  command('get_night_summary'),
+
+  // Голосование
+  z.object({ type: z.literal('nominate'), ...request, targetSlot: slotNumberSchema }),
+  z.object({ type: z.literal('cast_vote'), ...request, targetSlot: slotNumberSchema }),
+  z.object({ type: z.literal('cast_lift_vote'), ...request, lift: z.boolean() }),
+  command('close_voting'),
+  command('start_revote'),
+  command('get_voting_state'),
+
+  // Лучший ход и итоги игры
+  z.object({ type: z.literal('submit_best_move'), ...request, slots: z.array(slotNumberSchema) }),
+  command('get_best_move'),
+  z.object({ type: z.literal('set_extra_points'), ...request, slotNumber: slotNumberSchema, points: z.number().finite() }),
+  command('finalize_scores'),
+  command('get_score_sheet'),
+
+  // Приглашения и пароль комнаты (null снимает пароль)
+  z.object({
+    type: z.literal('create_invite'),
+    ...request,
+    passwordRequired: z.boolean().optional(),
+    role: inviteRoleSchema.nullable().optional(),
+    seat: slotNumberSchema.nullable().optional()
+  }),
+  z.object({ type: z.literal('revoke_invite'), ...request, inviteId: z.string().min(1) }),
+  z.object({ type: z.literal('set_room_password'), ...request, password: z.string().nullable() }),
+
+  // Таймер речи (без слота - следующий по очереди)
+  z.object({
+    type: z.literal('start_speech'),
+    ...request,
+    slotNumber: slotNumberSchema.optional(),
+    speechType: speechTypeSchema.optional()
+  }),
+  command('pause_speech'),
+  command('resume_speech'),
+  command('stop_speech'),
+  z.object({
+    type: z.literal('set_speech_durations'),
+    ...request,
+    durations: z.object({
+      normal: speechSecondsSchema,
+      defence: speechSecondsSchema,
+      last_words: speechSecondsSchema
+    }).partial()
+  }),
+  command('get_speech_timer')
+]);
+
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+export type ClientMessageType = ClientMessage['type'];
+export type ClientMessageOf<T extends ClientMessageType> = Extract<ClientMessage, { type: T }>;
+
+/**
+ * Сообщения сервера клиенту. Состояния модулей описаны типами в shared/schema.ts
+ */
+export const serverMessageSchema = z.discriminatedUnion("type", [
+  // Служебные сообщения соединения
+  z.object({ type: z.literal('_heartbeat_response') }),
+  z.object({ type: z.literal('_ping'), timestamp: z.number().optional(), enhancedMode: z.boolean().optional() }),
+
+  // Ответы на команды: ID запроса из команды возвращается отправителю
+  z.object({
+    type: z.literal('invalid_message'),
+    // Тип отклоненного сообщения (null, если его не удалось прочитать)
+    messageType: z.string().nullable(),
+    requestId: z.string().optional(),
+    message: z.string(),
+    issues: z.array(z.string())
+  }),
+  // Команда отклонена диспетчером или модулем: недостаточно прав или действие невозможно
+  z.object({
+    type: z.literal('operation_failed'),
+    operation: z.custom<ClientMessageType>(),
+    requestId: z.string().optional(),
+    message: z.string()
+  }),
+  // Команда с ID запроса выполнена
+  z.object({ type: z.literal('command_ack'), operation: z.custom<ClientMessageType>(), requestId: z.string() }),
+
+  // Состояние стола (слоты, камеры, состояния игроков): снимок и изменения с версией
+  z.object({ type: z.literal('room_state_snapshot'), version: z.number(), state: z.custom<RoomStateDocument>() }),
+  z.object({ type: z.literal('room_state_delta'), version: z.number(), delta: z.custom<RoomStateDelta>() }),
+
+  // Имена участников
+  z.object({ type: z.literal('display_name_update'), userId: z.string(), displayName: z.string() }),
+  z.object({ type: z.literal('rename_success'), userId: z.string(), displayName: z.string(), requestId: z.string().optional() }),
+
+  // Состояние игры
+  z.object({ type: z.literal('game_phase_update'), session: z.custom<GameSessionState>() }),
+  z.object({ type: z.literal('role_assigned'), role: z.custom<PlayerRole | null>() }),
+  z.object({ type: z.literal('roles_table'), roles: z.custom<RoleAssignment[]>() }),
+  z.object({ type: z.literal('night_action_result'), result: z.custom<NightActionResult>() }),
+  z.object({ type: z.literal('night_summary'), summary: z.custom<NightSummary>() }),
+  z.object({ type: z.literal('night_result'), killedSlots: z.array(z.number()), savedSlots: z.array(z.number()) }),
+  z.object({ type: z.literal('voting_update'), voting: z.custom<VotingState>() }),
+  z.object({ type: z.literal('speech_timer_update'), timer: z.custom<SpeechTimerState>() }),
+  z.object({ type: z.literal('best_move_update'), bestMove: z.custom<BestMoveState>() }),
+  z.object({ type: z.literal('score_update'), sheet: z.custom<GameScoreSheet | null>() }),
+
+  // Приглашения и пароль комнаты
+  z.object({ type: z.literal('invite_created'), invite: z.string(), payload: z.custom<InvitePayload>() }),
+  z.object({ type: z.literal('invite_revoked'), inviteId: z.string() }),
+  z.object({ type: z.literal('room_password_update'), passwordProtected: z.boolean() })
+]);
+
+export type ServerMessage = z.infer<typeof serverMessageSchema>;
+export type ServerMessageType = ServerMessage['type'];
+export type ServerMessageOf<T extends ServerMessageType> = Extract<ServerMessage, { type: T }>;
+
+/**
+ * Результат разбора входящего сообщения
+ */
+export type ParsedClientMessage =
+  | { success: true; message: ClientMessage }
+  | { success: false; messageType: string | null; requestId?: string; issues: string[] };
+
+/**
+ * Разобрать и проверить сообщение клиента
+ * @param raw Текст сообщения WebSocket
+ */
+export function parseClientMessage(raw: string): ParsedClientMessage {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch (error) {
+    return { success: false, messageType: null, issues: ['Сообщение не является JSON'] };
+  }
+
+  const result = clientMessageSchema.safeParse(data);
+  if (result.success) {
+    return { success: true, message: result.data };
+  }
+
+  const { type, requestId } = (data ?? {}) as { type?: unknown; requestId?: unknown };
+  return {
+    success: false,
+    messageType: typeof type === 'string' ? type : null,
+    requestId: typeof requestId === 'string' ? requestId : undefined,
+    issues: result.error.issues.map(issue =>
+      issue.code === 'invalid_union_discriminator'
+        ? 'type: неизвестный тип сообщения'
+        : `${issue.path.join('.') || 'message'}: ${issue.message}`
+    )
+  };
+}
@@ -0,0 +1,124 @@
+import { GameWinner, NightActionType, PlayerRole } from './schema';
+
+/**
+ * Команда, за которую играет роль (совпадает с возможным победителем)
+ */
+export type RoleTeam = GameWinner;
+
+/**
+ * Что ночная способность делает с целью при разрешении ночи
+ * kill - убивает, protect - спасает от убийства, block - отменяет действия цели,
+ * check - только сообщает результат исполнителю
+ */
+export type NightEffect = 'kill' | 'protect' | 'block' | 'check';
+
+/**
+ * Декларативное описание ночной способности
+ */
+export interface NightAbility {
+  action: NightActionType;
+  effect: NightEffect;
+  // Количество целей
+  targets: number;
+  // Можно ли выбрать себя целью
+  canTargetSelf: boolean;
+  // Для проверок: роли, при нахождении которых результат - true
+  detects?: PlayerRole[];
+  // Действие команды: срабатывает, только если все живые исполнители выбрали одни и те же цели
+  requiresTeamAgreement?: boolean;
+  // Можно ли изменить выбор до рассвета (иначе - одно действие за ночь)
+  changeable: boolean;
+  // Порядок разрешения (меньше - раньше)
+  priority: number;
+}
+
+/**
+ * Описание роли
+ */
+export interface RoleDefinition {
+  id: PlayerRole;
+  team: RoleTeam;
+  abilities: NightAbility[];
+}
+
+/**
+ * Реестр ролей
+ * Новая роль добавляется сюда - сервер разрешает ее действия без изменений в менеджерах
+ */
+export const ROLE_DEFINITIONS: Record<PlayerRole, RoleDefinition> = {
+  civilian: {
+    id: 'civilian',
+    team: 'civilians',
+    abilities: []
+  },
+  mafia: {
+    id: 'mafia',
+    team: 'mafia',
+    abilities: [
+      { action: 'shot', effect: 'kill', targets: 1, canTargetSelf: false, requiresTeamAgreement: true, changeable: true, priority: 40 }
+    ]
+  },
+  don: {
+    id: 'don',
+    team: 'mafia',
+    abilities: [
+      { action: 'shot', effect: 'kill', targets: 1, canTargetSelf: false, requiresTeamAgreement: true, changeable: true, priority: 40 },
+      { action: 'don_check', effect: 'check', targets: 1, canTargetSelf: false, detects: ['sheriff'], changeable: false, priority: 20 }
+    ]
+  },
+  sheriff: {
+    id: 'sheriff',
+    team: 'civilians',
+    abilities: [
+      { action: 'sheriff_check', effect: 'check', targets: 1, canTargetSelf: false, detects: ['mafia', 'don'], changeable: false, priority: 20 }
+    ]
+  },
+  doctor: {
+    id: 'doctor',
+    team: 'civilians',
+    abilities: [
+      { action: 'heal', effect: 'protect', targets: 1, canTargetSelf: true, changeable: true, priority: 30 }
+    ]
+  },
+  maniac: {
+    id: 'maniac',
+    team: 'maniac',
+    abilities: [
+      { action: 'maniac_kill', effect: 'kill', targets: 1, canTargetSelf: false, changeable: true, priority: 40 }
+    ]
+  },
+  lover: {
+    id: 'lover',
+    team: 'civilians',
+    abilities: [
+      { action: 'lover_visit', effect: 'block', targets: 1, canTargetSelf: false, changeable: true, priority: 10 }
+    ]
+  }
+};
+
+/**
+ * Какие ночные действия доступны каждой роли
+ */
+export const NIGHT_ACTIONS_BY_ROLE = Object.fromEntries(
+  Object.values(ROLE_DEFINITIONS).map(definition => [
+    definition.id,
+    definition.abilities.map(ability => ability.action)
+  ])
+) as Record<PlayerRole, NightActionType[]>;
+
+/**
+ * Найти способность роли по типу действия
+ * @param role Роль
+ * @param action Тип действия
+ */
+export function getAbility(role: PlayerRole, action: NightActionType): NightAbility | undefined {
+  return ROLE_DEFINITIONS[role]?.abilities.find(ability => ability.action === action);
+}
+
+/**
+ * Получить команду роли
+ * @param role Роль
+ */
+export function getRoleTeam(role: PlayerRole): RoleTeam {
+  return ROLE_DEFINITIONS[role].team;
+}
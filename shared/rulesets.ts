@@ -0,0 +1,160 @@
+import { PlayerRole, SpeechType } from './schema';
+
+/**
+ * Идентификаторы встроенных наборов правил
+ */
+export type RulesetId = 'fiim' | 'classic' | 'city';
+
+/**
+ * Поведение при равенстве голосов
+ * revote_then_lift - переголосование, затем голосование за подъем всех
+ * revote_then_nobody - переголосование, при повторном равенстве никто не выбывает
+ * nobody - при равенстве никто не выбывает
+ */
+export type TieBreakRule = 'revote_then_lift' | 'revote_then_nobody' | 'nobody';
+
+/**
+ * Количество активных ролей для стола от minPlayers игроков
+ * Остальные места занимают мирные жители
+ */
+export interface RoleCountsEntry {
+  minPlayers: number;
+  roles: Partial<Record<Exclude<PlayerRole, 'civilian'>, number>>;
+}
+
+/**
+ * Подсчет баллов за игру
+ */
+export interface ScoringRules {
+  // Баллы за победу и поражение команды
+  winPoints: number;
+  lossPoints: number;
+  // Штраф за каждый фол и за удаление из игры фолами
+  foulPenalty: number;
+  removalPenalty: number;
+  // Бонус за лучший ход (индекс - количество угаданных мафиози)
+  bestMovePoints: number[];
+  // Максимум дополнительных баллов от ведущего одному игроку
+  maxExtraPoints: number;
+}
+
+/**
+ * Набор правил игрового вечера
+ */
+export interface Ruleset {
+  id: RulesetId;
+  name: string;
+  description: string;
+  // Длительности речей (в секундах)
+  speechDurations: Record<SpeechType, number>;
+  // Фол, после которого игрок пропускает следующую речь (null - не пропускает)
+  foulsToSilence: number | null;
+  // Фол, после которого игрок удаляется из игры
+  foulsToRemove: number;
+  // Проводится ли голосование в первый день
+  votingOnFirstDay: boolean;
+  tieBreak: TieBreakRule;
+  // Составы ролей для разного количества игроков (по возрастанию minPlayers)
+  roleCounts: RoleCountsEntry[];
+  scoring: ScoringRules;
+}
+
+/**
+ * Встроенные наборы правил
+ */
+export const RULESETS: Record<RulesetId, Ruleset> = {
+  fiim: {
+    id: 'fiim',
+    name: 'Спортивна (ФІІМ)',
+    description: 'Хвилина на промову, 4 фоли - вилучення, рівність - переголосування і підйом усіх',
+    speechDurations: { normal: 60, defence: 30, last_words: 60 },
+    foulsToSilence: 3,
+    foulsToRemove: 4,
+    votingOnFirstDay: true,
+    tieBreak: 'revote_then_lift',
+    roleCounts: [
+      { minPlayers: 7, roles: { don: 1, mafia: 1, sheriff: 1 } },
+      { minPlayers: 10, roles: { don: 1, mafia: 2, sheriff: 1 } }
+    ],
+    scoring: { winPoints: 1, lossPoints: 0, foulPenalty: 0, removalPenalty: 0.7, bestMovePoints: [0, 0, 0.25, 0.5], maxExtraPoints: 0.7 }
+  },
+  classic: {
+    id: 'classic',
+    name: 'Класична',
+    description: 'Без голосування в перший день, при повторній рівності ніхто не вибуває',
+    speechDurations: { normal: 60, defence: 30, last_words: 30 },
+    foulsToSilence: null,
+    foulsToRemove: 4,
+    votingOnFirstDay: false,
+    tieBreak: 'revote_then_nobody',
+    roleCounts: [
+      { minPlayers: 7, roles: { mafia: 2, sheriff: 1 } },
+      { minPlayers: 10, roles: { don: 1, mafia: 2, sheriff: 1 } }
+    ],
+    scoring: { winPoints: 1, lossPoints: 0, foulPenalty: 0, removalPenalty: 0.5, bestMovePoints: [0, 0.1, 0.25, 0.5], maxExtraPoints: 0.5 }
+  },
+  city: {
+    id: 'city',
+    name: 'Міська мафія',
+    description: 'Довші промови, лікар, коханка і маніяк, 5 фолів - вилучення, рівність - ніхто не вибуває',
+    speechDurations: { normal: 90, defence: 45, last_words: 30 },
+    foulsToSilence: 4,
+    foulsToRemove: 5,
+    votingOnFirstDay: true,
+    tieBreak: 'nobody',
+    roleCounts: [
+      { minPlayers: 7, roles: { don: 1, mafia: 1, sheriff: 1, doctor: 1 } },
+      { minPlayers: 10, roles: { don: 1, mafia: 2, sheriff: 1, doctor: 1, lover: 1, maniac: 1 } }
+    ],
+    scoring: { winPoints: 1, lossPoints: 0, foulPenalty: 0.1, removalPenalty: 0.5, bestMovePoints: [0, 0, 0.25, 0.5], maxExtraPoints: 1 }
+  }
+};
+
+// Набор правил по умолчанию
+export const DEFAULT_RULESET_ID: RulesetId = 'fiim';
+
+/**
+ * Получить набор правил по идентификатору (неизвестный идентификатор - правила по умолчанию)
+ * @param id Идентификатор набора правил
+ */
+export function getRuleset(id: string): Ruleset {
+  return RULESETS[id as RulesetId] ?? RULESETS[DEFAULT_RULESET_ID];
+}
+
+/**
+ * Собрать колоду ролей для стола по набору правил
+ * Для стола меньше самого маленького состава треть игроков (не меньше одного) - команда мафии с доном,
+ * и шериф, если мирных остается хотя бы двое
+ * @param ruleset Набор правил
+ * @param playerCount Количество игроков
+ */
+export function buildRoleDeck(ruleset: Ruleset, playerCount: number): PlayerRole[] {
+  const entry = [...ruleset.roleCounts]
+    .reverse()
+    .find(candidate => candidate.minPlayers <= playerCount);
+
+  const deck: PlayerRole[] = [];
+
+  if (entry) {
+    (Object.entries(entry.roles) as Array<[PlayerRole, number]>).forEach(([role, count]) => {
+      for (let i = 0; i < count; i++) {
+        deck.push(role);
+      }
+    });
+  } else {
+    const mafiaTeam = Math.max(1, Math.floor(playerCount / 3));
+    deck.push('don');
+    for (let i = 1; i < mafiaTeam; i++) {
+      deck.push('mafia');
+    }
+    if (playerCount - mafiaTeam >= 2) {
+      deck.push('sheriff');
+    }
+  }
+
+  while (deck.length < playerCount) {
+    deck.push('civilian');
+  }
+
+  return deck.slice(0, playerCount);
+}
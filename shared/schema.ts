@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, real, timestamp } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -6,16 +6,295 @@ export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  // Имя за столом (без него показывается логин)
+  nickname: text("nickname"),
+  avatarUrl: text("avatar_url"),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
+  nickname: true,
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+/**
+ * Ограничения учетной записи (проверяются и на клиенте, и на сервере)
+ */
+const nicknameSchema = z.string().trim().min(1, "Вкажіть нікнейм").max(32, "Нікнейм до 32 символів");
+
+export const registerUserSchema = insertUserSchema.extend({
+  username: z.string().regex(/^[A-Za-z0-9_-]{3,32}$/, "Логін: 3-32 латинські літери, цифри, дефіс або підкреслення"),
+  password: z.string().min(6, "Пароль не коротше 6 символів").max(128),
+  nickname: nicknameSchema.optional(),
+});
+
+export const loginUserSchema = z.object({
+  username: z.string().min(1, "Вкажіть логін"),
+  password: z.string().min(1, "Вкажіть пароль"),
+});
+
+export const updateProfileSchema = z.object({
+  nickname: nicknameSchema,
+  avatarUrl: z.string().trim().url("Некоректне посилання на аватар").max(500).nullable(),
+});
+
+export type RegisterUser = z.infer<typeof registerUserSchema>;
+export type LoginUser = z.infer<typeof loginUserSchema>;
+export type UpdateProfile = z.infer<typeof updateProfileSchema>;
+
+/**
+ * Профиль пользователя, который видит клиент (без пароля)
+ */
+export interface UserProfile {
+  id: number;
+  username: string;
+  nickname: string;
+  avatarUrl: string | null;
+}
+
+/**
+ * Получить профиль пользователя для клиента
+ * @param user Пользователь из хранилища
+ */
+export function toUserProfile(user: User): UserProfile {
+  return {
+    id: user.id,
+    username: user.username,
+    nickname: user.nickname ?? user.username,
+    avatarUrl: user.avatarUrl,
+  };
+}
+
+/**
+ * Сыгранные игры и их ход (клубный рейтинг и история игр)
+ */
+export const games = pgTable("games", {
+  id: serial("id").primaryKey(),
+  rulesetId: text("ruleset_id").notNull(),
+  winner: text("winner").notNull(),
+  rounds: integer("rounds").notNull(),
+  finishedAt: timestamp("finished_at").notNull(),
+});
+
+// Игроки за столом: слот, роль, итоговый статус и баллы
+export const gameParticipants = pgTable("game_participants", {
+  id: serial("id").primaryKey(),
+  gameId: integer("game_id").notNull().references(() => games.id),
+  // Учетная запись вошедшего игрока (у гостя ее нет); рейтинг собирается по ней
+  accountId: integer("account_id").references(() => users.id),
+  playerName: text("player_name").notNull(),
+  slotNumber: integer("slot_number").notNull(),
+  role: text("role").notNull(),
+  status: text("status").notNull(),
+  statusReason: text("status_reason"),
+  fouls: integer("fouls").notNull(),
+  won: boolean("won").notNull(),
+  winPoints: real("win_points").notNull(),
+  extraPoints: real("extra_points").notNull(),
+  penaltyPoints: real("penalty_points").notNull(),
+  bestMovePoints: real("best_move_points").notNull(),
+  total: real("total").notNull(),
+});
+
+// Голоса дневных голосований (для подъема всех - lift вместо targetSlot)
+export const gameVotes = pgTable("game_votes", {
+  id: serial("id").primaryKey(),
+  gameId: integer("game_id").notNull().references(() => games.id),
+  round: integer("round").notNull(),
+  stage: text("stage").notNull(),
+  voterSlot: integer("voter_slot").notNull(),
+  targetSlot: integer("target_slot"),
+  lift: boolean("lift"),
+});
+
+// Ночные действия ролей (night - номер ночи, ночь после N-го дня имеет номер N)
+export const gameNightActions = pgTable("game_night_actions", {
+  id: serial("id").primaryKey(),
+  gameId: integer("game_id").notNull().references(() => games.id),
+  night: integer("night").notNull(),
+  actorSlot: integer("actor_slot").notNull(),
+  role: text("role").notNull(),
+  action: text("action").notNull(),
+  targetSlots: integer("target_slots").array().notNull(),
+  result: boolean("result"),
+});
+
+// Выданные фолы в порядке выдачи
+export const gameFouls = pgTable("game_fouls", {
+  id: serial("id").primaryKey(),
+  gameId: integer("game_id").notNull().references(() => games.id),
+  round: integer("round").notNull(),
+  slotNumber: integer("slot_number").notNull(),
+  foulNumber: integer("foul_number").notNull(),
+  createdAt: timestamp("created_at").notNull(),
+});
+
+export const insertGameSchema = createInsertSchema(games).omit({
+  id: true,
+});
+
+export const insertGameParticipantSchema = createInsertSchema(gameParticipants).omit({
+  id: true,
+  gameId: true,
+});
+
+export const insertGameVoteSchema = createInsertSchema(gameVotes).omit({
+  id: true,
+  gameId: true,
+});
+
+export const insertGameNightActionSchema = createInsertSchema(gameNightActions).omit({
+  id: true,
+  gameId: true,
+});
+
+export const insertGameFoulSchema = createInsertSchema(gameFouls).omit({
+  id: true,
+  gameId: true,
+});
+
+export type InsertGame = z.infer<typeof insertGameSchema>;
+export type Game = typeof games.$inferSelect;
+export type InsertGameParticipant = z.infer<typeof insertGameParticipantSchema>;
+export type GameParticipant = typeof gameParticipants.$inferSelect;
+export type InsertGameVote = z.infer<typeof insertGameVoteSchema>;
+export type GameVote = typeof gameVotes.$inferSelect;
+export type InsertGameNightAction = z.infer<typeof insertGameNightActionSchema>;
+export type GameNightAction = typeof gameNightActions.$inferSelect;
+export type InsertGameFoul = z.infer<typeof insertGameFoulSchema>;
+export type GameFoul = typeof gameFouls.$inferSelect;
+
+/**
+ * Запись завершенной игры для сохранения
+ */
+export interface NewGameRecord {
+  game: InsertGame;
+  participants: InsertGameParticipant[];
+  votes: InsertGameVote[];
+  nightActions: InsertGameNightAction[];
+  fouls: InsertGameFoul[];
+}
+
+/**
+ * Сохраненная игра со всеми ее записями
+ */
+export interface GameRecord {
+  game: Game;
+  participants: GameParticipant[];
+  votes: GameVote[];
+  nightActions: GameNightAction[];
+  fouls: GameFoul[];
+}
+
+/**
+ * Строка клубного рейтинга (сумма по всем сохраненным играм)
+ */
+export interface RatingEntry {
+  // Учетная запись игрока (null - гость, его игры собираются по имени)
+  accountId: number | null;
+  playerName: string;
+  games: number;
+  wins: number;
+  points: number;
+}
+
+/**
+ * Комната, в которую попадают клиенты без явно выбранной комнаты
+ */
+export const DEFAULT_ROOM_ID = 'mafialive-room';
+
+/**
+ * Допустимый ID комнаты: латиница, цифры, дефис и подчеркивание (он же имя комнаты LiveKit)
+ */
+export const ROOM_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * Проверить ID комнаты
+ * @param roomId ID комнаты
+ */
+export function isValidRoomId(roomId: unknown): roomId is string {
+  return typeof roomId === 'string' && ROOM_ID_PATTERN.test(roomId);
+}
+
+/**
+ * Префикс идентификатора зрителя (только часть имени: зрителем участника делает роль от сервера)
+ */
+export const SPECTATOR_PREFIX = 'Spectator-';
+
+/**
+ * Префиксы идентификаторов по ролям. Они нужны только для отображения имени:
+ * права участника определяет роль, выданная сервером вместе с токеном
+ */
+const IDENTITY_PREFIXES = ['Player-', 'Host-', SPECTATOR_PREFIX];
+
+/**
+ * Извлечь имя участника из идентификатора вида "Player-name-1234"
+ * @param identity ID пользователя (идентификатор LiveKit)
+ */
+export function getIdentityName(identity: string): string {
+  const prefix = IDENTITY_PREFIXES.find(p => identity.startsWith(p));
+  const withoutPrefix = prefix ? identity.substring(prefix.length) : identity;
+  // Убираем числовой суффикс, который делает идентификатор уникальным
+  return withoutPrefix.replace(/-\d+$/, '') || withoutPrefix;
+}
+
+/**
+ * Количество мест за столом (11 игроков и ведущий)
+ */
+export const ROOM_SEAT_COUNT = 12;
+
+/**
+ * Состояние комнаты для списка столов в лобби
+ */
+export interface RoomSummary {
+  roomId: string;
+  hasHost: boolean;
+  occupiedSeats: number;
+  seatCount: number;
+  phase: GamePhase;
+  userCount: number;
+  // Подключенные зрители (игроки, ждущие свободного места, сюда не входят)
+  spectatorCount: number;
+  // Вход по паролю комнаты или по приглашению
+  passwordProtected: boolean;
+}
+
+/**
+ * Роль, которую приглашение предлагает на экране входа
+ */
+export type InviteRole = 'player' | 'spectator';
+
+/**
+ * Содержимое подписанного приглашения в комнату
+ */
+export interface InvitePayload {
+  // ID приглашения: по нему ведущий отзывает приглашение и снимает бронь слота
+  inviteId: string;
+  roomId: string;
+  // Приглашенный должен ввести пароль комнаты (иначе само приглашение дает доступ)
+  passwordRequired: boolean;
+  role: InviteRole | null;
+  // Слот, который держится за приглашенным
+  seat: number | null;
+  expiresAt: number;
+}
+
+/**
+ * Роль участника в комнате, которую сервер подписывает при входе
+ */
+export type SessionRole = 'player' | 'host' | 'spectator';
+
+/**
+ * Проверить роль участника
+ * @param role Роль из запроса
+ */
+export function isSessionRole(role: unknown): role is SessionRole {
+  return role === 'player' || role === 'host' || role === 'spectator';
+}
+
 /**
  * Интерфейс для информации о слоте пользователя
  */
@@ -27,7 +306,293 @@ export interface SlotInfo {
 /**
  * Состояния игроков
  */
+/**
+ * Статус игрока: жив, убит ночью (или ведущим), заголосован, удален за фолы, покинул игру
+ */
+export type PlayerStatus = 'alive' | 'killed' | 'voted_out' | 'removed' | 'left';
+
+/**
+ * Причина смены статуса
+ */
+export type PlayerStatusReason =
+  | 'host'
+  | 'night_shot'
+  | 'vote'
+  | 'single_candidate'
+  | 'lift_vote'
+  | 'fouls'
+  | 'disconnected';
+
+/**
+ * Запись о выбывании игрока
+ */
+export interface PlayerStatusRecord {
+  status: Exclude<PlayerStatus, 'alive'>;
+  reason: PlayerStatusReason;
+  // День игры, в который игрок выбыл
+  round: number;
+  // Слот игрока на момент выбывания
+  slotNumber: number | null;
+  timestamp: number;
+}
+
 export interface PlayerStates {
-  // userId -> true (убит) / false (жив)
-  killedPlayers: Record<string, boolean>;
+  // userId -> запись о выбывании (живых игроков в списке нет)
+  statuses: Record<string, PlayerStatusRecord>;
+  // userId -> количество фолов
+  fouls: Record<string, number>;
+  // userId -> true (пропускает следующую речь из-за фолов)
+  silencedPlayers: Record<string, boolean>;
+}
+
+/**
+ * Общее состояние стола: слоты, камеры и состояния игроков.
+ * Каждое изменение увеличивает версию документа на единицу
+ */
+export interface RoomStateDocument {
+  slots: SlotInfo[];
+  // userId -> камера включена
+  cameraStates: Record<string, boolean>;
+  playerStates: PlayerStates;
+}
+
+/**
+ * Изменение состояния стола: измененные разделы целиком,
+ * камеры - только изменившиеся (null - камера пользователя удалена)
+ */
+export interface RoomStateDelta {
+  slots?: SlotInfo[];
+  cameraStates?: Record<string, boolean | null>;
+  playerStates?: PlayerStates;
+}
+
+
+/**
+ * Фазы игровой сессии
+ */
+export type GamePhase =
+  | 'lobby'
+  | 'role_dealing'
+  | 'acquaintance_night'
+  | 'day_discussion'
+  | 'nominations'
+  | 'voting'
+  | 'night'
+  | 'game_over';
+
+/**
+ * Допустимые переходы между фазами (текущая фаза -> возможные следующие).
+ * Первая фаза в списке считается переходом "по умолчанию"
+ */
+export const GAME_PHASE_TRANSITIONS: Record<GamePhase, GamePhase[]> = {
+  lobby: ['role_dealing'],
+  role_dealing: ['acquaintance_night', 'game_over'],
+  acquaintance_night: ['day_discussion', 'game_over'],
+  day_discussion: ['nominations', 'night', 'game_over'],
+  nominations: ['voting', 'night', 'game_over'],
+  voting: ['night', 'game_over'],
+  night: ['day_discussion', 'game_over'],
+  game_over: ['lobby'],
+};
+
+/**
+ * Состояние игровой сессии
+ */
+export interface GameSessionState {
+  phase: GamePhase;
+  // Номер игрового дня (0 - до первого дня)
+  round: number;
+  // Серверное время начала текущей фазы (мс)
+  phaseStartedAt: number;
+  // Итог игры (заполняется при переходе в game_over автоматически)
+  result: GameResult | null;
+  // Выбранный набор правил (см. shared/rulesets.ts)
+  rulesetId: string;
+}
+
+/**
+ * Игровые роли (описания ролей и их ночных способностей - в shared/roles.ts)
+ */
+export type PlayerRole = 'civilian' | 'mafia' | 'don' | 'sheriff' | 'doctor' | 'maniac' | 'lover';
+
+/**
+ * Роль игрока за столом (отправляется только ведущему)
+ */
+export interface RoleAssignment {
+  userId: string;
+  slotNumber: number;
+  role: PlayerRole;
+}
+
+/**
+ * Ночные действия ролей
+ */
+export type NightActionType =
+  | 'shot'
+  | 'don_check'
+  | 'sheriff_check'
+  | 'heal'
+  | 'maniac_kill'
+  | 'lover_visit';
+
+/**
+ * Результат ночного действия, который получает только сам игрок
+ */
+export interface NightActionResult {
+  action: NightActionType;
+  targetSlots: number[];
+  // Для проверок: true - найдена искомая роль (шериф для дона, мафия для шерифа); приходит на рассвете
+  result?: boolean;
+}
+
+/**
+ * Ночное действие конкретного игрока (для сводки ведущему)
+ */
+export interface NightActionRecord extends NightActionResult {
+  actorSlot: number;
+  role: PlayerRole;
+}
+
+/**
+ * Итог ночи после разрешения всех действий
+ */
+export interface NightOutcome {
+  // Убитые слоты
+  killedSlots: number[];
+  // Слоты, спасенные от убийства защитой
+  savedSlots: number[];
+  // Слоты, чьи действия этой ночью заблокированы
+  blockedSlots: number[];
+}
+
+/**
+ * Сводка ночи для ведущего
+ */
+export interface NightSummary {
+  actions: NightActionRecord[];
+  // Итог, если ночь закончится сейчас
+  outcome: NightOutcome;
+}
+
+/**
+ * Этапы дневного голосования
+ * voting - основное голосование, tie_speeches - оправдательные речи при равенстве,
+ * revote - повторное голосование, lift_vote - голосование за подъем всех
+ */
+export type VotingStage = 'nominations' | 'voting' | 'tie_speeches' | 'revote' | 'lift_vote' | 'finished';
+
+/**
+ * Состояние голосования (голосование открытое, поэтому рассылается всем)
+ */
+export interface VotingState {
+  stage: VotingStage;
+  // Выставленные слоты в порядке выставления
+  nominees: number[];
+  // Кто кого выставил: слот выставившего -> выставленный слот
+  nominatedBy: Record<number, number>;
+  // Кандидаты текущего голосования
+  candidates: number[];
+  // Голоса: слот голосующего -> слот кандидата
+  votes: Record<number, number>;
+  // Голоса за подъем всех: слот голосующего -> поднять или нет
+  liftVotes: Record<number, boolean>;
+  // Итог: выбывшие слоты (пусто, если никто не покинул стол)
+  eliminatedSlots: number[];
+}
+
+/**
+ * Типы речей: обычная, оправдательная и последнее слово
+ */
+export type SpeechType = 'normal' | 'defence' | 'last_words';
+
+/**
+ * Состояние таймера речи
+ * Оставшееся время считается от serverTime, чтобы клиенты не зависели от своих часов
+ */
+export interface SpeechTimerState {
+  status: 'idle' | 'running' | 'paused';
+  speakerSlot: number | null;
+  speechType: SpeechType;
+  durationMs: number;
+  // Остаток времени на момент runningSince (или на момент паузы)
+  remainingMs: number;
+  // Серверное время запуска текущего отрезка отсчета (null, если таймер не идет)
+  runningSince: number | null;
+  // Серверное время отправки состояния
+  serverTime: number;
+  // Очередь выступлений текущего дня (слоты живых игроков, еще не выступивших)
+  speakingOrder: number[];
+  // Длительности речей (в секундах)
+  durations: Record<SpeechType, number>;
+}
+
+/**
+ * Победившая команда
+ */
+export type GameWinner = 'mafia' | 'civilians' | 'maniac';
+
+/**
+ * Итог игры с раскрытием всех ролей
+ */
+export interface GameResult {
+  winner: GameWinner;
+  roles: RoleAssignment[];
+  // День, в который завершилась игра
+  round: number;
+  finishedAt: number;
+}
+
+/**
+ * Сколько слотов может назвать игрок в лучшем ходе
+ */
+export const BEST_MOVE_MAX_PICKS = 3;
+
+/**
+ * Лучший ход игрока, убитого в первую ночь: до трех слотов, которые он считает мафией
+ */
+export interface BestMoveState {
+  // Слот убитого в первую ночь (null - лучший ход в этой игре не положен)
+  victimSlot: number | null;
+  // Названные слоты (пусто, пока ход не сделан)
+  picks: number[];
+  submitted: boolean;
+  // Сколько названных слотов оказались мафией (заполняется после раскрытия ролей)
+  mafiaHits: number | null;
+}
+
+/**
+ * Баллы игрока за игру
+ */
+export interface PlayerScore {
+  userId: string;
+  // Учетная запись из удостоверения игрока (null - гость)
+  accountId: number | null;
+  playerName: string;
+  slotNumber: number;
+  role: PlayerRole;
+  won: boolean;
+  // Баллы за победу или поражение команды
+  winPoints: number;
+  // Дополнительные баллы от ведущего
+  extraPoints: number;
+  // Штраф за фолы и удаление (вычитается из суммы)
+  penaltyPoints: number;
+  // Бонус за лучший ход
+  bestMovePoints: number;
+  total: number;
+}
+
+/**
+ * Итоговая таблица игры
+ */
+export interface GameScoreSheet {
+  rulesetId: string;
+  winner: GameWinner;
+  round: number;
+  finishedAt: number;
+  scores: PlayerScore[];
+  // Итоги утверждены ведущим, дополнительные баллы больше не меняются
+  finalized: boolean;
+  // ID игры в хранилище (null, пока игра не записана)
+  gameId: number | null;
 }
@@ -0,0 +1,18 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+import { fileURLToPath } from 'url';
+
+// Тесты общего кода и сервера запускаются в Node, без плагинов клиентской сборки
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "client", "src"),
+      "@shared": path.resolve(__dirname, "shared"),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["shared/**/*.test.ts", "server/**/*.test.ts"],
+  },
+});